@@ -0,0 +1,304 @@
+// Compare the sets of paths that patterns match, without any paths.
+//
+// Each pattern is turned into a finite automaton over the characters of
+// a path string, following the same rules as match() and matchOne():
+// the regular expressions for each path portion are compiled from
+// their source, ** swallows any number of portions other than ., ..
+// and (unless dot:true) dot files, a trailing / on the path is allowed,
+// matchBase patterns match the basename, and negated patterns match the
+// complement.  Questions about the patterns then become questions about
+// products of the automata, and when the answer is "no" (or "yes", for
+// intersects), the shortest path that shows it is returned.
+//
+// Paths are considered in their canonical form: no empty portions other
+// than a leading or trailing /, unless preserveMultipleSlashes is set.
+// With optimizationLevel 2, paths containing . or .. portions are not
+// considered, since they are normalized away before matching.  On
+// windows, \ is treated as a path separator, but UNC and drive letter
+// roots are only compared literally.  Matching is for full paths, not
+// partial matches.  Characters outside the BMP are treated as a single
+// character, even though regexps without the u flag see two.
+
+import {
+  anyChar,
+  charSet,
+  csIntersect,
+  csSubtract,
+  DFA,
+  NFA,
+  parseRegExp,
+  regExpToDFA,
+  repeatsLookaround,
+  segmentChars,
+} from './automaton.js'
+import { LazyDFA } from './derivatives.js'
+import {
+  GLOBSTAR,
+  Minimatch,
+  MinimatchOptions,
+  ParseReturnFiltered,
+} from './index.js'
+
+export interface PatternComparison {
+  /**
+   * The answer to the question asked
+   */
+  result: boolean
+  /**
+   * A path that demonstrates the answer.  For isSubset and equivalent,
+   * this is a path matched by one pattern and not the other, if there
+   * is one.  For intersects, it is a path matched by both.
+   */
+  example?: string
+}
+
+const SLASH = charSet('/')
+const DOT = charSet('.')
+const notDot = csSubtract(segmentChars, DOT)
+
+// a single path portion matching a regexp part of the set, which never
+// contains a /, no matter what the regexp says.
+const regExpCache = new WeakMap<RegExp, DFA>()
+const regExpDFA = (re: RegExp): DFA => {
+  const cached = regExpCache.get(re)
+  if (cached) return cached
+  // a lookaround within a repetition, as in *(a|!(b)), has to be
+  // worked out with derivatives instead
+  const dfa = repeatsLookaround(parseRegExp(re.source, re.flags))
+    ? new LazyDFA(re.source, re.flags).toDFA()
+    : regExpToDFA(re.source, re.flags)
+  for (const s of dfa.states) {
+    s.edges = s.edges
+      .map(([cs, t]): [number[], number] => [csIntersect(cs, segmentChars), t])
+      .filter(([cs]) => cs.length)
+  }
+  regExpCache.set(re, dfa)
+  return dfa
+}
+
+const literalDFA = (s: string): DFA =>
+  new DFA([
+    ...[...s].map((c, i) => ({
+      edges: [[charSet(c), i + 1]] as [number[], number][],
+      accept: false,
+    })),
+    { edges: [], accept: true },
+  ])
+
+// a path portion that ** can swallow
+const swallowDFA = (dot: boolean): DFA =>
+  new DFA([
+    {
+      edges: dot
+        ? [
+            [DOT, 1],
+            [notDot, 3],
+          ]
+        : [[notDot, 3]],
+      accept: true,
+    },
+    {
+      edges: [
+        [DOT, 2],
+        [notDot, 3],
+      ],
+      accept: false,
+    },
+    { edges: [[segmentChars, 3]], accept: false },
+    { edges: [[segmentChars, 3]], accept: true },
+  ])
+
+// a path portion that is not empty, and optionally not . or ..
+const portionDFA = (noDots: boolean): DFA =>
+  noDots
+    ? new DFA([
+        {
+          edges: [
+            [DOT, 1],
+            [notDot, 3],
+          ],
+          accept: false,
+        },
+        {
+          edges: [
+            [DOT, 2],
+            [notDot, 3],
+          ],
+          accept: false,
+        },
+        { edges: [[segmentChars, 3]], accept: false },
+        { edges: [[segmentChars, 3]], accept: true },
+      ])
+    : new DFA([
+        { edges: [[segmentChars, 1]], accept: false },
+        { edges: [[segmentChars, 1]], accept: true },
+      ])
+
+const partDFA = (p: ParseReturnFiltered, dot: boolean): DFA =>
+  p === GLOBSTAR
+    ? swallowDFA(dot)
+    : typeof p === 'string'
+    ? literalDFA(p)
+    : regExpDFA(p)
+
+// the paths that are worth considering at all
+const universe = (a: Minimatch, b: Minimatch): DFA => {
+  const nfa = new NFA()
+  const s = nfa.add(true)
+  if (a.preserveMultipleSlashes && b.preserveMultipleSlashes) {
+    nfa.edge(s, anyChar, s)
+  } else {
+    // '' or '/' or /?portion(/portion)*/?
+    const level = (mm: Minimatch) => mm.options.optimizationLevel ?? 1
+    const portion = portionDFA(level(a) >= 2 || level(b) >= 2)
+    const after = nfa.add(true)
+    const start = nfa.embed(portion, after)
+    const slash = nfa.add(true)
+    nfa.eps(s, start)
+    nfa.edge(s, SLASH, slash)
+    nfa.edge(after, SLASH, slash)
+    nfa.eps(slash, start)
+  }
+  const u = nfa.determinize(s)
+  if (a.isWindows || b.isWindows) {
+    const bs = charSet('\\')
+    for (const st of u.states) {
+      st.edges = st.edges
+        .map(([cs, t]): [number[], number] => [csSubtract(cs, bs), t])
+        .filter(([cs]) => cs.length)
+    }
+  }
+  return u
+}
+
+// the paths that match a single entry in the set
+const entryStart = (
+  nfa: NFA,
+  mm: Minimatch,
+  pattern: ParseReturnFiltered[]
+): number => {
+  const dot = !!mm.options.dot
+  // the end of the pattern may be followed by a trailing /
+  const end = nfa.add(true)
+  nfa.edge(end, SLASH, nfa.add(true))
+
+  if (mm.options.matchBase && pattern.length === 1) {
+    // any leading portions, then the basename, which is the last
+    // non-empty portion.
+    const base = DFA.product(
+      partDFA(pattern[0], dot),
+      portionDFA(false),
+      (a, b) => a && b
+    )
+    const s = nfa.add()
+    const x = nfa.embed(base, end)
+    const leading = nfa.add()
+    nfa.eps(s, x)
+    nfa.eps(s, leading)
+    nfa.edge(leading, anyChar, leading)
+    nfa.edge(leading, SLASH, x)
+    if (partDFA(pattern[0], dot).states[0].accept) nfa.eps(s, end)
+    return s
+  }
+
+  const swallow = swallowDFA(dot)
+  let k = end
+  for (let i = pattern.length - 1; i >= 0; i--) {
+    const p = pattern[i]
+    const last = i === pattern.length - 1
+    if (p === GLOBSTAR && last) {
+      // one or more swallowable portions, and nothing after
+      const loop = nfa.add(true)
+      k = nfa.embed(swallow, loop)
+      nfa.edge(loop, SLASH, k)
+    } else if (p === GLOBSTAR) {
+      // zero or more swallowable portions, each followed by a /
+      const g = nfa.add()
+      const sep = nfa.add()
+      nfa.edge(sep, SLASH, g)
+      nfa.eps(g, k)
+      nfa.eps(g, nfa.embed(swallow, sep))
+      k = g
+    } else if (last) {
+      k = nfa.embed(partDFA(p, dot), k)
+    } else {
+      const sep = nfa.add()
+      nfa.edge(sep, SLASH, k)
+      k = nfa.embed(partDFA(p, dot), sep)
+    }
+  }
+  return k
+}
+
+// all the paths that the pattern matches
+const language = (mm: Minimatch, u: DFA): DFA => {
+  if (mm.comment) return new DFA([{ edges: [], accept: false }])
+  if (mm.empty) return new DFA([{ edges: [], accept: true }])
+  const nfa = new NFA()
+  const s = nfa.add()
+  for (const pattern of mm.set) nfa.eps(s, entryStart(nfa, mm, pattern))
+  const d = nfa.determinize(s)
+  return mm.negate && !mm.options.flipNegate
+    ? DFA.product(u, d, (a, b) => a && !b)
+    : DFA.product(u, d, (a, b) => a && b)
+}
+
+const languages = (
+  a: string | Minimatch,
+  b: string | Minimatch,
+  options: MinimatchOptions
+): [DFA, DFA] => {
+  const ma = typeof a === 'string' ? new Minimatch(a, options) : a
+  const mb = typeof b === 'string' ? new Minimatch(b, options) : b
+  const u = universe(ma, mb)
+  return [language(ma, u), language(mb, u)]
+}
+
+const compare = (
+  a: string | Minimatch,
+  b: string | Minimatch,
+  options: MinimatchOptions,
+  op: (x: boolean, y: boolean) => boolean
+) => {
+  const [la, lb] = languages(a, b, options)
+  return DFA.product(la, lb, op).example()
+}
+
+/**
+ * Return whether every path matched by `a` is also matched by `b`.
+ * If not, `example` is a path that `a` matches and `b` does not.
+ */
+export const isSubset = (
+  a: string | Minimatch,
+  b: string | Minimatch,
+  options: MinimatchOptions = {}
+): PatternComparison => {
+  const example = compare(a, b, options, (x, y) => x && !y)
+  return example === undefined ? { result: true } : { result: false, example }
+}
+
+/**
+ * Return whether any path is matched by both `a` and `b`.  If so,
+ * `example` is such a path.
+ */
+export const intersects = (
+  a: string | Minimatch,
+  b: string | Minimatch,
+  options: MinimatchOptions = {}
+): PatternComparison => {
+  const example = compare(a, b, options, (x, y) => x && y)
+  return example === undefined ? { result: false } : { result: true, example }
+}
+
+/**
+ * Return whether `a` and `b` match exactly the same paths.  If not,
+ * `example` is a path that one matches and the other does not.
+ */
+export const equivalent = (
+  a: string | Minimatch,
+  b: string | Minimatch,
+  options: MinimatchOptions = {}
+): PatternComparison => {
+  const example = compare(a, b, options, (x, y) => x !== y)
+  return example === undefined ? { result: true } : { result: false, example }
+}
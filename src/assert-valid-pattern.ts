@@ -1,6 +1,98 @@
+import { MinimatchLimits, MinimatchOptions } from './index.js'
+import { lint, LintCode } from './lint.js'
+
 const MAX_PATTERN_LENGTH = 1024 * 64
-export const assertValidPattern: (pattern: any) => void = (
-  pattern: any
+
+/**
+ * Thrown for a malformed pattern when the `strict` option is set, rather
+ * than quietly matching the malformed part some other way.
+ */
+export class GlobSyntaxError extends SyntaxError {
+  /** The pattern that was being parsed */
+  pattern: string
+  /** The offset in the pattern where the problem starts */
+  offset: number
+  /** What is wrong with the pattern */
+  reason: string
+  /** The {@link lint} code for the problem */
+  code: LintCode
+
+  constructor(pattern: string, offset: number, reason: string, code: LintCode) {
+    super(`invalid pattern at offset ${offset}: ${reason}`)
+    this.pattern = pattern
+    this.offset = offset
+    this.reason = reason
+    this.code = code
+  }
+
+  get name() {
+    return 'GlobSyntaxError'
+  }
+}
+
+/**
+ * Thrown when a pattern goes over one of the `limits` that were set for
+ * it, as soon as that is found.
+ */
+export class GlobLimitError extends RangeError {
+  /** The pattern, or the part of it, that was being worked on */
+  pattern: string
+  /** The name of the limit that was exceeded */
+  limit: keyof MinimatchLimits
+  /** The value that the limit was set to */
+  max: number
+
+  constructor(pattern: string, limit: keyof MinimatchLimits, max: number) {
+    super(`pattern exceeds the ${limit} limit of ${max}`)
+    this.pattern = pattern
+    this.limit = limit
+    this.max = max
+  }
+
+  get name() {
+    return 'GlobLimitError'
+  }
+}
+
+/**
+ * Thrown when the regular expression for a pattern cannot be written in
+ * the `regexDialect` that was asked for, or it would be too big.
+ */
+export class RegExpDialectError extends Error {
+  /** The source of the JavaScript regular expression */
+  source: string
+  /** Why it could not be written */
+  reason: string
+
+  constructor(source: string, reason: string) {
+    super(`cannot write /${source}/ without lookarounds: ${reason}`)
+    this.source = source
+    this.reason = reason
+  }
+
+  get name() {
+    return 'RegExpDialectError'
+  }
+}
+
+export const assertWithinLimit = (
+  pattern: string,
+  options: MinimatchOptions | undefined,
+  limit: keyof MinimatchLimits,
+  value: number
+) => {
+  const max = options?.limits?.[limit]
+  if (max !== undefined && value > max) {
+    throw new GlobLimitError(pattern, limit, max)
+  }
+}
+
+export const assertValidPattern: (
+  pattern: any,
+  options?: MinimatchOptions
+) => void = (
+  pattern: any,
+  options?: MinimatchOptions
 ): asserts pattern is string => {
   if (typeof pattern !== 'string') {
     throw new TypeError('invalid pattern')
@@ -9,4 +101,19 @@ export const assertValidPattern: (pattern: any) => void = (
   if (pattern.length > MAX_PATTERN_LENGTH) {
     throw new TypeError('pattern is too long')
   }
+
+  for (const [name, max] of Object.entries(options?.limits ?? {})) {
+    if (max !== undefined && !(Number.isInteger(max) && max >= 0)) {
+      throw new TypeError(`invalid ${name} limit: ${max}`)
+    }
+  }
+
+  // options may be null, from JavaScript
+  if (options?.strict) {
+    for (const d of lint(pattern, options)) {
+      if (d.severity === 'error') {
+        throw new GlobSyntaxError(pattern, d.start, d.message, d.code)
+      }
+    }
+  }
 }
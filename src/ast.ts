@@ -1,7 +1,21 @@
 // parse a single path portion
 
+import {
+  assertValidPattern,
+  assertWithinLimit,
+} from './assert-valid-pattern.js'
+import {
+  anyChar,
+  charSet,
+  literalSet,
+  parseRegExp,
+  RNode,
+  segmentChars,
+} from './automaton.js'
 import { MinimatchOptions, MMRegExp } from './index.js'
+import { BracePiece } from './brace-alternation.js'
 import { parseClass } from './brace-expressions.js'
+import { caseFold } from './case-fold.js'
 import { unescape } from './unescape.js'
 
 // classes [] are handled by the parseClass method
@@ -57,6 +71,12 @@ const startNoDot = '(?!\\.)'
 // because a dot *might* be matched. ( is not in the list, because in
 // the case of a child extglob, it will handle the prevention itself.
 const addPatternStart = new Set(['[', '.'])
+// a class with entries of more than one character is a group, which
+// can also match a dot, unlike the ( of an extglob.
+const classGroupStart = ['(?:[', '(?!']
+const patternStart = (src: string, i: number) =>
+  addPatternStart.has(src.charAt(i)) ||
+  classGroupStart.some(s => src.startsWith(s, i))
 // cases where traversal is A-OK, no dot prevention needed
 const justDots = new Set(['..', '.'])
 const reSpecials = new Set('().*{}+?[]^$\\!')
@@ -71,6 +91,51 @@ const star = qmark + '*?'
 // use + when we need to ensure that *something* matches, because the * is
 // the only thing in the path portion.
 const starNoEmpty = qmark + '+?'
+const starOnly = /^\*+$/
+
+// the same pieces, as the syntax tree that toRNode() builds
+const dotNode: RNode = { t: 'chars', set: charSet('.') }
+const qmarkNode: RNode = { t: 'chars', set: segmentChars }
+const starNode: RNode = { t: 'rep', node: qmarkNode, min: 0, max: Infinity }
+const starNoEmptyNode: RNode = {
+  t: 'rep',
+  node: qmarkNode,
+  min: 1,
+  max: Infinity,
+}
+const noDotNode: RNode = { t: 'neg', node: dotNode }
+// the end of a path portion, (?:$|\/)
+const portionEndNode: RNode = {
+  t: 'alt',
+  items: [{ t: 'end' }, { t: 'chars', set: charSet('/') }],
+}
+const startNodes = new Map<string, RNode>([
+  [
+    startNoTraversal,
+    {
+      t: 'neg',
+      node: {
+        t: 'seq',
+        items: [
+          dotNode,
+          { t: 'rep', node: dotNode, min: 0, max: 1 },
+          portionEndNode,
+        ],
+      },
+    },
+  ],
+  [startNoDot, noDotNode],
+])
+const isEmptyNode = (n: RNode) => n.t === 'seq' && !n.items.length
+// an escaped | goes into the regexp as it is, where it separates
+// alternatives, so #globRNodes() marks where it splits the sequence
+const splitNode: RNode = { t: 'alt', items: [] }
+const anyNode: RNode = {
+  t: 'rep',
+  node: { t: 'chars', set: anyChar },
+  min: 0,
+  max: Infinity,
+}
 
 // remove the \ chars that we added if we end up doing a nonmagic compare
 // const deslash = (s: string) => s.replace(/\\(.)/g, '$1')
@@ -91,6 +156,8 @@ export class AST {
   // set to true if it's an extglob with no children
   // (which really means one child of '')
   #emptyExt: boolean = false
+  // the dot guard that toRegExpSource() put at the start, if any
+  #startGuard: string = ''
 
   constructor(
     type: ExtglobType | null,
@@ -237,11 +304,13 @@ export class AST {
     return c
   }
 
+  // depth is the number of extglobs that ast is within, itself included
   static #parseAST(
     str: string,
     ast: AST,
     pos: number,
-    opt: MinimatchOptions
+    opt: MinimatchOptions,
+    depth: number = 0
   ): number {
     let escaping = false
     let inBrace = false
@@ -282,8 +351,9 @@ export class AST {
         if (!opt.noext && isExtglobType(c) && str.charAt(i) === '(') {
           ast.push(acc)
           acc = ''
+          assertWithinLimit(str, opt, 'extglobDepth', depth + 1)
           const ext = new AST(c, ast)
-          i = AST.#parseAST(str, ext, i, opt)
+          i = AST.#parseAST(str, ext, i, opt, depth + 1)
           ast.push(ext)
           continue
         }
@@ -330,9 +400,10 @@ export class AST {
       if (isExtglobType(c) && str.charAt(i) === '(') {
         part.push(acc)
         acc = ''
+        assertWithinLimit(str, opt, 'extglobDepth', depth + 1)
         const ext = new AST(c, part)
         part.push(ext)
-        i = AST.#parseAST(str, ext, i, opt)
+        i = AST.#parseAST(str, ext, i, opt, depth + 1)
         continue
       }
       if (c === '|') {
@@ -364,20 +435,54 @@ export class AST {
   }
 
   static fromGlob(pattern: string, options: MinimatchOptions = {}) {
+    assertValidPattern(pattern, options)
     const ast = new AST(null, undefined, options)
     AST.#parseAST(pattern, ast, 0, options)
     return ast
   }
 
+  // build a path portion from splitBraces(), with each brace set as an
+  // @(...) of its alternatives.
+  static fromBracePieces(pieces: BracePiece[], options: MinimatchOptions = {}) {
+    const ast = new AST(null, undefined, options)
+    AST.#addBracePieces(ast, pieces, options)
+    return ast
+  }
+
+  static #addBracePieces(
+    ast: AST,
+    pieces: BracePiece[],
+    options: MinimatchOptions
+  ) {
+    for (const piece of pieces) {
+      if (typeof piece === 'string') {
+        AST.#parseAST(piece, ast, 0, options)
+        continue
+      }
+      const ext = new AST('@', ast)
+      // create them all before pushing, so that each one is at the start
+      const alts = piece.map(alt => {
+        const part = new AST(null, ext)
+        if (typeof alt === 'string') AST.#parseAST(alt, part, 0, options)
+        else AST.#addBracePieces(part, alt, options)
+        return part
+      })
+      ext.push(...alts)
+      ast.push(ext)
+    }
+  }
+
   // returns the regular expression if there's magic, or the unescaped
   // string if not.
-  toMMPattern(): MMRegExp | string {
+  // If capture is set, then each top-level magic token (a run of *, a ?,
+  // a character class, or an extglob) is wrapped in a capturing group.
+  toMMPattern(capture: boolean = false): MMRegExp | string {
     // should only be called on root
     /* c8 ignore start */
-    if (this !== this.#root) return this.#root.toMMPattern()
+    if (this !== this.#root) return this.#root.toMMPattern(capture)
     /* c8 ignore stop */
     const glob = this.toString()
-    const [re, body, hasMagic, uflag] = this.toRegExpSource()
+    const [re, body, hasMagic, uflag] = this.toRegExpSource(capture)
     // if we're in nocase mode, and not nocaseMagicOnly, then we do
     // still need a regular expression if we have to case-insensitively
     // match capital/lowercase characters.
@@ -391,10 +496,12 @@ export class AST {
       return body
     }
 
+    assertWithinLimit(glob, this.#options, 'regexpLength', re.length + 2)
     const flags = (this.#options.nocase ? 'i' : '') + (uflag ? 'u' : '')
     return Object.assign(new RegExp(`^${re}$`, flags), {
       _src: re,
       _glob: glob,
+      _ast: this,
     })
   }
 
@@ -467,24 +574,35 @@ export class AST {
   // - Since the start for a join is eg /(?!\.) and the start for a part
   // is ^(?!\.), we can just prepend (?!\.) to the pattern (either root
   // or start or whatever) and prepend ^ or / at the Regexp construction.
-  toRegExpSource(): [
-    re: string,
-    body: string,
-    hasMagic: boolean,
-    uflag: boolean
-  ] {
+  //
+  // The capture flag only applies to the root, since tokens nested within
+  // an extglob are captured as part of that extglob.
+  toRegExpSource(
+    capture: boolean = false
+  ): [re: string, body: string, hasMagic: boolean, uflag: boolean] {
     if (this.#root === this) this.#fillNegs()
     if (!this.type) {
       const noEmpty = this.isStart() && this.isEnd()
       const src = this.#parts
         .map(p => {
-          const [re, _, hasMagic, uflag] =
-            typeof p === 'string'
-              ? AST.#parseGlob(p, this.#hasMagic, noEmpty)
-              : p.toRegExpSource()
+          if (typeof p === 'string') {
+            const [re, _, hasMagic, uflag] = AST.#parseGlob(
+              p,
+              this.#hasMagic,
+              noEmpty,
+              capture,
+              this.#options.unicodeNormalize || false,
+              this.#fold()
+            )
+            this.#hasMagic = this.#hasMagic || hasMagic
+            this.#uflag = this.#uflag || uflag
+            return re
+          }
+          const [re, _, hasMagic, uflag] = p.toRegExpSource()
           this.#hasMagic = this.#hasMagic || hasMagic
           this.#uflag = this.#uflag || uflag
-          return re
+          // an invalid extglob turns itself back into a literal string
+          return capture && p.type ? '(' + re + ')' : re
         })
         .join('')
 
@@ -499,34 +617,38 @@ export class AST {
           const dotTravAllowed =
             this.#parts.length === 1 && justDots.has(this.#parts[0])
           if (!dotTravAllowed) {
-            const aps = addPatternStart
+            // capturing groups would hide how the pattern starts
+            const src0 = capture
+              ? AST.#parseGlob(
+                  this.#parts[0],
+                  this.#hasMagic,
+                  noEmpty,
+                  false,
+                  this.#options.unicodeNormalize || false,
+                  this.#fold()
+                )[0]
+              : src
             // check if we have a possibility of matching . or ..,
             // and prevent that.
             const needNoTrav =
               // dots are allowed, and the pattern starts with [ or .
-              (this.#options.dot && aps.has(src.charAt(0))) ||
+              (this.#options.dot && patternStart(src0, 0)) ||
               // the pattern starts with \., and then [ or .
-              (src.startsWith('\\.') && aps.has(src.charAt(2))) ||
+              (src0.startsWith('\\.') && patternStart(src0, 2)) ||
               // the pattern starts with \.\., and then [ or .
-              (src.startsWith('\\.\\.') && aps.has(src.charAt(4)))
+              (src0.startsWith('\\.\\.') && patternStart(src0, 4))
             // no need to prevent dots if it can't match a dot, or if a
             // sub-pattern will be preventing it anyway.
-            const needNoDot = !this.#options.dot && aps.has(src.charAt(0))
+            const needNoDot = !this.#options.dot && patternStart(src0, 0)
 
             start = needNoTrav ? startNoTraversal : needNoDot ? startNoDot : ''
           }
         }
       }
+      this.#startGuard = start
 
       // append the "end of path portion" pattern to negation tails
-      let end = ''
-      if (
-        this.isEnd() &&
-        this.#root.#filledNegs &&
-        this.#parent?.type === '!'
-      ) {
-        end = '(?:$|\\/)'
-      }
+      const end = this.#isNegTail() ? '(?:$|\\/)' : ''
       const final = start + src + end
       return [
         final,
@@ -588,11 +710,104 @@ export class AST {
     ]
   }
 
+  // whether this is the tail of a negated extglob, which has to bind the
+  // end of the path portion
+  #isNegTail() {
+    return this.isEnd() && this.#root.#filledNegs && this.#parent?.type === '!'
+  }
+
+  /**
+   * The regular expression that toMMPattern() makes, as a syntax tree,
+   * without the ^ and $.  This is what engine: 'nfa' builds its DFA
+   * from, rather than parsing the regexp source back in.
+   */
+  toRNode(): RNode {
+    // should only be called on root
+    /* c8 ignore start */
+    if (this !== this.#root) return this.#root.toRNode()
+    /* c8 ignore stop */
+    // fills in the negated tails and the dot guards, and turns invalid
+    // extglobs back into literals
+    const [, , , uflag] = this.toRegExpSource()
+    const flags = (this.#options.nocase ? 'i' : '') + (uflag ? 'u' : '')
+    const node = this.#toRNode(flags)
+    if (node.t !== 'alt') return node
+    // split by an escaped |, so the ^ only binds the first alternative,
+    // and the $ only the last
+    const last = node.items.length - 1
+    return {
+      t: 'alt',
+      items: node.items.map((n, i) => ({
+        t: 'seq',
+        items: [...(i ? [anyNode] : []), n, ...(i < last ? [anyNode] : [])],
+      })),
+    }
+  }
+
+  #toRNode(flags: string): RNode {
+    const noDot = this.isStart() && !this.#options.dot ? [noDotNode] : []
+    if (!this.type) {
+      const noEmpty = this.isStart() && this.isEnd()
+      const items = this.#parts.flatMap(p =>
+        typeof p === 'string'
+          ? AST.#globRNodes(
+              p,
+              noEmpty,
+              this.#options.unicodeNormalize || false,
+              this.#fold(),
+              flags
+            )
+          : [p.#toRNode(flags)]
+      )
+      const alts: RNode[][] = [[]]
+      for (const n of items) {
+        if (n === splitNode) alts.push([])
+        else alts[alts.length - 1].push(n)
+      }
+      const start = startNodes.get(this.#startGuard)
+      if (start) alts[0].unshift(start)
+      if (this.#isNegTail()) alts[alts.length - 1].push(portionEndNode)
+      const seqs: RNode[] = alts.map(items => ({ t: 'seq', items }))
+      return seqs.length === 1 ? seqs[0] : { t: 'alt', items: seqs }
+    }
+
+    // an empty !() is exactly equivalent to a starNoEmpty
+    if (this.type === '!' && this.#emptyExt) {
+      return { t: 'seq', items: [...noDot, starNoEmptyNode] }
+    }
+    const body = this.#parts
+      .map(p => (p as AST).#toRNode(flags))
+      .filter(n => !(this.isStart() && this.isEnd()) || !isEmptyNode(n))
+    const node: RNode = { t: 'alt', items: body }
+    switch (this.type) {
+      case '!':
+        return { t: 'seq', items: [{ t: 'neg', node }, ...noDot, starNode] }
+      case '@':
+        return node
+      case '?':
+        return { t: 'rep', node, min: 0, max: 1 }
+      case '*':
+        return { t: 'rep', node, min: 0, max: Infinity }
+      case '+':
+        return { t: 'rep', node, min: 1, max: Infinity }
+    }
+  }
+
+  // the rest of the pattern is already folded, but not its classes
+  #fold() {
+    const { nocase, locale } = this.#options
+    return nocase === 'fold' ? (s: string) => caseFold(s, locale) : undefined
+  }
+
   static #parseGlob(
     glob: string,
     hasMagic: boolean | undefined,
-    noEmpty: boolean = false
+    noEmpty: boolean = false,
+    capture: boolean = false,
+    combine: string | false = false,
+    fold?: (s: string) => string
   ): [re: string, body: string, hasMagic: boolean, uflag: boolean] {
+    const group = (s: string) => (capture ? '(' + s + ')' : s)
     let escaping = false
     let re = ''
     let uflag = false
@@ -612,9 +827,14 @@ export class AST {
         continue
       }
       if (c === '[') {
-        const [src, needUflag, consumed, magic] = parseClass(glob, i)
+        const [src, needUflag, consumed, magic] = parseClass(
+          glob,
+          i,
+          combine,
+          fold
+        )
         if (consumed) {
-          re += src
+          re += magic ? group(src) : src
           uflag = uflag || needUflag
           i += consumed - 1
           hasMagic = hasMagic || magic
@@ -622,13 +842,19 @@ export class AST {
         }
       }
       if (c === '*') {
-        if (noEmpty && glob === '*') re += starNoEmpty
-        else re += star
+        // a portion of nothing but stars has to match something, as the
+        // fast test for it in parse() says
+        if (noEmpty && starOnly.test(glob)) {
+          re += group(starNoEmpty)
+          i = glob.length
+        } else re += group(star)
         hasMagic = true
+        // a run of * is a single token when capturing
+        if (capture) while (glob.charAt(i + 1) === '*') i++
         continue
       }
       if (c === '?') {
-        re += qmark
+        re += group(qmark)
         hasMagic = true
         continue
       }
@@ -636,4 +862,54 @@ export class AST {
     }
     return [re, unescape(glob), !!hasMagic, uflag]
   }
+
+  // the nodes for a glob with no extglobs in it, as #parseGlob() would
+  // write it without capturing groups
+  static #globRNodes(
+    glob: string,
+    noEmpty: boolean,
+    combine: string | false,
+    fold: ((s: string) => string) | undefined,
+    flags: string
+  ): RNode[] {
+    const nodes: RNode[] = []
+    const literal = (c: number) =>
+      nodes.push({ t: 'chars', set: literalSet(c, flags) })
+    for (let i = 0; i < glob.length; i++) {
+      const c = glob.charAt(i)
+      if (c === '\\') {
+        if (i === glob.length - 1) literal(0x5c)
+        else if (glob.charAt(++i) === '|') nodes.push(splitNode)
+        else {
+          const cp = glob.codePointAt(i) as number
+          literal(cp)
+          if (cp > 0xffff) i++
+        }
+        continue
+      }
+      if (c === '[') {
+        const [src, _, consumed] = parseClass(glob, i, combine, fold)
+        if (consumed) {
+          // the class as a whole, which may be a group of alternatives
+          // for the characters that fold to more than one
+          nodes.push(parseRegExp(src, flags))
+          i += consumed - 1
+          continue
+        }
+      }
+      if (c === '*') {
+        if (noEmpty && starOnly.test(glob)) return [starNoEmptyNode]
+        nodes.push(starNode)
+        continue
+      }
+      if (c === '?') {
+        nodes.push(qmarkNode)
+        continue
+      }
+      const cp = glob.codePointAt(i) as number
+      literal(cp)
+      if (cp > 0xffff) i++
+    }
+    return nodes
+  }
 }
@@ -0,0 +1,721 @@
+// Finite automata over unicode code points, used to reason about the
+// languages that patterns match, without needing any actual paths.
+//
+// Transitions are labelled with sets of characters rather than single
+// characters, so that classes like [^/] or [[:alpha:]] don't explode
+// into one edge per code point.  A CharSet is a flat sorted list of
+// inclusive [lo, hi, lo, hi, ...] code point ranges.
+//
+// The regular expressions that the AST generates are compiled into an
+// NFA using continuations: each node is compiled knowing the state that
+// follows it.  That way, the negative lookaheads used for dot rules and
+// negative extglobs can be resolved by intersecting what follows with
+// the complement of the lookahead, since the lookahead always applies
+// to the remainder of the string being tested.
+
+export type CharSet = number[]
+
+export const MAX_CHAR = 0x10ffff
+export const anyChar: CharSet = [0, MAX_CHAR]
+const SLASH = 0x2f
+
+export const charSet = (c: string): CharSet => {
+  const n = c.codePointAt(0) as number
+  return [n, n]
+}
+
+// normalize a list of possibly overlapping ranges
+const normalize = (ranges: [number, number][]): CharSet => {
+  ranges.sort((a, b) => a[0] - b[0])
+  const out: CharSet = []
+  for (const [lo, hi] of ranges) {
+    const last = out.length - 1
+    if (last > 0 && lo <= out[last] + 1) {
+      out[last] = Math.max(out[last], hi)
+    } else {
+      out.push(lo, hi)
+    }
+  }
+  return out
+}
+
+const pairs = (a: CharSet): [number, number][] => {
+  const p: [number, number][] = []
+  for (let i = 0; i < a.length; i += 2) p.push([a[i], a[i + 1]])
+  return p
+}
+
+export const csUnion = (a: CharSet, b: CharSet): CharSet =>
+  normalize([...pairs(a), ...pairs(b)])
+
+export const csIntersect = (a: CharSet, b: CharSet): CharSet => {
+  const out: CharSet = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    const lo = Math.max(a[i], b[j])
+    const hi = Math.min(a[i + 1], b[j + 1])
+    if (lo <= hi) out.push(lo, hi)
+    if (a[i + 1] < b[j + 1]) i += 2
+    else j += 2
+  }
+  return out
+}
+
+export const csComplement = (a: CharSet): CharSet => {
+  const out: CharSet = []
+  let next = 0
+  for (let i = 0; i < a.length; i += 2) {
+    if (a[i] > next) out.push(next, a[i] - 1)
+    next = a[i + 1] + 1
+  }
+  if (next <= MAX_CHAR) out.push(next, MAX_CHAR)
+  return out
+}
+
+export const csSubtract = (a: CharSet, b: CharSet): CharSet =>
+  csIntersect(a, csComplement(b))
+
+export const csHas = (a: CharSet, c: number) => {
+  for (let i = 0; i < a.length; i += 2) {
+    if (c < a[i]) return false
+    if (c <= a[i + 1]) return true
+  }
+  return false
+}
+
+// the characters we'd prefer to use when making up an example path,
+// so that the examples are readable.
+const preferred = [
+  ...'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_-',
+].map(c => c.charCodeAt(0))
+
+// pick a representative character from a non-empty set
+export const csSample = (a: CharSet): number => {
+  for (const c of preferred) if (csHas(a, c)) return c
+  // printable ascii, then anything that isn't a lone surrogate
+  const printable = csIntersect(a, [0x20, 0x7e])
+  if (printable.length) return printable[0]
+  const nonSurrogate = csSubtract(a, [0xd800, 0xdfff])
+  return nonSurrogate.length ? nonSurrogate[0] : a[0]
+}
+
+interface NState {
+  eps: number[]
+  edges: [CharSet, number][]
+  accept: boolean
+}
+
+export interface DState {
+  // the character sets on the edges out of a state never overlap
+  edges: [CharSet, number][]
+  accept: boolean
+}
+
+/**
+ * A deterministic automaton.  State 0 is the start state.  A missing
+ * transition goes to an implicit dead state.
+ */
+export class DFA {
+  states: DState[]
+
+  constructor(states: DState[]) {
+    this.states = states
+  }
+
+  /**
+   * Combine two DFAs into one that accepts a string if
+   * `op(a accepts, b accepts)`.  `op(false, false)` must be false.
+   */
+  static product(a: DFA, b: DFA, op: (x: boolean, y: boolean) => boolean): DFA {
+    const states: DState[] = []
+    const ids = new Map<string, number>()
+    const queue: [number, number][] = []
+    const id = (x: number, y: number) => {
+      const key = x + ',' + y
+      let n = ids.get(key)
+      if (n === undefined) {
+        n = states.length
+        ids.set(key, n)
+        states.push({
+          edges: [],
+          accept: op(
+            x !== -1 && a.states[x].accept,
+            y !== -1 && b.states[y].accept
+          ),
+        })
+        queue.push([x, y])
+      }
+      return n
+    }
+    id(0, 0)
+    for (let q = 0; q < queue.length; q++) {
+      const [x, y] = queue[q]
+      const ae = x === -1 ? [] : a.states[x].edges
+      const be = y === -1 ? [] : b.states[y].edges
+      const edges: [CharSet, number][] = []
+      let bAll: CharSet = []
+      for (const [bs] of be) bAll = csUnion(bAll, bs)
+      for (const [as, at] of ae) {
+        for (const [bs, bt] of be) {
+          const i = csIntersect(as, bs)
+          if (i.length) edges.push([i, id(at, bt)])
+        }
+        const rem = csSubtract(as, bAll)
+        if (rem.length) edges.push([rem, id(at, -1)])
+      }
+      let aAll: CharSet = []
+      for (const [as] of ae) aAll = csUnion(aAll, as)
+      for (const [bs, bt] of be) {
+        const rem = csSubtract(bs, aAll)
+        if (rem.length) edges.push([rem, id(-1, bt)])
+      }
+      states[q].edges = edges
+    }
+    return new DFA(states)
+  }
+
+  /**
+   * Return true if the string is accepted.
+   */
+  test(s: string): boolean {
+    let state = 0
+    for (const ch of s) {
+      const c = ch.codePointAt(0) as number
+      const edge = this.states[state].edges.find(([cs]) => csHas(cs, c))
+      if (!edge) return false
+      state = edge[1]
+    }
+    return this.states[state].accept
+  }
+
+  /**
+   * Return the shortest accepted string, or undefined if the language
+   * is empty.
+   */
+  example(): string | undefined {
+    const prev = new Map<number, [number, number]>()
+    const queue = [0]
+    const seen = new Set([0])
+    for (let q = 0; q < queue.length; q++) {
+      const s = queue[q]
+      if (this.states[s].accept) {
+        const chars: number[] = []
+        for (let n = s; n !== 0; ) {
+          const [p, c] = prev.get(n) as [number, number]
+          chars.unshift(c)
+          n = p
+        }
+        return String.fromCodePoint(...chars)
+      }
+      // visit the edges with nicer characters first
+      const edges = this.states[s].edges
+        .map(([cs, t]) => [csSample(cs), t])
+        .sort(([a], [b]) => preferredRank(a) - preferredRank(b))
+      for (const [c, t] of edges) {
+        if (seen.has(t)) continue
+        seen.add(t)
+        prev.set(t, [s, c])
+        queue.push(t)
+      }
+    }
+    return undefined
+  }
+}
+
+const preferredRank = (c: number) => {
+  const i = preferred.indexOf(c)
+  return i === -1 ? preferred.length + c : i
+}
+
+/**
+ * A nondeterministic automaton with epsilon transitions.  States are
+ * added to a single builder, and fragments refer to each other by
+ * state number.
+ */
+export class NFA {
+  states: NState[] = []
+
+  add(accept: boolean = false): number {
+    this.states.push({ eps: [], edges: [], accept })
+    return this.states.length - 1
+  }
+
+  eps(from: number, to: number) {
+    this.states[from].eps.push(to)
+  }
+
+  edge(from: number, cs: CharSet, to: number) {
+    if (cs.length) this.states[from].edges.push([cs, to])
+  }
+
+  closure(set: Iterable<number>): number[] {
+    const out = new Set<number>(set)
+    const stack = [...out]
+    let s: number | undefined
+    while ((s = stack.pop()) !== undefined) {
+      for (const t of this.states[s].eps) {
+        if (!out.has(t)) {
+          out.add(t)
+          stack.push(t)
+        }
+      }
+    }
+    return [...out].sort((a, b) => a - b)
+  }
+
+  acceptsEmpty(s: number) {
+    return this.closure([s]).some(n => this.states[n].accept)
+  }
+
+  /**
+   * Subset construction, starting from the given state.
+   */
+  determinize(start: number): DFA {
+    const states: DState[] = []
+    const ids = new Map<string, number>()
+    const queue: number[][] = []
+    const id = (set: number[]) => {
+      const key = set.join(',')
+      let n = ids.get(key)
+      if (n === undefined) {
+        n = states.length
+        ids.set(key, n)
+        states.push({
+          edges: [],
+          accept: set.some(s => this.states[s].accept),
+        })
+        queue.push(set)
+      }
+      return n
+    }
+    id(this.closure([start]))
+    for (let q = 0; q < queue.length; q++) {
+      // split the outgoing character sets into non-overlapping pieces,
+      // tracking which targets each piece can reach.
+      let pieces: [CharSet, Set<number>][] = []
+      for (const s of queue[q]) {
+        for (const [cs, t] of this.states[s].edges) {
+          const next: [CharSet, Set<number>][] = []
+          let rem = cs
+          for (const [pcs, targets] of pieces) {
+            const i = csIntersect(pcs, cs)
+            if (!i.length) {
+              next.push([pcs, targets])
+              continue
+            }
+            next.push([i, new Set([...targets, t])])
+            const d = csSubtract(pcs, cs)
+            if (d.length) next.push([d, targets])
+            rem = csSubtract(rem, pcs)
+          }
+          if (rem.length) next.push([rem, new Set([t])])
+          pieces = next
+        }
+      }
+      // merge pieces that lead to the same place
+      const byTarget = new Map<number, CharSet>()
+      for (const [cs, targets] of pieces) {
+        const t = id(this.closure(targets))
+        byTarget.set(t, csUnion(byTarget.get(t) || [], cs))
+      }
+      states[q].edges = [...byTarget].map(([t, cs]) => [cs, t])
+    }
+    return new DFA(states)
+  }
+
+  /**
+   * Copy a DFA into this NFA, returning the new start state.  If a
+   * continuation state is provided, then the accepting states of the
+   * DFA lead to it, rather than accepting.
+   */
+  embed(dfa: DFA, k?: number): number {
+    const base = this.states.length
+    for (const s of dfa.states) {
+      const n = this.add(k === undefined && s.accept)
+      if (k !== undefined && s.accept) this.eps(n, k)
+      for (const [cs, t] of s.edges) this.edge(n, cs, base + t)
+    }
+    return base
+  }
+}
+
+// regular expression syntax tree, covering what the AST generates
+export type RNode =
+  | { t: 'chars'; set: CharSet }
+  | { t: 'seq'; items: RNode[] }
+  | { t: 'alt'; items: RNode[] }
+  | { t: 'rep'; node: RNode; min: 0 | 1; max: 1 | typeof Infinity }
+  | { t: 'neg'; node: RNode }
+  | { t: 'end' }
+  | { t: 'start' }
+
+const hasLookaround = (n: RNode): boolean =>
+  n.t === 'neg' ||
+  n.t === 'end' ||
+  (n.t === 'rep' && hasLookaround(n.node)) ||
+  ((n.t === 'seq' || n.t === 'alt') && n.items.some(hasLookaround))
+
+/**
+ * Whether a lookaround appears within a repetition, which the NFA
+ * construction can't handle.
+ */
+export const repeatsLookaround = (n: RNode): boolean =>
+  n.t === 'rep'
+    ? (n.max !== 1 && hasLookaround(n.node)) || repeatsLookaround(n.node)
+    : n.t === 'neg'
+    ? repeatsLookaround(n.node)
+    : (n.t === 'seq' || n.t === 'alt') && n.items.some(repeatsLookaround)
+
+// code points that a single character matches, taking the i flag into
+// account.  Characters that differ in case are gathered once, lazily.
+let caseGroups: Map<string, number[]> | undefined
+const getCaseGroups = () => {
+  if (caseGroups) return caseGroups
+  caseGroups = new Map()
+  for (let c = 0; c <= MAX_CHAR; c++) {
+    const s = String.fromCodePoint(c)
+    const u = s.toUpperCase()
+    const l = s.toLowerCase()
+    if (u === s && l === s) continue
+    for (const k of new Set([u, l, s])) {
+      const g = caseGroups.get(k)
+      if (g) g.push(c)
+      else caseGroups.set(k, [c])
+    }
+  }
+  return caseGroups
+}
+
+/**
+ * The code points that a literal character matches, with the i flag or
+ * without it.
+ */
+export const literalSet = (c: number, flags: string): CharSet => {
+  if (!flags.includes('i')) return [c, c]
+  const s = String.fromCodePoint(c)
+  const groups = getCaseGroups()
+  const candidates = new Set([c])
+  for (const k of [s, s.toUpperCase(), s.toLowerCase()]) {
+    for (const n of groups.get(k) || []) candidates.add(n)
+  }
+  const re = new RegExp(
+    '^' + s.replace(/[\\^$.*+?()[\]{}|/-]/g, '\\$&') + '$',
+    flags
+  )
+  return normalize(
+    [...candidates]
+      .filter(n => re.test(String.fromCodePoint(n)))
+      .map(n => [n, n])
+  )
+}
+
+// classes using unicode properties or case folding are worked out by
+// asking the RegExp engine about every code point.  Slow, but exact,
+// and only done once for each distinct class.
+const classCache = new Map<string, CharSet>()
+const scanClass = (src: string, flags: string): CharSet => {
+  const key = flags + src
+  const cached = classCache.get(key)
+  if (cached) return cached
+  const re = new RegExp('^' + src + '$', flags)
+  // without the u flag, a class matches a single utf-16 code unit, so
+  // an astral character is matched if both of its halves would be.
+  const test = flags.includes('u')
+    ? (c: number) => re.test(String.fromCodePoint(c))
+    : (c: number) => {
+        const s = String.fromCodePoint(c)
+        return s.length === 1
+          ? re.test(s)
+          : re.test(s.charAt(0)) && re.test(s.charAt(1))
+      }
+  const ranges: [number, number][] = []
+  let lo = -1
+  for (let c = 0; c <= MAX_CHAR + 1; c++) {
+    const hit = c <= MAX_CHAR && test(c)
+    if (hit && lo === -1) lo = c
+    else if (!hit && lo !== -1) {
+      ranges.push([lo, c - 1])
+      lo = -1
+    }
+  }
+  const set = normalize(ranges)
+  classCache.set(key, set)
+  return set
+}
+
+const lineTerminators: CharSet = [0x0a, 0x0a, 0x0d, 0x0d, 0x2028, 0x2029]
+
+class RegExpParser {
+  src: string
+  flags: string
+  i: number = 0
+  constructor(src: string, flags: string) {
+    this.src = src
+    this.flags = flags
+  }
+
+  fail(msg: string): never {
+    throw new Error(`cannot analyze regular expression /${this.src}/: ${msg}`)
+  }
+
+  parse(): RNode {
+    const n = this.alt()
+    if (this.i < this.src.length) this.fail('unexpected )')
+    return n
+  }
+
+  alt(): RNode {
+    const items = [this.seq()]
+    while (this.src.charAt(this.i) === '|') {
+      this.i++
+      items.push(this.seq())
+    }
+    return items.length === 1 ? items[0] : { t: 'alt', items }
+  }
+
+  seq(): RNode {
+    const items: RNode[] = []
+    while (this.i < this.src.length) {
+      const c = this.src.charAt(this.i)
+      if (c === '|' || c === ')') break
+      let atom = this.atom()
+      const q = this.src.charAt(this.i)
+      const bounds = /^\{([0-9]+)(,([0-9]*))?\}/.exec(
+        this.src.substring(this.i)
+      )
+      if (bounds) {
+        this.i += bounds[0].length
+        if (this.src.charAt(this.i) === '?') this.i++
+        // x{2,4} is xx(?:x(?:x)?)?, and x{2,} is xxx*
+        const min = +bounds[1]
+        const max = !bounds[2] ? min : bounds[3] ? +bounds[3] : Infinity
+        if (max < min) this.fail('numbers out of order in quantifier')
+        let tail: RNode =
+          max === Infinity
+            ? { t: 'rep', node: atom, min: 0, max: Infinity }
+            : { t: 'seq', items: [] }
+        for (let n = max === Infinity ? max : min; n < max; n++) {
+          tail = {
+            t: 'rep',
+            node: { t: 'seq', items: [atom, tail] },
+            min: 0,
+            max: 1,
+          }
+        }
+        atom = { t: 'seq', items: [...Array(min).fill(atom), tail] }
+      } else if (q === '*' || q === '+' || q === '?') {
+        this.i++
+        // lazy and greedy quantifiers match the same language
+        if (this.src.charAt(this.i) === '?') this.i++
+        atom = {
+          t: 'rep',
+          node: atom,
+          min: q === '+' ? 1 : 0,
+          max: q === '?' ? 1 : Infinity,
+        }
+      }
+      items.push(atom)
+    }
+    return items.length === 1 ? items[0] : { t: 'seq', items }
+  }
+
+  atom(): RNode {
+    const src = this.src
+    const c = src.charAt(this.i)
+    if (c === '(') {
+      let neg = false
+      if (src.startsWith('(?:', this.i)) this.i += 3
+      else if (src.startsWith('(?!', this.i)) {
+        neg = true
+        this.i += 3
+      } else if (src.startsWith('(?', this.i)) {
+        this.fail('unsupported group')
+      } else this.i++
+      const node = this.alt()
+      if (src.charAt(this.i) !== ')') this.fail('unterminated group')
+      this.i++
+      return neg ? { t: 'neg', node } : node
+    }
+    if (c === '[') return { t: 'chars', set: this.cls() }
+    if (c === '$') {
+      this.i++
+      return { t: 'end' }
+    }
+    if (c === '^') {
+      this.i++
+      return { t: 'start' }
+    }
+    if (c === '.') {
+      this.i++
+      return { t: 'chars', set: csComplement(lineTerminators) }
+    }
+    if (c === '\\') {
+      this.i++
+      return { t: 'chars', set: literalSet(this.escape(), this.flags) }
+    }
+    const cp = src.codePointAt(this.i) as number
+    this.i += cp > 0xffff ? 2 : 1
+    return { t: 'chars', set: literalSet(cp, this.flags) }
+  }
+
+  // parse the char after a \, and return the code point it stands for
+  escape(): number {
+    const src = this.src
+    const c = src.charAt(this.i)
+    const ctrl = 'tnrvf0'.indexOf(c)
+    if (ctrl !== -1) {
+      this.i++
+      return [9, 10, 13, 11, 12, 0][ctrl]
+    }
+    if (c === 'x' && /^[0-9a-f]{2}/i.test(src.substring(this.i + 1))) {
+      this.i += 3
+      return parseInt(src.substring(this.i - 2, this.i), 16)
+    }
+    if (c === 'u' && /^[0-9a-f]{4}/i.test(src.substring(this.i + 1))) {
+      this.i += 5
+      return parseInt(src.substring(this.i - 4, this.i), 16)
+    }
+    if (/[a-zA-Z]/.test(c)) this.fail(`unsupported escape \\${c}`)
+    const cp = src.codePointAt(this.i) as number
+    this.i += cp > 0xffff ? 2 : 1
+    return cp
+  }
+
+  cls(): CharSet {
+    const src = this.src
+    const start = this.i
+    this.i++
+    const negate = src.charAt(this.i) === '^'
+    if (negate) this.i++
+    let needScan = this.flags.includes('i')
+    const ranges: [number, number][] = []
+    while (this.i < src.length && src.charAt(this.i) !== ']') {
+      let lo: number
+      if (src.charAt(this.i) === '\\') {
+        this.i++
+        if (/[pP]/.test(src.charAt(this.i))) {
+          // \p{Prop}, leave it to the regexp engine
+          const close = src.indexOf('}', this.i)
+          if (close === -1) this.fail('invalid property escape')
+          this.i = close + 1
+          needScan = true
+          continue
+        }
+        lo = this.escape()
+      } else {
+        lo = src.codePointAt(this.i) as number
+        this.i += lo > 0xffff ? 2 : 1
+      }
+      let hi = lo
+      if (
+        src.charAt(this.i) === '-' &&
+        this.i + 1 < src.length &&
+        src.charAt(this.i + 1) !== ']'
+      ) {
+        this.i++
+        if (src.charAt(this.i) === '\\') {
+          this.i++
+          hi = this.escape()
+        } else {
+          hi = src.codePointAt(this.i) as number
+          this.i += hi > 0xffff ? 2 : 1
+        }
+      }
+      ranges.push([lo, hi])
+    }
+    if (src.charAt(this.i) !== ']') this.fail('unterminated class')
+    this.i++
+    if (needScan) return scanClass(src.substring(start, this.i), this.flags)
+    const set = normalize(ranges)
+    return negate ? csComplement(set) : set
+  }
+}
+
+/**
+ * Parse the source of a regular expression, as generated by the AST or
+ * by makeRe().
+ */
+export const parseRegExp = (src: string, flags: string): RNode =>
+  new RegExpParser(src, flags).parse()
+
+/**
+ * Compile the source of a regular expression, as generated by the AST,
+ * into the NFA, followed by the continuation state k.  Returns the
+ * start state.
+ */
+export const compileRegExpSource = (
+  nfa: NFA,
+  src: string,
+  flags: string,
+  k: number
+): number => build(nfa, parseRegExp(src, flags), k)
+
+const build = (nfa: NFA, node: RNode, k: number): number => {
+  switch (node.t) {
+    case 'chars': {
+      const s = nfa.add()
+      nfa.edge(s, node.set, k)
+      return s
+    }
+    case 'seq': {
+      for (let i = node.items.length - 1; i >= 0; i--) {
+        k = build(nfa, node.items[i], k)
+      }
+      return k
+    }
+    case 'alt': {
+      const s = nfa.add()
+      for (const item of node.items) nfa.eps(s, build(nfa, item, k))
+      return s
+    }
+    case 'rep': {
+      if (node.max === 1) {
+        const s = nfa.add()
+        nfa.eps(s, k)
+        nfa.eps(s, build(nfa, node.node, k))
+        return s
+      }
+      // the loop state isn't finished until the body is built, so there
+      // is nothing yet for a lookaround in the body to look at.
+      if (hasLookaround(node.node)) {
+        throw new Error('cannot analyze lookarounds within a repetition')
+      }
+      const loop = nfa.add()
+      const s = build(nfa, node.node, loop)
+      nfa.eps(loop, k)
+      nfa.eps(loop, s)
+      return node.min === 0 ? loop : s
+    }
+    case 'start':
+      // only ever at the start of a path portion, where it changes nothing
+      return k
+    case 'end':
+      // $ only matches if nothing else needs to follow
+      return nfa.add(nfa.acceptsEmpty(k))
+    case 'neg': {
+      // (?!x) followed by k is k, minus anything that starts with x
+      const any = nfa.add(true)
+      nfa.edge(any, anyChar, any)
+      const x = nfa.determinize(build(nfa, node.node, any))
+      const rest = nfa.determinize(k)
+      return nfa.embed(DFA.product(rest, x, (a, b) => a && !b))
+    }
+  }
+}
+
+/**
+ * Compile a regular expression source into a DFA that accepts exactly
+ * the strings that `new RegExp('^' + src + '$', flags)` would test true
+ * against.
+ */
+export const regExpToDFA = (src: string, flags: string = ''): DFA => {
+  const nfa = new NFA()
+  const accept = nfa.add(true)
+  return nfa.determinize(compileRegExpSource(nfa, src, flags, accept))
+}
+
+/**
+ * Any string that doesn't contain a /
+ */
+export const segmentChars: CharSet = csComplement([SLASH, SLASH])
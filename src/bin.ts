@@ -0,0 +1,311 @@
+#!/usr/bin/env node
+// A thin command-line layer over minimatch, for shell scripts and for
+// reproducing bugs.  Options are the MinimatchOptions, in kebab-case.
+
+import { readFileSync } from 'fs'
+import { inspect } from 'util'
+import {
+  braceExpand,
+  escape,
+  GlobLimitError,
+  GlobSyntaxError,
+  makeRe,
+  Minimatch,
+  MinimatchLimits,
+  MinimatchOptions,
+  RegExpDialectError,
+  unescape,
+} from './index.js'
+
+const usage = `usage:
+  minimatch [options] <pattern> [<path> ...]
+  minimatch make-re [options] <pattern>
+  minimatch brace-expand [options] <pattern>
+  minimatch escape [options] <string> [<string> ...]
+  minimatch unescape [options] <pattern> [<pattern> ...]
+  minimatch set [options] <pattern>
+
+Print the paths that match the pattern, and exit with status 1 if none
+of them do.  If no paths are given as arguments, they are read from
+stdin, one per line.
+
+A path matches if it matches any of the patterns that are not negated,
+and is not excluded by any of the negated ones.
+
+  -p --pattern <pattern>   Add another pattern.  May be repeated.
+  -0 --null                Paths are read and printed separated by NUL
+                           characters, rather than newlines.
+  -h --help                Show this usage information.
+
+Options for minimatch (--no-<name> sets a flag to false):
+
+  --nobrace --nocomment --nonegate --debug --noglobstar --noext
+  --nonull --windows-paths-no-escape --allow-windows-escape --partial
+  --dot --nocase --nocase-magic-only --magical-braces --match-base
+  --flip-negate --preserve-multiple-slashes --windows-no-magic-root
+  --capture --strict
+  --case-fold              Sets nocase to 'fold'.
+  --locale <locale>
+  --optimization-level <n>
+  --platform <platform>
+  --unicode-normalize <NFC|NFD|NFKC|NFKD>
+  --regex-dialect <js|re2>
+  --engine <regexp|nfa>
+  --limit <name>=<n>       Set one of the limits, such as braceExpansions.
+                           May be repeated.
+`
+
+const flags = [
+  'nobrace',
+  'nocomment',
+  'nonegate',
+  'debug',
+  'noglobstar',
+  'noext',
+  'nonull',
+  'windowsPathsNoEscape',
+  'allowWindowsEscape',
+  'partial',
+  'dot',
+  'nocase',
+  'nocaseMagicOnly',
+  'magicalBraces',
+  'matchBase',
+  'flipNegate',
+  'preserveMultipleSlashes',
+  'windowsNoMagicRoot',
+  'capture',
+  'strict',
+] as const
+
+type Flag = (typeof flags)[number]
+
+const kebab = (s: string) => s.replace(/[A-Z]/g, c => '-' + c.toLowerCase())
+const flagNames = new Map(flags.map(f => [kebab(f), f]))
+
+const limitNames: (keyof MinimatchLimits)[] = [
+  'braceExpansions',
+  'extglobDepth',
+  'setEntries',
+  'globstars',
+  'regexpLength',
+]
+
+type Choices<K extends keyof MinimatchOptions> = NonNullable<
+  MinimatchOptions[K]
+>[]
+
+const platforms: Choices<'platform'> = [
+  'aix',
+  'android',
+  'darwin',
+  'freebsd',
+  'haiku',
+  'linux',
+  'openbsd',
+  'sunos',
+  'win32',
+  'cygwin',
+  'netbsd',
+]
+const normalizeForms: Choices<'unicodeNormalize'> = [
+  'NFC',
+  'NFD',
+  'NFKC',
+  'NFKD',
+]
+const dialects: Choices<'regexDialect'> = ['js', 're2']
+const engines: Choices<'engine'> = ['regexp', 'nfa']
+
+const isOneOf = <T extends string>(choices: T[], v: string): v is T =>
+  (choices as string[]).includes(v)
+
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  command?: string
+  options: MinimatchOptions
+  patterns: string[]
+  positionals: string[]
+  nul: boolean
+  help: boolean
+}
+
+const parseArgs = (argv: string[]): ParsedArgs => {
+  const options: MinimatchOptions = {}
+  const patterns: string[] = []
+  const positionals: string[] = []
+  let nul = false
+  let help = false
+  let command: string | undefined = undefined
+  if (
+    ['make-re', 'brace-expand', 'escape', 'unescape', 'set'].includes(argv[0])
+  ) {
+    command = argv[0]
+    argv = argv.slice(1)
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1))
+      break
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      positionals.push(arg)
+      continue
+    }
+    const eq = arg.indexOf('=')
+    const name = eq === -1 ? arg : arg.substring(0, eq)
+    const value = () => {
+      if (eq !== -1) return arg.substring(eq + 1)
+      if (i === argv.length - 1) {
+        throw new UsageError(`${name} requires a value`)
+      }
+      return argv[++i]
+    }
+    if (name === '-h' || name === '--help') {
+      help = true
+    } else if (name === '-0' || name === '--null') {
+      nul = true
+    } else if (name === '-p' || name === '--pattern') {
+      patterns.push(value())
+    } else if (name === '--platform') {
+      const v = value()
+      if (!isOneOf(platforms, v)) {
+        throw new UsageError(`invalid platform: ${v}`)
+      }
+      options.platform = v
+    } else if (name === '--optimization-level') {
+      const v = value()
+      if (!/^\d+$/.test(v)) {
+        throw new UsageError(`invalid optimization level: ${v}`)
+      }
+      options.optimizationLevel = parseInt(v, 10)
+    } else if (name === '--case-fold' && eq === -1) {
+      options.nocase = 'fold'
+    } else if (name === '--locale') {
+      options.locale = value()
+    } else if (name === '--unicode-normalize') {
+      const v = value()
+      if (!isOneOf(normalizeForms, v)) {
+        throw new UsageError(`invalid unicode normalization form: ${v}`)
+      }
+      options.unicodeNormalize = v
+    } else if (name === '--regex-dialect') {
+      const v = value()
+      if (!isOneOf(dialects, v)) {
+        throw new UsageError(`invalid regex dialect: ${v}`)
+      }
+      options.regexDialect = v
+    } else if (name === '--engine') {
+      const v = value()
+      if (!isOneOf(engines, v)) {
+        throw new UsageError(`invalid engine: ${v}`)
+      }
+      options.engine = v
+    } else if (name === '--limit') {
+      const v = value()
+      const m = v.match(/^([a-zA-Z]+)=(\d+)$/)
+      if (!m || !isOneOf(limitNames, m[1])) {
+        throw new UsageError(`invalid limit: ${v}`)
+      }
+      options.limits = { ...options.limits, [m[1]]: parseInt(m[2], 10) }
+    } else if (flagNames.has(name.substring(2)) && eq === -1) {
+      options[flagNames.get(name.substring(2)) as Flag] = true
+    } else if (
+      name.startsWith('--no-') &&
+      flagNames.has(name.substring(5)) &&
+      eq === -1
+    ) {
+      options[flagNames.get(name.substring(5)) as Flag] = false
+    } else {
+      throw new UsageError(`unknown option: ${arg}`)
+    }
+  }
+  return { command, options, patterns, positionals, nul, help }
+}
+
+const main = (argv: string[]): number => {
+  const { command, options, patterns, positionals, nul, help } = parseArgs(argv)
+  if (help) {
+    process.stdout.write(usage)
+    return 0
+  }
+  const out = (lines: string[]) => {
+    const sep = nul ? '\0' : '\n'
+    if (lines.length) process.stdout.write(lines.join(sep) + sep)
+  }
+
+  switch (command) {
+    case 'escape':
+    case 'unescape': {
+      const fn = command === 'escape' ? escape : unescape
+      out(positionals.map(s => fn(s, options)))
+      return 0
+    }
+    case 'make-re':
+    case 'brace-expand':
+    case 'set': {
+      if (positionals.length !== 1) {
+        throw new UsageError(`${command} takes a single pattern`)
+      }
+      const [pattern] = positionals
+      if (command === 'brace-expand') {
+        out(braceExpand(pattern, options))
+        return 0
+      } else if (command === 'set') {
+        const mm = new Minimatch(pattern, options)
+        out([inspect(mm.set, { depth: Infinity })])
+        return 0
+      }
+      const re = makeRe(pattern, options)
+      out([String(re)])
+      return re ? 0 : 1
+    }
+  }
+
+  // default: filter paths through the patterns
+  const pattern = positionals.shift()
+  if (pattern !== undefined) patterns.unshift(pattern)
+  if (!patterns.length) throw new UsageError('no pattern given')
+  const paths = positionals.length
+    ? positionals
+    : readFileSync(0, 'utf8')
+        .split(nul ? '\0' : /\r?\n/)
+        .filter(p => p)
+
+  const matchers = patterns.map(p => new Minimatch(p, options))
+  // with flipNegate, a negated pattern matches what it would without !
+  const negated = (mm: Minimatch) => mm.negate && !options.flipNegate
+  const include = matchers.filter(mm => !negated(mm))
+  const exclude = matchers.filter(negated)
+  const found = paths.filter(
+    p =>
+      (!include.length || include.some(mm => mm.match(p))) &&
+      exclude.every(mm => mm.match(p))
+  )
+  if (!found.length && options.nonull) {
+    out(patterns)
+  } else {
+    out(found)
+  }
+  return found.length ? 0 : 1
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2))
+} catch (er) {
+  if (
+    er instanceof GlobSyntaxError ||
+    er instanceof GlobLimitError ||
+    er instanceof RegExpDialectError
+  ) {
+    process.stderr.write(`minimatch: ${er.message}\n`)
+    process.exitCode = 2
+  } else {
+    if (!(er instanceof UsageError)) throw er
+    process.stderr.write(`minimatch: ${er.message}\n\n${usage}`)
+    process.exitCode = 2
+  }
+}
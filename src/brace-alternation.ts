@@ -0,0 +1,114 @@
+// Match brace sets as alternations within a path portion, rather than
+// expanding them into the full cartesian product of patterns.
+//
+// A brace set that does not span a / matches the same paths as an
+// @(...) extglob of its expansions, with a few exceptions that have to
+// do with how the start of a portion is matched, and with the quirks of
+// brace-expansion itself.  Those are detected here, and then the braces
+// are expanded up front as usual.
+
+import expand from 'brace-expansion'
+import { parseClass } from './brace-expressions.js'
+import { numericRange } from './numeric-range.js'
+import { closeBrace, topLevelCommas } from './scan.js'
+
+// A piece of a path portion: either some glob text, or the list of
+// alternatives that a brace set expands to.  An alternative is some
+// glob text, or a series of pieces, for the nested sets that numeric
+// ranges are matched with.
+export type BracePiece = string | BraceAlternative[]
+export type BraceAlternative = string | BracePiece[]
+
+// the same tests that brace-expansion uses
+const isNumericSequence = (body: string) =>
+  /^-?\d+\.\.-?\d+(?:\.\.-?\d+)?$/.test(body)
+export const isSequence = (body: string) =>
+  isNumericSequence(body) || /^[a-zA-Z]\.\.[a-zA-Z](?:\.\.-?\d+)?$/.test(body)
+
+const hasTopLevelComma = (body: string) =>
+  topLevelCommas(body, 0, body.length).length > 0
+
+// the alternatives of a brace set, if none of them would be parsed
+// differently on their own
+const expandSet = (set: string) => {
+  // with something in front, so that empty alternatives are kept
+  const alternatives = expand('x' + set).map(a => a.substring(1))
+  return alternatives.some(a => /[\\/[\](){}]/.test(a))
+    ? undefined
+    : alternatives
+}
+
+const dotsAndStars = /^[.*]*$/
+
+/**
+ * Split a path portion into glob text and brace set alternatives, if
+ * matching the alternatives in place gives the same results as
+ * expanding them.  Otherwise, return undefined.
+ */
+export const splitBraces = (portion: string): BracePiece[] | undefined => {
+  // extglobs, the negated ones especially, do not distribute over the
+  // alternatives that follow them
+  if (portion.includes('(')) return undefined
+  const pieces: BracePiece[] = []
+  let text = ''
+  for (let i = 0; i < portion.length; i++) {
+    const c = portion.charAt(i)
+    if (c === '[') {
+      const [, , consumed] = parseClass(portion, i)
+      if (consumed) {
+        const cls = portion.substring(i, i + consumed)
+        // a brace set in a class expands into several classes
+        if (/[{}]/.test(cls)) return undefined
+        text += cls
+        i += consumed - 1
+        continue
+      }
+    }
+    if (c !== '{') {
+      text += c
+      continue
+    }
+    const end = closeBrace(portion, i)
+    if (end === -1) return undefined
+    const body = portion.substring(i + 1, end)
+    // sets that brace-expansion leaves as they are
+    if (text.endsWith('$') || !(isSequence(body) || hasTopLevelComma(body))) {
+      return undefined
+    }
+    const alternatives = isNumericSequence(body)
+      ? numericRange(body)
+      : expandSet(portion.substring(i, end + 1))
+    if (!alternatives) return undefined
+    pieces.push(text, alternatives)
+    text = ''
+    i = end
+  }
+  pieces.push(text)
+
+  // the alternatives of numeric ranges start with a digit or a -, so
+  // only the expanded ones matter here
+  const texts = pieces.filter((p): p is string => typeof p === 'string')
+  const sets = pieces
+    .filter((p): p is BraceAlternative[] => typeof p !== 'string')
+    .map(s => s.filter((a): a is string => typeof a === 'string'))
+  // a * by itself must match something when it is the whole pattern,
+  // but not next to anything else
+  if (texts.includes('*')) return undefined
+  // the portion might expand to ., .., or **, which are special
+  if (
+    texts.every(t => dotsAndStars.test(t)) &&
+    sets.some(s => s.some(a => dotsAndStars.test(a)))
+  ) {
+    return undefined
+  }
+  // whether a dot file can match depends on how the portion starts
+  const [pre] = pieces as [string]
+  const [first] = sets as [string[]]
+  if (
+    /^\.*$/.test(pre) &&
+    first.some(a => (pre ? /^[.*?]/.test(a) : /^\.*$/.test(a)))
+  ) {
+    return undefined
+  }
+  return pieces
+}
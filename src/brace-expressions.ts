@@ -29,6 +29,9 @@ const regexpEscape = (s: string) =>
 // everything has already been escaped, we just have to join
 const rangesToString = (ranges: string[]): string => ranges.join('')
 
+// combining marks that follow a character in the class
+const combiningMarks = /\p{M}+/uy
+
 export type ParseClassResult = [
   src: string,
   uFlag: boolean,
@@ -42,9 +45,20 @@ export type ParseClassResult = [
 // consumed to parse the character class.
 // This also removes out of order ranges, and returns ($.) if the
 // entire class just no good.
+// If combine is set, to the unicodeNormalize form that paths are put
+// in, then a character followed by combining marks is a single entry in
+// the class, which matches that whole sequence, so that [é] means the
+// same thing whether it is composed or not.  A range between such
+// entries is between their composed forms, and matches each character
+// in it in that form, so that [à-ê] does too.
+// If fold is provided, then it is applied to each entry, and to each
+// end of a range, which only remains a range if they are single
+// characters in order.
 export const parseClass = (
   glob: string,
-  position: number
+  position: number,
+  combine: string | false = false,
+  fold: (s: string) => string = s => s
 ): ParseClassResult => {
   const pos = position
   /* c8 ignore start */
@@ -54,6 +68,12 @@ export const parseClass = (
   /* c8 ignore stop */
   const ranges: string[] = []
   const negs: string[] = []
+  // entries of more than one character
+  const seqs: string[] = []
+  const addChar = (c: string) => {
+    c = fold(c)
+    return c.length > 1 ? seqs.push(c) : ranges.push(braceEscape(c))
+  }
 
   let i = pos + 1
   let sawStart = false
@@ -63,7 +83,7 @@ export const parseClass = (
   let endPos = pos
   let rangeStart = ''
   WHILE: while (i < glob.length) {
-    const c = glob.charAt(i)
+    let c = glob.charAt(i)
     if ((c === '!' || c === '^') && i === pos + 1) {
       negate = true
       i++
@@ -103,35 +123,52 @@ export const parseClass = (
 
     // now it's just a normal character, effectively
     escaping = false
+    if (combine) {
+      combiningMarks.lastIndex = i + 1
+      const marks = combiningMarks.exec(glob)
+      if (marks) c += marks[0]
+    }
     if (rangeStart) {
       // throw this range away if it's not valid, but others
-      // can still match.
-      if (c > rangeStart) {
-        ranges.push(braceEscape(rangeStart) + '-' + braceEscape(c))
-      } else if (c === rangeStart) {
-        ranges.push(braceEscape(c))
+      // can still match.  Ranges are between single characters.
+      const [from, to] = [fold(rangeStart), fold(c)]
+      if (from === to) {
+        addChar(from)
+      } else if (to > from && to.length === 1 && from.length === 1) {
+        ranges.push(braceEscape(from) + '-' + braceEscape(to))
+      } else if (combine) {
+        const [lo, hi] = [from.normalize('NFC'), to.normalize('NFC')]
+        if (hi > lo && hi.length === 1 && lo.length === 1) {
+          ranges.push(braceEscape(lo) + '-' + braceEscape(hi))
+          const end = hi.charCodeAt(0)
+          for (let n = lo.charCodeAt(0); n <= end; n++) {
+            const d = String.fromCharCode(n).normalize(combine)
+            if (d.length > 1) addChar(d)
+          }
+        }
       }
       rangeStart = ''
-      i++
+      i += c.length
       continue
     }
 
     // now might be the start of a range.
     // can be either c-d or c-] or c<more...>] or c] at this point
-    if (glob.startsWith('-]', i + 1)) {
-      ranges.push(braceEscape(c + '-'))
-      i += 2
+    if (glob.startsWith('-]', i + c.length)) {
+      addChar(c)
+      ranges.push(braceEscape('-'))
+      i += c.length + 1
       continue
     }
-    if (glob.startsWith('-', i + 1)) {
+    if (glob.startsWith('-', i + c.length)) {
       rangeStart = c
-      i += 2
+      i += c.length + 1
       continue
     }
 
     // not the start of a range, just a single character
-    ranges.push(braceEscape(c))
-    i++
+    addChar(c)
+    i += c.length
   }
 
   if (endPos < i) {
@@ -142,7 +179,7 @@ export const parseClass = (
 
   // if we got no ranges and no negates, then we have a range that
   // cannot possibly match anything, and that poisons the whole glob
-  if (!ranges.length && !negs.length) {
+  if (!ranges.length && !negs.length && !seqs.length) {
     return ['$.', false, glob.length - pos, true]
   }
 
@@ -153,21 +190,39 @@ export const parseClass = (
   if (
     negs.length === 0 &&
     ranges.length === 1 &&
+    seqs.length === 0 &&
     /^\\?.$/.test(ranges[0]) &&
     !negate
   ) {
     const r = ranges[0].length === 2 ? ranges[0].slice(-1) : ranges[0]
     return [regexpEscape(r), false, endPos - pos, false]
   }
+  if (
+    negs.length === 0 &&
+    ranges.length === 0 &&
+    seqs.length === 1 &&
+    !negate
+  ) {
+    return [regexpEscape(seqs[0]), false, endPos - pos, false]
+  }
 
   const sranges = '[' + (negate ? '^' : '') + rangesToString(ranges) + ']'
   const snegs = '[' + (negate ? '' : '^') + rangesToString(negs) + ']'
   const comb =
     ranges.length && negs.length
       ? '(' + sranges + '|' + snegs + ')'
-      : ranges.length
+      : ranges.length || !negs.length
       ? sranges
       : snegs
-
-  return [comb, uflag, endPos - pos, true]
+  if (!seqs.length) return [comb, uflag, endPos - pos, true]
+
+  // the longer entries are alternatives to the class, or things that
+  // the class must not start with, if it is negated.
+  const alts = seqs.map(regexpEscape).join('|')
+  const withSeqs = negate
+    ? '(?!' + alts + ')' + comb
+    : ranges.length || negs.length
+    ? '(?:' + comb + '|' + alts + ')'
+    : '(?:' + alts + ')'
+  return [withSeqs, uflag, endPos - pos, true]
 }
@@ -0,0 +1,98 @@
+// Paths as raw bytes, for filesystems where names are not necessarily
+// valid UTF-8.
+//
+// Rather than compiling a second, byte-oriented regexp for every part of
+// the pattern, byte paths (and byte patterns) are decoded to strings in a
+// way that loses nothing: valid UTF-8 sequences become the characters
+// they encode, and every other byte becomes a lone surrogate in the range
+// U+DC80 to U+DCFF, which no valid UTF-8 sequence can produce.  So two
+// byte strings decode to the same string only if they are the same
+// bytes, and the / byte is always a / character.  Literal portions and
+// character classes are then compared exactly as the bytes are, and a
+// ? or a character class matches a whole UTF-8 character, or a single
+// byte that is not part of one.
+
+const escapeByte = (b: number) => String.fromCharCode(0xdc00 + b)
+const isCont = (b: number | undefined) =>
+  b !== undefined && b >= 0x80 && b <= 0xbf
+
+/**
+ * Decode a path from bytes to a string, without losing any bytes that
+ * are not valid UTF-8.  {@link encodePath} reverses it.
+ */
+export const decodePath = (bytes: Uint8Array): string => {
+  let s = ''
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i]
+    if (b < 0x80) {
+      s += String.fromCharCode(b)
+      continue
+    }
+    const b1 = bytes[i + 1]
+    const b2 = bytes[i + 2]
+    const b3 = bytes[i + 3]
+    if (b >= 0xc2 && b <= 0xdf && isCont(b1)) {
+      s += String.fromCharCode(((b & 0x1f) << 6) | (b1 & 0x3f))
+      i += 1
+    } else if (
+      b >= 0xe0 &&
+      b <= 0xef &&
+      isCont(b1) &&
+      isCont(b2) &&
+      // no overlong encodings, and no surrogates
+      (b !== 0xe0 || b1 >= 0xa0) &&
+      (b !== 0xed || b1 <= 0x9f)
+    ) {
+      s += String.fromCharCode(
+        ((b & 0x0f) << 12) | ((b1 & 0x3f) << 6) | (b2 & 0x3f)
+      )
+      i += 2
+    } else if (
+      b >= 0xf0 &&
+      b <= 0xf4 &&
+      isCont(b1) &&
+      isCont(b2) &&
+      isCont(b3) &&
+      // no overlong encodings, and nothing past U+10FFFF
+      (b !== 0xf0 || b1 >= 0x90) &&
+      (b !== 0xf4 || b1 <= 0x8f)
+    ) {
+      s += String.fromCodePoint(
+        ((b & 0x07) << 18) |
+          ((b1 & 0x3f) << 12) |
+          ((b2 & 0x3f) << 6) |
+          (b3 & 0x3f)
+      )
+      i += 3
+    } else {
+      s += escapeByte(b)
+    }
+  }
+  return s
+}
+
+/**
+ * Encode a string from {@link decodePath} back to the original bytes.
+ * Other strings are encoded as UTF-8, with any lone surrogates outside
+ * the range that decodePath uses replaced by U+FFFD.
+ */
+export const encodePath = (s: string): Uint8Array => {
+  const bytes: number[] = []
+  for (const c of s) {
+    const cp = c.codePointAt(0) as number
+    if (cp >= 0xdc80 && cp <= 0xdcff) {
+      bytes.push(cp - 0xdc00)
+    } else if (cp < 0x80) {
+      bytes.push(cp)
+    } else {
+      bytes.push(...new TextEncoder().encode(c))
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+/**
+ * Turn a path or pattern that may be bytes into a string.
+ */
+export const pathString = (p: string | Uint8Array): string =>
+  typeof p === 'string' || !(p instanceof Uint8Array) ? p : decodePath(p)
@@ -0,0 +1,180 @@
+// Full Unicode case folding, for the nocase: 'fold' option.
+//
+// The regexp i flag and toLowerCase() disagree about characters such as
+// ß, which folds to ss, final sigma, and dotted and dotless i.  So in
+// this mode, both the pattern and the path are folded to the same form
+// up front, and then compared as usual.  Upper-casing first maps every
+// case variant of a character to the same thing before lower-casing it,
+// and the locale decides things like whether I folds to i or to ı.
+
+import { parseClass } from './brace-expressions.js'
+
+/**
+ * Fold the case of a string, as `nocase: 'fold'` does to paths.
+ */
+export const caseFold = (s: string, locale?: string): string =>
+  s
+    .toLocaleUpperCase(locale)
+    .toLocaleLowerCase(locale)
+    // σ is only lower-cased to ς at the end of a word
+    .replace(/ς/g, 'σ')
+
+// Fold everything in a pattern except the contents of character
+// classes, which parseClass folds one entry at a time, so that [ß]
+// still has a single entry that matches ss.
+export const foldPattern = (pattern: string, locale?: string): string => {
+  let folded = ''
+  let start = 0
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern.charAt(i)
+    if (c === '\\') {
+      i++
+    } else if (c === '[') {
+      const [, , consumed] = parseClass(pattern, i)
+      if (consumed) {
+        folded +=
+          caseFold(pattern.substring(start, i), locale) +
+          pattern.substring(i, i + consumed)
+        i += consumed - 1
+        start = i + 1
+      }
+    }
+  }
+  return folded + caseFold(pattern.substring(start), locale)
+}
+
+/**
+ * A RegExp that folds the case of what it is tested against, so that
+ * the result of `makeRe()` matches the same paths as `match()` does.
+ * The indexes in the results are positions in the folded string.
+ */
+export class CaseFoldRegExp extends RegExp {
+  locale?: string
+  constructor(pattern: string | RegExp, flags?: string, locale?: string) {
+    super(pattern, flags)
+    this.locale = locale
+  }
+  exec(s: string) {
+    return super.exec(caseFold(String(s), this.locale))
+  }
+}
+
+// Fold a string one character at a time, noting the range of the
+// original string that each code unit of the folded one came from, so
+// that what matched in the folded string can be found in the original.
+const foldWithMap = (
+  s: string,
+  locale?: string
+): [folded: string, starts: number[], ends: number[]] => {
+  let folded = ''
+  const starts: number[] = []
+  const ends: number[] = []
+  let at = 0
+  for (const c of s) {
+    const f = caseFold(c, locale)
+    for (let i = 0; i < f.length; i++) {
+      starts.push(at)
+      ends.push(at + c.length)
+    }
+    folded += f
+    at += c.length
+  }
+  return [folded, starts, ends]
+}
+
+// The source of a capturing regexp, `^...$`, with the text between its
+// groups captured as well, and the numbers of the groups that were
+// there to begin with.  Then where each group starts in the folded
+// string is the sum of the lengths of the groups before it, without
+// needing the d flag, which Node 14 lacks.  The groups that the AST
+// makes are never nested or repeated.  An escaped | in the pattern
+// separates alternatives, so it is left between the groups, and the
+// groups of the alternatives that didn't match are skipped.
+const captureGaps = (src: string): [source: string, groups: number[]] => {
+  const body = src.slice(1, -1)
+  const groups: number[] = []
+  let out = ''
+  let n = 0
+  let from = 0
+  let depth = 0
+  let capturing = false
+  const gap = (to: number) => {
+    if (to > from) {
+      out += '(' + body.substring(from, to) + ')'
+      n++
+    }
+    from = to
+  }
+  for (let i = 0; i < body.length; i++) {
+    const c = body.charAt(i)
+    if (c === '\\') i++
+    else if (c === '[') {
+      while (body.charAt(++i) !== ']') if (body.charAt(i) === '\\') i++
+    } else if (c === '(') {
+      if (!depth++ && body.charAt(i + 1) !== '?') {
+        gap(i)
+        capturing = true
+      }
+    } else if (c === ')') {
+      if (!--depth && capturing) {
+        out += body.substring(from, i + 1)
+        groups.push(++n)
+        from = i + 1
+        capturing = false
+      }
+    } else if (c === '|' && !depth) {
+      gap(i)
+      out += '|'
+      from = i + 1
+    }
+  }
+  gap(body.length)
+  return ['^' + out + '$', groups]
+}
+
+/**
+ * A RegExp that is tested against a path portion as it is, folding its
+ * case to compare, but giving back the text of the original portion
+ * for each group.  This is what `capture()` uses with `nocase: 'fold'`,
+ * so that the captures say what the path said.  A group that matched
+ * part of a character that folds to more than one, such as one s of ß,
+ * gives back the whole character.
+ */
+export class FoldCaptureRegExp extends RegExp {
+  locale?: string
+  #groups: number[]
+  constructor(pattern: string, flags: string = '', locale?: string) {
+    const [source, groups] = captureGaps(pattern)
+    super(source, flags)
+    this.#groups = groups
+    this.locale = locale
+  }
+  exec(s: string) {
+    s = String(s)
+    const [folded, starts, ends] = foldWithMap(s, this.locale)
+    const m = super.exec(folded)
+    if (!m) return m
+    const original = (from: number, to: number) => {
+      const start = from < folded.length ? starts[from] : s.length
+      return s.substring(start, to > from ? ends[to - 1] : start)
+    }
+    const found: (string | undefined)[] = [
+      original(m.index, m.index + m[0].length),
+    ]
+    let at = m.index
+    for (let i = 1, g = 0; i < m.length; i++) {
+      const text = m[i]
+      const mine = this.#groups[g] === i
+      if (mine) g++
+      if (text === undefined) {
+        if (mine) found.push(undefined)
+        continue
+      }
+      if (mine) found.push(original(at, at + text.length))
+      at += text.length
+    }
+    m.length = 0
+    m.push(...(found as string[]))
+    return m
+  }
+}
@@ -0,0 +1,315 @@
+// CODEOWNERS files, as used by GitHub and GitLab, built out of Minimatch
+// objects.
+//
+// Each line is a pattern followed by a list of owners, separated by
+// whitespace.  The patterns follow gitignore(5) rules, with a few
+// differences that the hosted implementations agree on:
+// - lines starting with # are comments, and so is anything after a #
+//   that follows whitespace.  \# starts a pattern with a literal #.
+// - there is no ! negation.  A rule with no owners makes the paths it
+//   matches unowned (or, in a GitLab section, owned by the section's
+//   default owners).
+// - a pattern with a / at the start or in the middle is anchored to the
+//   directory containing the file.  Otherwise, it matches at any level.
+// - a pattern matching a directory also matches everything inside it,
+//   except that a pattern ending in /* only matches the direct children
+//   of the directory.  A trailing / means the rule only matches
+//   directories, and so only their contents.
+// - the last matching rule wins.
+//
+// GitLab sections are headers like `[Name]`, `^[Name]` for an optional
+// section, or `[Name][2]` for a section requiring 2 approvals, which may
+// be followed by the default owners for the section.  Sections with the
+// same name (ignoring case) are combined, and every section is checked
+// separately, so a path can have a winning rule in more than one.
+
+import { backslashesBefore } from './ignore.js'
+import { Minimatch, MinimatchOptions } from './index.js'
+
+export interface CodeOwnersSection {
+  /**
+   * The name of the section, as first written.
+   */
+  name: string
+  /**
+   * True if the header started with `^`, making approval optional.
+   */
+  optional: boolean
+  /**
+   * The number of approvals required, from a `[Name][n]` header.
+   * Defaults to 1.
+   */
+  approvals: number
+  /**
+   * The owners for rules in the section that don't list their own.
+   */
+  owners: string[]
+  /**
+   * The 1-based line number of the first header for the section.
+   */
+  line: number
+}
+
+export interface CodeOwnersRule {
+  /**
+   * The line in the CODEOWNERS file, as written.
+   */
+  source: string
+  /**
+   * The 1-based line number that the rule came from.
+   */
+  line: number
+  /**
+   * The pattern portion of the line.
+   */
+  pattern: string
+  /**
+   * The owners listed on the line, which may be empty.
+   */
+  owners: string[]
+  /**
+   * The GitLab section that the rule is in, if any.
+   */
+  section?: CodeOwnersSection
+  /**
+   * True if the pattern ends in `/`, and only matches directories.
+   */
+  dirOnly: boolean
+  /**
+   * True if the rule is relative to the directory containing the file,
+   * rather than matching at any level.
+   */
+  anchored: boolean
+  /**
+   * The Minimatch object that tests paths against this rule.
+   */
+  minimatch: Minimatch
+}
+
+export interface CodeOwnersMatch {
+  /**
+   * The owners that the rule assigns to the path.
+   */
+  owners: string[]
+  /**
+   * The winning rule.
+   */
+  rule: CodeOwnersRule
+  /**
+   * The line number of the winning rule.
+   */
+  line: number
+  /**
+   * The name of the section that the rule is in, if any.
+   */
+  section?: string
+}
+
+export interface CodeOwnersResult {
+  /**
+   * The owners of the path, from the winning rule in every section,
+   * without duplicates.  Empty if the path is unowned.
+   */
+  owners: string[]
+  /**
+   * The last rule in the file that won in any section.
+   */
+  rule?: CodeOwnersRule
+  /**
+   * The line number of that rule.
+   */
+  line?: number
+  /**
+   * The name of the section that the rule is in, if any.
+   */
+  section?: string
+  /**
+   * The winning rule in each section with a matching rule, in the order
+   * that the sections first appear.
+   */
+  matches: CodeOwnersMatch[]
+}
+
+// split a line on unescaped whitespace, stopping at a comment
+const tokenize = (line: string): string[] => {
+  const tokens: string[] = []
+  let tok = ''
+  for (let i = 0; i < line.length; i++) {
+    const c = line.charAt(i)
+    if (c === '\\' && i < line.length - 1) {
+      tok += c + line.charAt(++i)
+    } else if (/\s/.test(c)) {
+      if (tok) tokens.push(tok)
+      tok = ''
+    } else if (c === '#' && !tok) {
+      break
+    } else {
+      tok += c
+    }
+  }
+  if (tok) tokens.push(tok)
+  return tokens
+}
+
+const sectionHeader = /^(\^)?\[([^\]]+)\](?:\[(\d+)\])?(?:\s+(.*))?$/
+
+export class CodeOwners {
+  options: MinimatchOptions
+  rules: CodeOwnersRule[]
+  sections: CodeOwnersSection[]
+
+  constructor(text: string = '', options: MinimatchOptions = {}) {
+    this.options = options
+    this.rules = []
+    this.sections = []
+    this.add(text)
+  }
+
+  /**
+   * Parse the lines of a CODEOWNERS file, and append the rules to the
+   * end of the list.  Line numbers restart at 1 for each call, and the
+   * rules before the first section header are not in any section.
+   */
+  add(text: string) {
+    const lines = text.split(/\r?\n/)
+    let section: CodeOwnersSection | undefined = undefined
+    for (let i = 0; i < lines.length; i++) {
+      const trimmed = lines[i].trim()
+      const header = trimmed.match(sectionHeader)
+      if (header) {
+        section = this.#section(header, i + 1)
+        continue
+      }
+      const rule = this.parseRule(lines[i], i + 1, section)
+      if (rule) this.rules.push(rule)
+    }
+    return this
+  }
+
+  #section(
+    [, optional, name, approvals, owners = '']: RegExpMatchArray,
+    line: number
+  ): CodeOwnersSection {
+    const key = name.toLowerCase()
+    let section = this.sections.find(s => s.name.toLowerCase() === key)
+    if (!section) {
+      section = {
+        name,
+        optional: false,
+        approvals: 1,
+        owners: [],
+        line,
+      }
+      this.sections.push(section)
+    }
+    // a later header for the same section can change its settings
+    section.optional = !!optional
+    if (approvals) section.approvals = parseInt(approvals, 10)
+    const o = tokenize(owners)
+    if (o.length) section.owners = o
+    return section
+  }
+
+  /**
+   * Turn a single line into a rule, or return undefined if the line
+   * is blank or a comment.
+   */
+  parseRule(
+    source: string,
+    line: number = 0,
+    section?: CodeOwnersSection
+  ): CodeOwnersRule | undefined {
+    const [token, ...owners] = tokenize(source)
+    if (!token) return undefined
+    let pattern = token
+
+    let dirOnly = false
+    if (
+      pattern.endsWith('/') &&
+      backslashesBefore(pattern, pattern.length - 1) % 2 === 0
+    ) {
+      dirOnly = true
+      pattern = pattern.replace(/\/+$/, '')
+    }
+    if (!pattern) return undefined
+    const anchored = pattern.includes('/')
+    if (pattern.charAt(0) === '/') pattern = pattern.substring(1)
+
+    const mm = new Minimatch(pattern, {
+      dot: true,
+      nobrace: true,
+      noext: true,
+      nocomment: true,
+      nonegate: true,
+      ...this.options,
+      matchBase: !anchored,
+      flipNegate: false,
+      partial: false,
+    })
+
+    return {
+      source,
+      line,
+      pattern: token,
+      owners,
+      section,
+      dirOnly,
+      anchored,
+      minimatch: mm,
+    }
+  }
+
+  // a rule matches the path itself, or any directory containing it,
+  // unless it ends in /*, which only matches the direct children.
+  #matches(rule: CodeOwnersRule, parts: string[]) {
+    const mm = rule.minimatch
+    if (!rule.dirOnly && mm.match(parts.join('/'))) return true
+    if (/(^|\/)\*$/.test(rule.pattern) && !rule.dirOnly) return false
+    for (let i = parts.length - 1; i > 0; i--) {
+      if (mm.match(parts.slice(0, i).join('/'))) return true
+    }
+    return false
+  }
+
+  /**
+   * Find the owners of a path relative to the repository root, and the
+   * rules that assigned them.
+   */
+  ownersOf(path: string): CodeOwnersResult {
+    if (this.rules.length && this.rules[0].minimatch.isWindows) {
+      path = path.split('\\').join('/')
+    }
+    const parts = path.split('/').filter(p => p && p !== '.')
+
+    // the winning rule for each section, by walking backwards
+    const won = new Map<CodeOwnersSection | undefined, CodeOwnersRule>()
+    let last: CodeOwnersRule | undefined = undefined
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      const rule = this.rules[i]
+      if (won.has(rule.section)) continue
+      if (this.#matches(rule, parts)) {
+        won.set(rule.section, rule)
+        last = last || rule
+      }
+    }
+
+    const matches: CodeOwnersMatch[] = []
+    for (const section of [undefined, ...this.sections]) {
+      const rule = won.get(section)
+      if (!rule) continue
+      matches.push({
+        owners: rule.owners.length ? rule.owners : section?.owners || [],
+        rule,
+        line: rule.line,
+        section: section?.name,
+      })
+    }
+    return {
+      owners: [...new Set(matches.map(m => m.owners).flat())],
+      rule: last,
+      line: last?.line,
+      section: last?.section?.name,
+      matches,
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// A bounded LRU cache of compiled Minimatch objects, for the functions
+// that take a pattern string and compile it on every call, such as
+// minimatch(), filter(), match() and makeRe().  It is disabled until
+// a maximum size is set.
+
+import { Minimatch, MinimatchOptions } from './index.js'
+
+// false is not the same as unset for these
+const falseMatters = new Set(['windowsNoMagicRoot', 'allowWindowsEscape'])
+
+// the pattern and every option that is set, in a stable order, so the
+// key changes whenever an options object is mutated.
+const cacheKey = (pattern: string, options: MinimatchOptions) => {
+  const o = options as Record<string, unknown>
+  const set = Object.keys(o)
+    .filter(k => o[k] !== undefined && (o[k] !== false || falseMatters.has(k)))
+    .sort()
+    .map(k => [k, o[k]])
+  return JSON.stringify([pattern, set])
+}
+
+export class CompileCache {
+  #max: number = 0
+  #cache = new Map<string, Minimatch>()
+  /** The number of lookups that found a compiled pattern */
+  hits: number = 0
+  /** The number of lookups that had to compile the pattern */
+  misses: number = 0
+
+  /**
+   * The most compiled patterns to keep.  0 disables the cache, which
+   * is the default.  Lowering it drops the least recently used ones.
+   */
+  get max() {
+    return this.#max
+  }
+  set max(n: number) {
+    this.#max = Math.max(0, Math.floor(n) || 0)
+    this.#trim()
+  }
+
+  /** The number of compiled patterns in the cache */
+  get size() {
+    return this.#cache.size
+  }
+
+  /**
+   * Drop all the compiled patterns, and reset the counters.
+   */
+  clear() {
+    this.#cache.clear()
+    this.hits = 0
+    this.misses = 0
+  }
+
+  /**
+   * Return a Minimatch object for the pattern and options, from the
+   * cache if possible.  The object must not be modified.
+   */
+  get(pattern: string, options: MinimatchOptions = {}): Minimatch {
+    if (!this.#max) return new Minimatch(pattern, options)
+    const key = cacheKey(pattern, options)
+    const cached = this.#cache.get(key)
+    if (cached) {
+      this.hits++
+      // move it to the most recently used end
+      this.#cache.delete(key)
+      this.#cache.set(key, cached)
+      return cached
+    }
+    this.misses++
+    // copy the options, so that later changes can't affect it
+    const mm = new Minimatch(pattern, { ...options })
+    this.#cache.set(key, mm)
+    this.#trim()
+    return mm
+  }
+
+  #trim() {
+    for (const key of this.#cache.keys()) {
+      if (this.#cache.size <= this.#max) break
+      this.#cache.delete(key)
+    }
+  }
+}
+
+/**
+ * The cache used by minimatch(), filter(), match() and makeRe(), and the
+ * same functions on the object returned by minimatch.defaults().
+ */
+export const compileCache = new CompileCache()
@@ -0,0 +1,404 @@
+// Lazily built DFAs for the regular expressions that the AST and
+// makeRe() generate, lookaheads and all.
+//
+// The dot rules and negative extglobs are negative lookaheads, some of
+// them within a repetition, so the NFA construction in automaton.ts
+// can't be used.  Instead, the states are Brzozowski derivatives of the
+// regexp.  Since a lookahead applies to everything that follows it, each
+// term is the rest of the regexp, as a list of nodes, and (?!x) at the
+// head of a list matches the rest of the list, but not anything starting
+// with x.  So the derivatives are boolean combinations of those lists.
+// The characters are split into the classes that no part of the regexp
+// tells apart, and one derivative is taken for each.
+//
+// A state is only worked out the first time that it is reached, so a
+// string is tested one step per character, however the regexp would
+// backtrack.
+
+import {
+  anyChar,
+  CharSet,
+  csHas,
+  csIntersect,
+  csSubtract,
+  csUnion,
+  DFA,
+  DState,
+  parseRegExp,
+  RNode,
+} from './automaton.js'
+
+// states that a LazyDFA keeps before starting over, so that its memory
+// use is bounded too
+const MAX_CACHED_STATES = 1024
+
+// a boolean combination of the lists of nodes left to match
+interface Term {
+  key: string
+  t: 'none' | 'list' | 'or' | 'and' | 'not'
+  list?: number
+  items?: Term[]
+}
+
+const listTerm = (list: number): Term => ({ key: 'L' + list, t: 'list', list })
+
+const none: Term = { key: '0', t: 'none' }
+// list 1 is always .* with anything at all in place of the dot
+const all = listTerm(1)
+
+const combine = (t: 'or' | 'and', terms: Term[]): Term => {
+  // nothing and anything are each the identity of one, and absorb the other
+  const [unit, zero] = t === 'or' ? [none, all] : [all, none]
+  const items = new Map<string, Term>()
+  for (const term of terms) {
+    for (const i of term.t === t ? (term.items as Term[]) : [term]) {
+      if (i.key === zero.key) return zero
+      if (i.key !== unit.key) items.set(i.key, i)
+    }
+  }
+  const keys = [...items.keys()].sort()
+  if (keys.length < 2) return keys.length ? (items.get(keys[0]) as Term) : unit
+  return {
+    key: `(${keys.join(t === 'or' ? '|' : '&')})`,
+    t,
+    items: keys.map(k => items.get(k) as Term),
+  }
+}
+
+const not = (x: Term): Term =>
+  x.key === all.key
+    ? none
+    : x.t === 'none'
+    ? all
+    : x.t === 'not'
+    ? (x.items as Term[])[0]
+    : { key: '!' + x.key, t: 'not', items: [x] }
+
+class Derivatives {
+  // lists are interned, so that equal lists have the same number.
+  // list 0 is the empty list.
+  lists: [RNode, number][] = [[{ t: 'end' }, 0]]
+  listIds = new Map<string, number>()
+  nodeIds = new Map<RNode, number>()
+  stars = new Map<RNode, RNode>()
+  anyStar: RNode = {
+    t: 'rep',
+    node: { t: 'chars', set: anyChar },
+    min: 0,
+    max: Infinity,
+  }
+  // the classes of characters that the regexp doesn't tell apart
+  classes: CharSet[] = [anyChar]
+
+  constructor(root: RNode) {
+    this.cons(this.anyStar, 0)
+    const walk = (n: RNode) => {
+      if (n.t === 'chars') this.split(n.set)
+      else if (n.t === 'seq' || n.t === 'alt') n.items.forEach(walk)
+      else if (n.t === 'rep' || n.t === 'neg') walk(n.node)
+    }
+    walk(root)
+  }
+
+  split(set: CharSet) {
+    const classes: CharSet[] = []
+    for (const c of this.classes) {
+      const i = csIntersect(c, set)
+      const o = csSubtract(c, set)
+      if (i.length) classes.push(i)
+      if (o.length) classes.push(o)
+    }
+    this.classes = classes
+  }
+
+  cons(node: RNode, next: number): number {
+    let n = this.nodeIds.get(node)
+    if (n === undefined) {
+      n = this.nodeIds.size
+      this.nodeIds.set(node, n)
+    }
+    const key = n + ',' + next
+    let id = this.listIds.get(key)
+    if (id === undefined) {
+      id = this.lists.length
+      this.lists.push([node, next])
+      this.listIds.set(key, id)
+    }
+    return id
+  }
+
+  prepend(nodes: RNode[], next: number): number {
+    for (let i = nodes.length - 1; i >= 0; i--) next = this.cons(nodes[i], next)
+    return next
+  }
+
+  // what follows the first time through a repetition
+  repeat(node: RNode & { t: 'rep' }, next: number): number {
+    if (node.max === 1) return this.cons(node.node, next)
+    let star = node.min === 0 ? node : this.stars.get(node)
+    if (!star) {
+      star = { t: 'rep', node: node.node, min: 0, max: Infinity }
+      this.stars.set(node, star)
+    }
+    return this.cons(node.node, this.cons(star, next))
+  }
+
+  // a list that comes back around to itself without matching anything
+  // adds nothing, so seen holds the lists that are being looked at.
+  nullable(list: number, start: boolean, seen: Set<number>): boolean {
+    if (list === 0) return true
+    if (seen.has(list)) return false
+    seen.add(list)
+    const [node, next] = this.lists[list]
+    const result = this.nullableNode(node, next, start, seen)
+    seen.delete(list)
+    return result
+  }
+
+  nullableNode(
+    node: RNode,
+    next: number,
+    start: boolean,
+    seen: Set<number>
+  ): boolean {
+    switch (node.t) {
+      case 'chars':
+        return false
+      case 'seq':
+        return this.nullable(this.prepend(node.items, next), start, seen)
+      case 'alt':
+        return node.items.some(n =>
+          this.nullable(this.cons(n, next), start, seen)
+        )
+      case 'rep':
+        return (
+          (node.min === 0 && this.nullable(next, start, seen)) ||
+          this.nullable(this.repeat(node, next), start, seen)
+        )
+      case 'neg':
+        return (
+          this.nullable(next, start, seen) &&
+          !this.nullable(this.cons(node.node, 0), start, new Set())
+        )
+      case 'end':
+        return this.nullable(next, start, seen)
+      case 'start':
+        return start && this.nullable(next, start, seen)
+    }
+  }
+
+  derive(list: number, c: number, start: boolean, seen: Set<number>): Term {
+    if (list === 0 || seen.has(list)) return none
+    seen.add(list)
+    const [node, next] = this.lists[list]
+    const result = this.deriveNode(node, next, c, start, seen)
+    seen.delete(list)
+    return result
+  }
+
+  deriveNode(
+    node: RNode,
+    next: number,
+    c: number,
+    start: boolean,
+    seen: Set<number>
+  ): Term {
+    switch (node.t) {
+      case 'chars':
+        return csHas(node.set, this.classes[c][0]) ? listTerm(next) : none
+      case 'seq':
+        return this.derive(this.prepend(node.items, next), c, start, seen)
+      case 'alt':
+        return combine(
+          'or',
+          node.items.map(n => this.derive(this.cons(n, next), c, start, seen))
+        )
+      case 'rep':
+        return combine('or', [
+          node.min === 0 ? this.derive(next, c, start, seen) : none,
+          this.derive(this.repeat(node, next), c, start, seen),
+        ])
+      case 'neg': {
+        // not anything that starts with the lookahead
+        const look = this.cons(node.node, this.cons(this.anyStar, 0))
+        return combine('and', [
+          this.derive(next, c, start, seen),
+          not(this.derive(look, c, start, new Set())),
+        ])
+      }
+      case 'end':
+        return none
+      case 'start':
+        return start ? this.derive(next, c, start, seen) : none
+    }
+  }
+
+  termNullable(x: Term, start: boolean): boolean {
+    const items = x.items as Term[]
+    // the states and the terms within them are never none
+    switch (x.t) {
+      case 'list':
+        return this.nullable(x.list as number, start, new Set())
+      case 'or':
+        return items.some(i => this.termNullable(i, start))
+      case 'and':
+        return items.every(i => this.termNullable(i, start))
+      default:
+        return !this.termNullable(items[0], start)
+    }
+  }
+
+  termDerive(x: Term, c: number, start: boolean): Term {
+    const items = x.items as Term[]
+    switch (x.t) {
+      case 'list':
+        return this.derive(x.list as number, c, start, new Set())
+      case 'or':
+      case 'and':
+        return combine(
+          x.t,
+          items.map(i => this.termDerive(i, c, start))
+        )
+      default:
+        return not(this.termDerive(items[0], c, start))
+    }
+  }
+}
+
+/**
+ * A DFA for a regular expression, with each state worked out when it
+ * is first reached.  State 0 is the start state.  Like regExpToDFA(),
+ * it accepts the strings that `new RegExp('^' + src + '$', flags)`
+ * would test true against.  It can also be given the syntax tree of
+ * the regexp, as `AST.toRNode()` builds it.
+ */
+export class LazyDFA {
+  /** Whether each state is an accepting state */
+  accept: boolean[] = []
+  #derivatives: Derivatives
+  #terms: Term[] = []
+  // the state reached on each class of characters, -1 where nothing
+  // can match, or undefined where it's not worked out yet
+  #next: (number | undefined)[][] = []
+  #ids = new Map<string, number>()
+  #start: Term
+  // the lowest code point of each range in the classes, in order, and
+  // the class that it is in
+  #los: number[] = []
+  #classOf: number[] = []
+
+  constructor(re: string | RNode, flags: string = '') {
+    const root = typeof re === 'string' ? parseRegExp(re, flags) : re
+    const d = (this.#derivatives = new Derivatives(root))
+    const ranges: [number, number][] = []
+    d.classes.forEach((set, c) => {
+      for (let i = 0; i < set.length; i += 2) ranges.push([set[i], c])
+    })
+    ranges.sort((a, b) => a[0] - b[0])
+    this.#los = ranges.map(([lo]) => lo)
+    this.#classOf = ranges.map(([, c]) => c)
+    this.#start = listTerm(d.cons(root, 0))
+    this.#state(this.#start, true)
+  }
+
+  /**
+   * The classes of characters that the regexp doesn't tell apart
+   */
+  get classes(): CharSet[] {
+    return this.#derivatives.classes
+  }
+
+  /**
+   * The number of states worked out so far
+   */
+  get size(): number {
+    return this.#terms.length
+  }
+
+  #state(x: Term, start: boolean = false): number {
+    // ^ only matches in the start state
+    const key = (start ? '^' : '') + x.key
+    let n = this.#ids.get(key)
+    if (n === undefined) {
+      n = this.#terms.length
+      this.#ids.set(key, n)
+      this.#terms.push(x)
+      this.accept.push(this.#derivatives.termNullable(x, start))
+      this.#next.push([])
+    }
+    return n
+  }
+
+  /**
+   * The state reached from state s on a character in class c, or -1
+   */
+  step(s: number, c: number): number {
+    let n = this.#next[s][c]
+    if (n === undefined) {
+      const x = this.#derivatives.termDerive(this.#terms[s], c, s === 0)
+      n = x.t === 'none' ? -1 : this.#state(x)
+      this.#next[s][c] = n
+    }
+    return n
+  }
+
+  /**
+   * The class of characters that a code point is in
+   */
+  classOf(cp: number): number {
+    const los = this.#los
+    let [lo, hi] = [0, los.length - 1]
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (los[mid] <= cp) lo = mid
+      else hi = mid - 1
+    }
+    return this.#classOf[lo]
+  }
+
+  /**
+   * Whether the regexp matches the whole string
+   */
+  test(s: string): boolean {
+    let state = 0
+    for (const ch of s) {
+      state = this.step(state, this.classOf(ch.codePointAt(0) as number))
+      if (state === -1) return false
+      if (this.#terms.length > MAX_CACHED_STATES) state = this.#flush(state)
+    }
+    return this.accept[state]
+  }
+
+  /**
+   * Work out every state, and return them as a DFA with the same
+   * numbering, for when the whole language is needed.
+   */
+  toDFA(): DFA {
+    const states: DState[] = []
+    // states are added as they are first reached, so this finds them all
+    for (let s = 0; s < this.#terms.length; s++) {
+      const byTarget = new Map<number, CharSet>()
+      this.classes.forEach((cs, c) => {
+        const t = this.step(s, c)
+        if (t !== -1) byTarget.set(t, csUnion(byTarget.get(t) || [], cs))
+      })
+      states.push({
+        edges: [...byTarget].map(([t, cs]) => [cs, t]),
+        accept: this.accept[s],
+      })
+    }
+    return new DFA(states)
+  }
+
+  // forget every state but the start state and the current one, which
+  // is never the start state, once a character has been read
+  #flush(s: number): number {
+    const term = this.#terms[s]
+    this.#terms = []
+    this.accept = []
+    this.#next = []
+    this.#ids.clear()
+    this.#state(this.#start, true)
+    return this.#state(term)
+  }
+}
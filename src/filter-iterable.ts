@@ -0,0 +1,130 @@
+// Filter a sequence of paths through a pattern, one at a time, without
+// holding the whole list in memory.  The input can be the paths
+// themselves, or chunks of text to split into paths on newlines or NUL
+// characters.
+
+import { Minimatch, MinimatchOptions } from './index.js'
+
+export interface FilterOptions extends MinimatchOptions {
+  /**
+   * The input is chunks of text, such as the output of `find`, to be
+   * split into paths on newlines.  Empty lines are skipped.
+   */
+  lines?: boolean
+  /**
+   * Split the input on NUL characters rather than newlines, as with
+   * `find -print0`.  Implies `lines`.
+   */
+  nul?: boolean
+}
+
+const decode = (chunk: string | Uint8Array) =>
+  typeof chunk === 'string' ? chunk : new TextDecoder().decode(chunk)
+
+// The state of a filter in progress.  Chunks go in, and the paths that
+// match come out, with the pattern itself at the end if nothing matched
+// and nonull is set.
+export class PathFilter {
+  pattern: string
+  minimatch: Minimatch
+  lines: boolean
+  delimiter: '\n' | '\0'
+  found: boolean = false
+  #rest: string = ''
+  #decoder = new TextDecoder()
+
+  constructor(
+    pattern: string,
+    options: FilterOptions = {},
+    lines: boolean = !!options.lines
+  ) {
+    this.pattern = pattern
+    this.minimatch = new Minimatch(pattern, options)
+    this.lines = lines || !!options.nul
+    this.delimiter = options.nul ? '\0' : '\n'
+  }
+
+  write(chunk: string | Uint8Array): string[] {
+    if (!this.lines) return this.#filter([decode(chunk)])
+    const text =
+      this.#rest +
+      (typeof chunk === 'string'
+        ? chunk
+        : this.#decoder.decode(chunk, { stream: true }))
+    const paths = text.split(this.delimiter)
+    this.#rest = paths.pop() as string
+    return this.#filter(paths)
+  }
+
+  end(): string[] {
+    const found = this.lines
+      ? this.#filter([this.#rest + this.#decoder.decode()])
+      : []
+    this.#rest = ''
+    if (!this.found && this.minimatch.options.nonull) {
+      found.push(this.pattern)
+    }
+    return found
+  }
+
+  #filter(paths: string[]): string[] {
+    const found: string[] = []
+    for (let p of paths) {
+      if (this.lines) {
+        if (this.delimiter === '\n' && p.endsWith('\r')) p = p.slice(0, -1)
+        if (!p) continue
+      }
+      if (this.minimatch.match(p)) found.push(p)
+    }
+    if (found.length) this.found = true
+    return found
+  }
+}
+
+function* filterSync(
+  source: Iterable<string | Uint8Array>,
+  filter: PathFilter
+): Generator<string, void, undefined> {
+  for (const chunk of source) yield* filter.write(chunk)
+  yield* filter.end()
+}
+
+async function* filterAsync(
+  source: AsyncIterable<string | Uint8Array>,
+  filter: PathFilter
+): AsyncGenerator<string, void, undefined> {
+  for await (const chunk of source) yield* filter.write(chunk)
+  yield* filter.end()
+}
+
+/**
+ * Yield the paths from an iterable or async iterable that match the
+ * pattern.  The pattern is compiled once, and the source is consumed
+ * lazily, so it can be as long as needed.  If nothing matches and the
+ * `nonull` option is set, the pattern is yielded at the end.
+ */
+export function filterIterable(
+  source: Iterable<string | Uint8Array>,
+  pattern: string,
+  options?: FilterOptions
+): Generator<string, void, undefined>
+export function filterIterable(
+  source: AsyncIterable<string | Uint8Array>,
+  pattern: string,
+  options?: FilterOptions
+): AsyncGenerator<string, void, undefined>
+export function filterIterable(
+  source: Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>,
+  pattern: string,
+  options?: FilterOptions
+): Generator<string, void, undefined> | AsyncGenerator<string, void, undefined>
+export function filterIterable(
+  source: Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>,
+  pattern: string,
+  options: FilterOptions = {}
+) {
+  const filter = new PathFilter(pattern, options)
+  return Symbol.asyncIterator in source
+    ? filterAsync(source as AsyncIterable<string | Uint8Array>, filter)
+    : filterSync(source as Iterable<string | Uint8Array>, filter)
+}
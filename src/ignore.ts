@@ -0,0 +1,211 @@
+// gitignore-style ordered rulesets, built out of Minimatch objects.
+//
+// The semantics follow gitignore(5):
+// - blank lines match nothing, and lines starting with # are comments.
+//   \# at the start of a line is a literal #.
+// - trailing spaces are ignored, unless escaped with \
+// - a leading ! negates the rule, re-including anything that a prior
+//   rule excluded.  \! at the start of a line is a literal !.
+// - a trailing / means the rule only matches directories.
+// - a / at the start or in the middle of the rule anchors it to the
+//   directory containing the ignore file.  Otherwise, it can match at
+//   any level, like the matchBase option.
+// - the last matching rule wins.
+// - it is not possible to re-include a file if one of its parent
+//   directories is excluded, so once a directory is ignored, a walker
+//   can prune it without looking at its contents.
+
+import { Minimatch, MinimatchOptions } from './index.js'
+
+export interface IgnoreRule {
+  /**
+   * The line in the ignore file, as written.
+   */
+  source: string
+  /**
+   * The 1-based line number that the rule came from.
+   */
+  line: number
+  /**
+   * True if the rule starts with `!`, and re-includes matching paths.
+   */
+  negate: boolean
+  /**
+   * True if the rule ends in `/`, and only applies to directories.
+   */
+  dirOnly: boolean
+  /**
+   * True if the rule is relative to the ignore file's directory, rather
+   * than matching at any level.
+   */
+  anchored: boolean
+  /**
+   * The Minimatch object that tests paths against this rule.
+   */
+  minimatch: Minimatch
+}
+
+export interface IgnoreTestOptions {
+  /**
+   * Set to true if the path refers to a directory.  Paths ending in `/`
+   * are always treated as directories.
+   */
+  isDirectory?: boolean
+}
+
+export interface IgnoreTestResult {
+  /**
+   * True if the path is excluded by the ruleset.
+   */
+  ignored: boolean
+  /**
+   * The rule that decided the result, if any rule matched.  When a parent
+   * directory is excluded, this is the rule that excluded the parent.
+   */
+  rule?: IgnoreRule
+}
+
+// number of backslashes immediately preceding position i
+export const backslashesBefore = (s: string, i: number) => {
+  let n = 0
+  while (i - n - 1 >= 0 && s.charAt(i - n - 1) === '\\') n++
+  return n
+}
+
+// remove any unescaped trailing spaces
+export const trimTrailingSpace = (s: string) => {
+  let end = s.length
+  while (end > 0 && s.charAt(end - 1) === ' ') {
+    if (backslashesBefore(s, end - 1) % 2) break
+    end--
+  }
+  return s.substring(0, end)
+}
+
+export class GitIgnore {
+  options: MinimatchOptions
+  rules: IgnoreRule[]
+
+  constructor(text: string = '', options: MinimatchOptions = {}) {
+    this.options = options
+    this.rules = []
+    this.add(text)
+  }
+
+  /**
+   * Parse the lines of a gitignore-formatted text, and append the rules
+   * to the end of the ruleset.  Line numbers restart at 1 for each call.
+   */
+  add(text: string) {
+    const lines = text.split(/\r?\n/)
+    for (let i = 0; i < lines.length; i++) {
+      const rule = this.parseRule(lines[i], i + 1)
+      if (rule) this.rules.push(rule)
+    }
+    return this
+  }
+
+  /**
+   * Turn a single line into a rule, or return undefined if the line
+   * is blank or a comment.
+   */
+  parseRule(source: string, line: number = 0): IgnoreRule | undefined {
+    let pattern = trimTrailingSpace(source)
+    if (!pattern || pattern.charAt(0) === '#') return undefined
+
+    // git only strips a single !, and the remainder is a literal pattern,
+    // so escape any further ! chars before handing it to parseNegate.
+    let negate = false
+    if (pattern.charAt(0) === '!') {
+      negate = true
+      pattern = pattern.substring(1)
+      if (pattern.charAt(0) === '!') pattern = '\\' + pattern
+    }
+
+    let dirOnly = false
+    if (
+      pattern.endsWith('/') &&
+      backslashesBefore(pattern, pattern.length - 1) % 2 === 0
+    ) {
+      dirOnly = true
+      pattern = pattern.replace(/\/+$/, '')
+    }
+    if (!pattern) return undefined
+
+    const anchored = pattern.includes('/')
+    if (pattern.charAt(0) === '/') pattern = pattern.substring(1)
+
+    // the user's options can't change how the rule itself is read
+    const mm = new Minimatch((negate ? '!' : '') + pattern, {
+      dot: true,
+      nobrace: true,
+      noext: true,
+      ...this.options,
+      nocomment: true,
+      nonegate: false,
+      matchBase: !anchored,
+      flipNegate: true,
+      partial: false,
+    })
+
+    return { source, line, negate: mm.negate, dirOnly, anchored, minimatch: mm }
+  }
+
+  /**
+   * Test a path relative to the ignore file's directory against the
+   * ruleset, and report which rule decided the outcome.
+   */
+  test(
+    path: string,
+    { isDirectory = false }: IgnoreTestOptions = {}
+  ): IgnoreTestResult {
+    if (!this.rules.length) return { ignored: false }
+    if (this.rules[0].minimatch.isWindows) path = path.split('\\').join('/')
+    if (path.endsWith('/')) isDirectory = true
+    const parts = path.split('/').filter(p => p && p !== '.')
+
+    // if any parent dir is excluded, then nothing inside it can be
+    // re-included, so walk down from the top.  An anchored rule that
+    // doesn't partially match a dir can't match anything inside it, so
+    // it is dropped on the way down.
+    let rules = this.rules
+    let dir = ''
+    for (let i = 0; i < parts.length - 1; i++) {
+      dir += (dir ? '/' : '') + parts[i]
+      rules = rules.filter(r => !r.anchored || r.minimatch.match(dir, true))
+      const res = this.#test(rules, dir, true)
+      if (res.ignored) return res
+    }
+    return this.#test(rules, parts.join('/'), isDirectory)
+  }
+
+  #test(
+    rules: IgnoreRule[],
+    path: string,
+    isDirectory: boolean
+  ): IgnoreTestResult {
+    for (let i = rules.length - 1; i >= 0; i--) {
+      const rule = rules[i]
+      if (rule.dirOnly && !isDirectory) continue
+      if (rule.minimatch.match(path)) {
+        return { ignored: !rule.negate, rule }
+      }
+    }
+    return { ignored: false }
+  }
+
+  /**
+   * Return true if the path is excluded by the ruleset.
+   */
+  ignores(path: string, options: IgnoreTestOptions = {}) {
+    return this.test(path, options).ignored
+  }
+
+  /**
+   * Return a filter function suitable for Array.prototype.filter(),
+   * which keeps only the paths that are not ignored.
+   */
+  filter(options: IgnoreTestOptions = {}) {
+    return (path: string) => !this.ignores(path, options)
+  }
+}
@@ -1,7 +1,40 @@
 import expand from 'brace-expansion'
-import { assertValidPattern } from './assert-valid-pattern.js'
+import { equivalent, intersects, isSubset } from './analyze.js'
+import {
+  assertValidPattern,
+  assertWithinLimit,
+  GlobLimitError,
+  GlobSyntaxError,
+  RegExpDialectError,
+} from './assert-valid-pattern.js'
 import { AST, ExtglobType } from './ast.js'
+import { BracePiece, splitBraces } from './brace-alternation.js'
+import { decodePath, encodePath, pathString } from './bytes.js'
+import {
+  caseFold,
+  CaseFoldRegExp,
+  FoldCaptureRegExp,
+  foldPattern,
+} from './case-fold.js'
+import { CodeOwners } from './codeowners.js'
+import { compileCache } from './compile-cache.js'
 import { escape } from './escape.js'
+import { filterIterable, FilterOptions } from './filter-iterable.js'
+import { GitIgnore } from './ignore.js'
+import { lint } from './lint.js'
+import { compileMany, MinimatchSet } from './minimatch-set.js'
+import { nfaMatchOne } from './nfa.js'
+import { isStepped } from './numeric-range.js'
+import { toRE2 } from './re2.js'
+import { translate, TranslateDialect } from './translate.js'
+import {
+  countExpansions,
+  GlobNode,
+  parseTree,
+  tree,
+  treeToString,
+  walkTree,
+} from './tree.js'
 import { unescape } from './unescape.js'
 
 type Platform =
@@ -29,7 +62,7 @@ export interface MinimatchOptions {
   allowWindowsEscape?: boolean
   partial?: boolean
   dot?: boolean
-  nocase?: boolean
+  nocase?: boolean | 'fold'
   nocaseMagicOnly?: boolean
   magicalBraces?: boolean
   matchBase?: boolean
@@ -38,13 +71,39 @@ export interface MinimatchOptions {
   optimizationLevel?: number
   platform?: Platform
   windowsNoMagicRoot?: boolean
+  capture?: boolean
+  unicodeNormalize?: 'NFC' | 'NFD' | 'NFKC' | 'NFKD'
+  locale?: string
+  strict?: boolean
+  regexDialect?: 'js' | 're2'
+  engine?: 'regexp' | 'nfa'
+  limits?: MinimatchLimits
+}
+
+/**
+ * Limits on how much work a pattern can make, for patterns that come
+ * from somewhere that can't be trusted.  Going over one throws a
+ * {@link GlobLimitError}.
+ */
+export interface MinimatchLimits {
+  /** The most patterns that brace expansion may produce */
+  braceExpansions?: number
+  /** How deeply extglobs may be nested within one another */
+  extglobDepth?: number
+  /** The most entries that the compiled `set` may have */
+  setEntries?: number
+  /** The most `**` portions that each entry of the `set` may have */
+  globstars?: number
+  /** The longest that a generated regular expression source may be */
+  regexpLength?: number
 }
 
 export const minimatch = (
-  p: string,
-  pattern: string,
+  p: string | Uint8Array,
+  pattern: string | Uint8Array,
   options: MinimatchOptions = {}
 ) => {
+  pattern = pathString(pattern)
   assertValidPattern(pattern)
 
   // shortcut: comments match nothing.
@@ -52,7 +111,7 @@ export const minimatch = (
     return false
   }
 
-  return new Minimatch(pattern, options).match(p)
+  return compileCache.get(pattern, options).match(p)
 }
 
 // Optimized checking for the most common glob patterns.
@@ -107,6 +166,43 @@ const qmarksTestNoExtDot = ([$0]: RegExpMatchArray) => {
   return (f: string) => f.length === len && f !== '.' && f !== '..'
 }
 
+// far and away, the most common glob pattern parts are
+// *, *.*, and *.<ext>  Add a fast check method for those.
+const fastTest = (
+  pattern: string,
+  options: MinimatchOptions
+): null | ((f: string) => boolean) => {
+  let m: RegExpMatchArray | null
+  if ((m = pattern.match(starRE))) {
+    return options.dot ? starTestDot : starTest
+  } else if ((m = pattern.match(starDotExtRE))) {
+    return (
+      options.nocase
+        ? options.dot
+          ? starDotExtTestNocaseDot
+          : starDotExtTestNocase
+        : options.dot
+        ? starDotExtTestDot
+        : starDotExtTest
+    )(m[1])
+  } else if ((m = pattern.match(qmarksRE))) {
+    return (
+      options.nocase
+        ? options.dot
+          ? qmarksTestNocaseDot
+          : qmarksTestNocase
+        : options.dot
+        ? qmarksTestDot
+        : qmarksTest
+    )(m)
+  } else if ((m = pattern.match(starDotStarRE))) {
+    return options.dot ? starDotStarTestDot : starDotStarTest
+  } else if ((m = pattern.match(dotStarRE))) {
+    return dotStarTest
+  }
+  return null
+}
+
 /* c8 ignore start */
 const defaultPlatform: Platform = (
   typeof process === 'object' && process
@@ -140,6 +236,8 @@ const star = qmark + '*?'
 // not (^ or / followed by one or two dots followed by $ or /),
 // followed by anything, any number of times.
 const twoStarDot = '(?:(?!(?:\\/|^)(?:\\.{1,2})($|\\/)).)*?'
+// same, but without a capturing group, for use in capture mode
+const twoStarDotNoGroup = '(?:(?!(?:\\/|^)(?:\\.{1,2})(?:$|\\/)).)*?'
 
 // not a ^ or / followed by a dot,
 // followed by anything, any number of times.
@@ -147,7 +245,7 @@ const twoStarNoDot = '(?:(?!(?:\\/|^)\\.).)*?'
 
 export const filter =
   (pattern: string, options: MinimatchOptions = {}) =>
-  (p: string) =>
+  (p: string | Uint8Array) =>
     minimatch(p, pattern, options)
 minimatch.filter = filter
 
@@ -161,12 +259,43 @@ export const defaults = (def: MinimatchOptions): typeof minimatch => {
 
   const orig = minimatch
 
-  const m = (p: string, pattern: string, options: MinimatchOptions = {}) =>
-    orig(p, pattern, ext(def, options))
+  const m = (
+    p: string | Uint8Array,
+    pattern: string | Uint8Array,
+    options: MinimatchOptions = {}
+  ) => orig(p, pattern, ext(def, options))
+
+  function filterIterableWithDefaults(
+    source: Iterable<string | Uint8Array>,
+    pattern: string,
+    options?: FilterOptions
+  ): Generator<string, void, undefined>
+  function filterIterableWithDefaults(
+    source: AsyncIterable<string | Uint8Array>,
+    pattern: string,
+    options?: FilterOptions
+  ): AsyncGenerator<string, void, undefined>
+  function filterIterableWithDefaults(
+    source: Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>,
+    pattern: string,
+    options?: FilterOptions
+  ):
+    | Generator<string, void, undefined>
+    | AsyncGenerator<string, void, undefined>
+  function filterIterableWithDefaults(
+    source: Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>,
+    pattern: string,
+    options: FilterOptions = {}
+  ) {
+    return orig.filterIterable(source, pattern, ext(def, options))
+  }
 
   return Object.assign(m, {
     Minimatch: class Minimatch extends orig.Minimatch {
-      constructor(pattern: string, options: MinimatchOptions = {}) {
+      constructor(
+        pattern: string | Uint8Array,
+        options: MinimatchOptions = {}
+      ) {
         super(pattern, ext(def, options))
       }
       static defaults(options: MinimatchOptions) {
@@ -190,6 +319,27 @@ export const defaults = (def: MinimatchOptions): typeof minimatch => {
       }
     },
 
+    GitIgnore: class GitIgnore extends orig.GitIgnore {
+      constructor(text: string = '', options: MinimatchOptions = {}) {
+        super(text, ext(def, options))
+      }
+    },
+
+    CodeOwners: class CodeOwners extends orig.CodeOwners {
+      constructor(text: string = '', options: MinimatchOptions = {}) {
+        super(text, ext(def, options))
+      }
+    },
+
+    MinimatchSet: class MinimatchSet extends orig.MinimatchSet {
+      constructor(patterns: string[], options: MinimatchOptions = {}) {
+        super(patterns, ext(def, options))
+      }
+    },
+
+    compileMany: (patterns: string[], options: MinimatchOptions = {}) =>
+      orig.compileMany(patterns, ext(def, options)),
+
     unescape: (
       s: string,
       options: Pick<MinimatchOptions, 'windowsPathsNoEscape'> = {}
@@ -203,6 +353,8 @@ export const defaults = (def: MinimatchOptions): typeof minimatch => {
     filter: (pattern: string, options: MinimatchOptions = {}) =>
       orig.filter(pattern, ext(def, options)),
 
+    filterIterable: filterIterableWithDefaults,
+
     defaults: (options: MinimatchOptions) => orig.defaults(ext(def, options)),
 
     makeRe: (pattern: string, options: MinimatchOptions = {}) =>
@@ -214,8 +366,60 @@ export const defaults = (def: MinimatchOptions): typeof minimatch => {
     match: (list: string[], pattern: string, options: MinimatchOptions = {}) =>
       orig.match(list, pattern, ext(def, options)),
 
+    rewrite: (
+      path: string,
+      fromPattern: string,
+      toTemplate: string,
+      options: MinimatchOptions = {},
+      names: string[] = []
+    ) => orig.rewrite(path, fromPattern, toTemplate, ext(def, options), names),
+
+    isSubset: (
+      a: string | Minimatch,
+      b: string | Minimatch,
+      options: MinimatchOptions = {}
+    ) => orig.isSubset(a, b, ext(def, options)),
+
+    intersects: (
+      a: string | Minimatch,
+      b: string | Minimatch,
+      options: MinimatchOptions = {}
+    ) => orig.intersects(a, b, ext(def, options)),
+
+    equivalent: (
+      a: string | Minimatch,
+      b: string | Minimatch,
+      options: MinimatchOptions = {}
+    ) => orig.equivalent(a, b, ext(def, options)),
+
+    normalizePattern: (pattern: string, options: MinimatchOptions = {}) =>
+      orig.normalizePattern(pattern, ext(def, options)),
+
+    lint: (pattern: string, options: MinimatchOptions = {}) =>
+      orig.lint(pattern, ext(def, options)),
+
+    parseTree: (pattern: string, options: MinimatchOptions = {}) =>
+      orig.parseTree(pattern, ext(def, options)),
+
+    treeToString: (node: GlobNode, options: MinimatchOptions = {}) =>
+      orig.treeToString(node, ext(def, options)),
+
+    translate: (
+      pattern: string | Minimatch,
+      dialect: TranslateDialect,
+      options: MinimatchOptions = {}
+    ) => orig.translate(pattern, dialect, ext(def, options)),
+
     sep: orig.sep,
     GLOBSTAR: GLOBSTAR as typeof GLOBSTAR,
+    GlobSyntaxError: orig.GlobSyntaxError,
+    GlobLimitError: orig.GlobLimitError,
+    RegExpDialectError: orig.RegExpDialectError,
+    walkTree: orig.walkTree,
+    tree: orig.tree,
+    compileCache: orig.compileCache,
+    decodePath: orig.decodePath,
+    encodePath: orig.encodePath,
   })
 }
 minimatch.defaults = defaults
@@ -230,11 +434,18 @@ minimatch.defaults = defaults
 // Invalid sets are not expanded.
 // a{2..}b -> a{2..}b
 // a{b}c -> a{b}c
+// the number of patterns that brace expansion turns a pattern into,
+// without expanding it
+const countBraceExpansions = (pattern: string, options: MinimatchOptions) =>
+  countExpansions(
+    parseTree(pattern, { ...options, nonegate: true, nocomment: true })
+  )
+
 export const braceExpand = (
   pattern: string,
   options: MinimatchOptions = {}
 ) => {
-  assertValidPattern(pattern)
+  assertValidPattern(pattern, options)
 
   // Thanks to Yeting Li <https://github.com/yetingli> for
   // improving this regexp to avoid a ReDOS vulnerability.
@@ -243,7 +454,14 @@ export const braceExpand = (
     return [pattern]
   }
 
-  return expand(pattern)
+  // count them first, so that the limit is found before they are made
+  if (options.limits?.braceExpansions !== undefined) {
+    const n = countBraceExpansions(pattern, options)
+    assertWithinLimit(pattern, options, 'braceExpansions', n)
+  }
+  const expanded = expand(pattern)
+  assertWithinLimit(pattern, options, 'braceExpansions', expanded.length)
+  return expanded
 }
 minimatch.braceExpand = braceExpand
 
@@ -260,7 +478,7 @@ minimatch.braceExpand = braceExpand
 // default, and can be disabled by setting options.noglobstar.
 
 export const makeRe = (pattern: string, options: MinimatchOptions = {}) =>
-  new Minimatch(pattern, options).makeRe()
+  compileCache.get(pattern, options).makeRe()
 minimatch.makeRe = makeRe
 
 export const match = (
@@ -268,7 +486,7 @@ export const match = (
   pattern: string,
   options: MinimatchOptions = {}
 ) => {
-  const mm = new Minimatch(pattern, options)
+  const mm = compileCache.get(pattern, options)
   list = list.filter(f => mm.match(f))
   if (mm.options.nonull && !list.length) {
     list.push(pattern)
@@ -277,22 +495,272 @@ export const match = (
 }
 minimatch.match = match
 
+// Map a path matching one glob onto a template, mmv-style.
+// rewrite('src/a/b.ts', 'src/**/*.ts', 'dist/$1/$2.js') -> 'dist/a/b.js'
+export const rewrite = (
+  path: string,
+  fromPattern: string,
+  toTemplate: string,
+  options: MinimatchOptions = {},
+  names: string[] = []
+) => new Minimatch(fromPattern, options).replace(path, toTemplate, names)
+minimatch.rewrite = rewrite
+
+// Reduce a pattern to its canonical form, so that patterns which are
+// written differently but match the same things compare equal.
+// normalizePattern('./src//**/**/*.{ts,ts}') -> 'src/**/*.ts'
+export const normalizePattern = (
+  pattern: string,
+  options: MinimatchOptions = {}
+) => new Minimatch(pattern, options).toCanonical()
+minimatch.normalizePattern = normalizePattern
+
+// fill in the $1, ${1}, ${name}, $& and $$ placeholders in a template
+const expandTemplate = (
+  template: string,
+  whole: string,
+  captures: string[],
+  names: string[]
+) =>
+  template.replace(
+    /\$(?:(\d+)|\{([^}]+)\}|(&)|(\$))/g,
+    (m, num?: string, brace?: string, amp?: string, dollar?: string) => {
+      if (dollar) return '$'
+      if (amp) return whole
+      const key = num ?? (brace as string)
+      if (/^\d+$/.test(key)) return captures[+key - 1] ?? ''
+      const i = names.indexOf(key)
+      if (i === -1) {
+        throw new TypeError(`unknown placeholder in template: ${m}`)
+      }
+      return captures[i] ?? ''
+    }
+  )
+
+// 64-bit FNV-1a hash of the UTF-16 code units, as 16 hex digits
+const fnv1a64 = (s: string) => {
+  let h = 0xcbf29ce484222325n
+  for (let i = 0; i < s.length; i++) {
+    h ^= BigInt(s.charCodeAt(i))
+    h = (h * 0x100000001b3n) & 0xffffffffffffffffn
+  }
+  return h.toString(16).padStart(16, '0')
+}
+
 // replace stuff like \* with *
 const globMagic = /[?*]|[+@!]\(.*?\)|\[|\]/
 const regExpEscape = (s: string) =>
   s.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, '\\$&')
 
+// Whether a path portion, split into brace pieces, would be magic once
+// expanded, or with magicalBraces, would expand to more than one thing.
+// Only the expanded sets have glob text in their alternatives.  Numeric
+// ranges are digits, with a class or a nested set wherever more than
+// one can come next.
+const bracePiecesMagic = (
+  pieces: BracePiece[],
+  options: MinimatchOptions
+): boolean =>
+  pieces.some(p => {
+    const magic = (glob: string) =>
+      typeof AST.fromGlob(glob, options).toMMPattern() !== 'string'
+    if (typeof p === 'string') return magic(p)
+    const expanded = p.filter(
+      (a): a is string => typeof a === 'string' && !a.includes('[')
+    )
+    if (
+      options.magicalBraces &&
+      (expanded.length < p.length || new Set(expanded).size > 1)
+    ) {
+      return true
+    }
+    return expanded.some(magic)
+  })
+
+// The regexp for a path portion with stepped numeric sequences matches
+// any number within their bounds.  Whether it matches with the numbers
+// that the steps land on is tested with only the ones that are in the
+// portion, in their place.
+const withSteps = (
+  re: MMRegExp,
+  pieces: BracePiece[],
+  options: MinimatchOptions
+): MMRegExp => {
+  // the limits are for the pattern, not for the numbers in a path
+  const o = { ...options, limits: undefined }
+  const steps = (f: string) => {
+    const only: BracePiece[] = []
+    for (const p of pieces) {
+      if (!isStepped(p)) {
+        only.push(p)
+        continue
+      }
+      const nums = p.within(f)
+      if (!nums.length) return false
+      only.push(nums)
+    }
+    return (AST.fromBracePieces(only, o).toMMPattern() as MMRegExp).test(f)
+  }
+  return Object.assign(re, {
+    _steps: steps,
+    test: (f: string) => RegExp.prototype.test.call(re, f) && steps(f),
+  })
+}
+
+// the source of a regexp from withSteps(), with each number that the
+// steps land on listed out
+const listSteps = (pieces: BracePiece[], options: MinimatchOptions) =>
+  (
+    AST.fromBracePieces(
+      pieces.map(p => (isStepped(p) ? p.list() : p)),
+      options
+    ).toMMPattern() as MMRegExp
+  )._src
+
 export type MMRegExp = RegExp & {
   _src?: string
   _glob?: string
+  _ast?: AST
+  _steps?: (f: string) => boolean
 }
 
 export type ParseReturnFiltered = string | MMRegExp | typeof GLOBSTAR
 export type ParseReturn = ParseReturnFiltered | false
 
+/**
+ * One step in aligning a path with an entry in {@link Minimatch#set}
+ */
+export interface MatchExplainStep {
+  /** The kind of pattern part that was compared */
+  kind: 'string' | 'regexp' | 'globstar'
+  /** Index of the pattern part within the set entry */
+  patternIndex: number
+  /** The pattern part itself */
+  pattern: ParseReturnFiltered
+  /** Index of the first path segment consumed by this step */
+  fileIndex: number
+  /**
+   * The path segments consumed by this step.  Always a single segment,
+   * except for a globstar, which may swallow zero or more.
+   */
+  file: string[]
+  /** Whether the path segment(s) satisfied the pattern part */
+  hit: boolean
+}
+
+/**
+ * The result of trying a path against a single entry in
+ * {@link Minimatch#set}
+ */
+export interface MatchExplainEntry {
+  /** Index of the entry in {@link Minimatch#set} */
+  index: number
+  /** The preprocessed glob that the entry was compiled from */
+  glob: string
+  /** The entry itself */
+  pattern: ParseReturnFiltered[]
+  /** The path segments that were compared */
+  file: string[]
+  /** True if only the basename was compared, due to `matchBase` */
+  matchBase: boolean
+  /** Whether the path matched this entry */
+  hit: boolean
+  /** How each pattern part lined up with the path */
+  steps: MatchExplainStep[]
+  /** A description of why the match failed, if it did */
+  failure?: string
+}
+
+/**
+ * A structured report of how {@link Minimatch#match} arrived at its result
+ */
+export interface MatchExplanation {
+  /** The pattern, with any leading ! characters removed */
+  pattern: string
+  /**
+   * The path that was tested, after the `unicodeNormalize` and
+   * `nocase: 'fold'` options are applied
+   */
+  path: string
+  comment: boolean
+  empty: boolean
+  negate: boolean
+  flipNegate: boolean
+  partial: boolean
+  /** The brace-expanded patterns */
+  globSet: string[]
+  /**
+   * The names of the {@link Minimatch#preprocess} passes that rewrote
+   * the brace-expanded patterns.
+   */
+  optimizations: string[]
+  /** The entries of the set that were tried, in order */
+  entries: MatchExplainEntry[]
+  /** Whether any entry matched, before negation is applied */
+  matched: boolean
+  /** The final result, identical to what match() returns */
+  result: boolean
+}
+
+/**
+ * The literal directory that an entry in {@link Minimatch#set} starts
+ * from, and how far below it the rest of the entry can reach.
+ */
+export interface PatternBase {
+  /**
+   * The leading literal portions of the entry, joined with `/`.  Empty
+   * if the entry starts with a magic portion, or `/` (or a windows
+   * drive or UNC root followed by `/`) if only the root is literal.
+   */
+  base: string
+  /** The pattern parts that follow the base */
+  rest: ParseReturnFiltered[]
+  /** True if the rest of the entry contains `**` */
+  recursive: boolean
+  /**
+   * The most path portions below the base that the entry can match,
+   * or `Infinity` if it is recursive.
+   */
+  depth: number
+}
+
+/**
+ * A part of {@link Minimatch#set} in {@link MinimatchJSON}
+ */
+export type MinimatchJSONPart =
+  | string
+  | { globstar: true }
+  | { source: string; flags: string; _src?: string; _glob?: string }
+
+/**
+ * The serialized form of a Minimatch object, returned by
+ * {@link Minimatch#toJSON}
+ */
+export interface MinimatchJSON {
+  /** The version of the format, {@link MINIMATCH_JSON_VERSION} */
+  version: number
+  pattern: string
+  /** The options, including the platform */
+  options: MinimatchOptions
+  negate: boolean
+  comment: boolean
+  empty: boolean
+  globSet: string[]
+  globParts: string[][]
+  set: MinimatchJSONPart[][]
+}
+
+/**
+ * The version of the {@link MinimatchJSON} format.  Data with any other
+ * version is rejected by {@link Minimatch.fromJSON}.
+ */
+export const MINIMATCH_JSON_VERSION = 1
+
+// set while fromJSON() is constructing an object, instead of compiling
+let hydrating: MinimatchJSON | undefined = undefined
+
 export class Minimatch {
   options: MinimatchOptions
-  set: ParseReturnFiltered[][]
   pattern: string
 
   windowsPathsNoEscape: boolean
@@ -302,8 +770,6 @@ export class Minimatch {
   empty: boolean
   preserveMultipleSlashes: boolean
   partial: boolean
-  globSet: string[]
-  globParts: string[][]
   nocase: boolean
 
   isWindows: boolean
@@ -311,12 +777,18 @@ export class Minimatch {
   windowsNoMagicRoot: boolean
 
   regexp: false | null | MMRegExp
-  constructor(pattern: string, options: MinimatchOptions = {}) {
-    assertValidPattern(pattern)
+  #partOptions: MinimatchOptions
+  constructor(pattern: string | Uint8Array, options: MinimatchOptions = {}) {
+    pattern = pathString(pattern)
+    assertValidPattern(pattern, options)
 
     options = options || {}
     this.options = options
-    this.pattern = pattern
+    // the pattern has been linted as a whole, so its parts need not be
+    this.#partOptions = options.strict ? { ...options, strict: false } : options
+    this.pattern = options.unicodeNormalize
+      ? pattern.normalize(options.unicodeNormalize)
+      : pattern
     this.platform = options.platform || defaultPlatform
     this.isWindows = this.platform === 'win32'
     this.windowsPathsNoEscape =
@@ -324,6 +796,9 @@ export class Minimatch {
     if (this.windowsPathsNoEscape) {
       this.pattern = this.pattern.replace(/\\/g, '/')
     }
+    if (options.nocase === 'fold') {
+      this.pattern = foldPattern(this.pattern, options.locale)
+    }
     this.preserveMultipleSlashes = !!options.preserveMultipleSlashes
     this.regexp = null
     this.negate = false
@@ -342,16 +817,24 @@ export class Minimatch {
     this.set = []
 
     // make the set of regexps etc.
-    this.make()
+    if (hydrating) this.#hydrate(hydrating)
+    else this.make()
   }
 
   hasMagic(): boolean {
-    if (this.options.magicalBraces && this.set.length > 1) {
+    const set = this.#matchSet || this.set
+    if (this.options.magicalBraces && set.length > 1) {
       return true
     }
-    for (const pattern of this.set) {
+    for (const pattern of set) {
       for (const part of pattern) {
-        if (typeof part !== 'string') return true
+        if (typeof part === 'string') continue
+        // brace sets that match() keeps as alternations are only magic
+        // if what they expand to would be
+        const pieces = part !== GLOBSTAR && this.#braceParts.get(part)
+        if (!pieces || bracePiecesMagic(pieces, this.#partOptions)) {
+          return true
+        }
       }
     }
     return false
@@ -377,14 +860,58 @@ export class Minimatch {
     // step 1: figure out negation, etc.
     this.parseNegate()
 
-    // step 2: expand braces
-    this.globSet = [...new Set(this.braceExpand())]
-
     if (options.debug) {
       this.debug = (...args: any[]) => console.error(...args)
     }
 
+    // step 2: expand braces, unless match() can use them as they are
+    if (this.#alternate()) return
+    this.#expandBraces()
+  }
+
+  #globSet?: string[]
+  #globParts?: string[][]
+  #set?: ParseReturnFiltered[][]
+  // the set used by match(), if the brace sets could be compiled as
+  // alternations rather than expanded, and the pieces of the portions
+  // that were
+  #matchSet?: ParseReturnFiltered[][]
+  #braceParts = new WeakMap<MMRegExp, BracePiece[]>()
+
+  // These are only built when they are first used, if match() does not
+  // need the braces expanded.
+  get globSet(): string[] {
+    if (!this.#globSet) this.#expandBraces()
+    return this.#globSet as string[]
+  }
+  set globSet(globSet: string[]) {
+    this.#globSet = globSet
+  }
+  get globParts(): string[][] {
+    if (!this.#globParts) this.#expandBraces()
+    return this.#globParts as string[][]
+  }
+  set globParts(globParts: string[][]) {
+    this.#globParts = globParts
+  }
+  get set(): ParseReturnFiltered[][] {
+    if (!this.#set) this.#expandBraces()
+    return this.#set as ParseReturnFiltered[][]
+  }
+  set set(set: ParseReturnFiltered[][]) {
+    this.#set = set
+  }
+
+  #expandBraces() {
+    this.#globSet = [...new Set(this.braceExpand())]
     this.debug(this.pattern, this.globSet)
+    // what the braces expand to can be malformed in ways that the
+    // pattern is not, such as {[a,b]}
+    if (this.options.strict) {
+      for (const p of this.#globSet) {
+        if (p !== this.pattern) assertValidPattern(p, this.options)
+      }
+    }
 
     // step 3: now we have a set, so turn each one into a series of
     // path-portion matching patterns.
@@ -396,11 +923,84 @@ export class Minimatch {
     // and deduped.  There are some perf-killing patterns that can cause
     // problems with a glob walk, but we can simplify them down a bit.
     const rawGlobParts = this.globSet.map(s => this.slashSplit(s))
-    this.globParts = this.preprocess(rawGlobParts)
+    this.#globParts = this.preprocess(rawGlobParts)
     this.debug(this.pattern, this.globParts)
+    this.#assertWithinLimits(this.#globParts)
 
     // glob --> regexps
-    let set = this.globParts.map((s, _, __) => {
+    this.#set = this.#compile(false)
+
+    this.debug(this.pattern, this.set)
+  }
+
+  // Compile each brace set as an alternation within its path portion,
+  // when that matches the same paths as expanding it, so that a pattern
+  // like {a,b,c}/{d,e,f}/{g,h,i} is one entry for match(), not 27.
+  #alternate(): boolean {
+    const { pattern, options } = this
+    if (
+      options.nobrace ||
+      !/\{(?:(?!\{).)*\}/.test(pattern) ||
+      pattern.includes('\\')
+    ) {
+      return false
+    }
+    const parts = this.slashSplit(pattern)
+    const pieces = new Map<string, BracePiece[]>()
+    for (let i = 0; i < parts.length; i++) {
+      const p = parts[i]
+      if (!p.includes('{')) continue
+      // leave drive letters and UNC roots to the expanded set
+      if (this.isWindows && i < 4) return false
+      const split = splitBraces(p)
+      if (!split) return false
+      pieces.set(p, split)
+    }
+    this.#globSet = this.#globParts = this.#set = undefined
+    // nothing is expanded, but what would be is limited all the same
+    const { limits } = options
+    if (
+      limits?.braceExpansions !== undefined ||
+      limits?.setEntries !== undefined
+    ) {
+      const n = countBraceExpansions(pattern, options)
+      assertWithinLimit(pattern, options, 'braceExpansions', n)
+      assertWithinLimit(pattern, options, 'setEntries', n)
+    }
+    const globParts = this.preprocess([parts])
+    this.debug(this.pattern, globParts)
+    this.#assertWithinLimits(globParts)
+    this.#matchSet = this.#compile(false, globParts, p => {
+      const split = pieces.get(p)
+      if (!split) return this.parse(p)
+      // the brace sets are @(...) extglobs, so this is always magic
+      const re = AST.fromBracePieces(split, options).toMMPattern() as MMRegExp
+      this.#braceParts.set(re, split)
+      return split.some(isStepped) ? withSteps(re, split, options) : re
+    })
+    this.debug(this.pattern, this.#matchSet)
+    return true
+  }
+
+  // check the size of the set before it is compiled
+  #assertWithinLimits(globParts: string[][]) {
+    const { pattern, options } = this
+    assertWithinLimit(pattern, options, 'setEntries', globParts.length)
+    for (const parts of globParts) {
+      const globstars = parts.filter(p => p === '**').length
+      assertWithinLimit(pattern, options, 'globstars', globstars)
+    }
+  }
+
+  // turn the preprocessed globParts into a set of strings, regexps, and
+  // GLOBSTAR markers.  If capture is set, then the regexps get a
+  // capturing group for each magic token.
+  #compile(
+    capture: boolean,
+    globParts: string[][] = this.globParts,
+    parse = (p: string) => this.parse(p, capture)
+  ): ParseReturnFiltered[][] {
+    let set = globParts.map((s, _, __) => {
       if (this.isWindows && this.windowsNoMagicRoot) {
         // check if it's a drive or unc path.
         const isUNC =
@@ -410,29 +1010,29 @@ export class Minimatch {
           !globMagic.test(s[3])
         const isDrive = /^[a-z]:/i.test(s[0])
         if (isUNC) {
-          return [...s.slice(0, 4), ...s.slice(4).map(ss => this.parse(ss))]
+          return [...s.slice(0, 4), ...s.slice(4).map(parse)]
         } else if (isDrive) {
-          return [s[0], ...s.slice(1).map(ss => this.parse(ss))]
+          return [s[0], ...s.slice(1).map(parse)]
         }
       }
-      return s.map(ss => this.parse(ss))
+      return s.map(parse)
     })
 
     this.debug(this.pattern, set)
 
     // filter out everything that didn't compile properly.
-    this.set = set.filter(
+    const filtered = set.filter(
       s => s.indexOf(false) === -1
     ) as ParseReturnFiltered[][]
 
     // do not treat the ? in UNC paths as magic
     if (this.isWindows) {
-      for (let i = 0; i < this.set.length; i++) {
-        const p = this.set[i]
+      for (let i = 0; i < filtered.length; i++) {
+        const p = filtered[i]
         if (
           p[0] === '' &&
           p[1] === '' &&
-          this.globParts[i][2] === '?' &&
+          globParts[i][2] === '?' &&
           typeof p[3] === 'string' &&
           /^[a-z]:$/i.test(p[3])
         ) {
@@ -441,7 +1041,38 @@ export class Minimatch {
       }
     }
 
-    this.debug(this.pattern, this.set)
+    return filtered
+  }
+
+  // the set, compiled with capturing groups, only built when needed
+  #captureSet?: ParseReturnFiltered[][]
+  get captureSet(): ParseReturnFiltered[][] {
+    if (!this.#captureSet) this.#captureSet = this.#compile(true)
+    return this.#captureSet
+  }
+
+  // the captureSet for nocase: 'fold', to test against path portions
+  // that are not folded.  Anything with a case becomes a RegExp that
+  // folds the portion to compare it, except for drive letters, which are
+  // lower-cased in the path instead.
+  #foldCaptureSet?: ParseReturnFiltered[][]
+  get #foldedCaptureSet(): ParseReturnFiltered[][] {
+    if (this.#foldCaptureSet) return this.#foldCaptureSet
+    const { locale } = this.options
+    const fold = (p: ParseReturnFiltered): ParseReturnFiltered => {
+      if (p === GLOBSTAR) return p
+      if (typeof p !== 'string') {
+        return Object.assign(new FoldCaptureRegExp(p.source, p.flags, locale), {
+          _src: p._src,
+          _glob: p._glob,
+        })
+      }
+      const drive = this.isWindows && /^[a-z]:$/.test(p)
+      return drive || p.toUpperCase() === p
+        ? p
+        : new FoldCaptureRegExp('^' + regExpEscape(p) + '$', '', locale)
+    }
+    return (this.#foldCaptureSet = this.captureSet.map(p => p.map(fold)))
   }
 
   // various transforms to equivalent pattern sets that are
@@ -749,14 +1380,11 @@ export class Minimatch {
     this.negate = negate
   }
 
-  // set partial to true to test if, for example,
-  // "/a/b" matches the start of "/*/b/*/d"
-  // Partial means, if you run out of file before you run
-  // out of pattern, then that's fine, as long as all
-  // the parts match.
-  matchOne(file: string[], pattern: ParseReturn[], partial: boolean = false) {
-    const options = this.options
-
+  // normalize the file and pattern before walking them in matchOne
+  #prepareMatchOne(
+    file: string[],
+    pattern: ParseReturn[]
+  ): [file: string[], pattern: ParseReturn[]] {
     // a UNC pattern like //?/c:/* can match a path like c:/x
     // and vice versa
     if (this.isWindows) {
@@ -801,6 +1429,27 @@ export class Minimatch {
     if (optimizationLevel >= 2) {
       file = this.levelTwoFileOptimize(file)
     }
+    return [file, pattern]
+  }
+
+  // set partial to true to test if, for example,
+  // "/a/b" matches the start of "/*/b/*/d"
+  // Partial means, if you run out of file before you run
+  // out of pattern, then that's fine, as long as all
+  // the parts match.
+  //
+  // If a captures array is provided, then the portion of the file matched
+  // by each GLOBSTAR, and each capturing group in the regexps, is pushed
+  // onto it.  Its contents are meaningless if the match fails.
+  matchOne(
+    file: string[],
+    pattern: ParseReturn[],
+    partial: boolean = false,
+    captures?: string[]
+  ) {
+    const options = this.options
+
+    ;[file, pattern] = this.#prepareMatchOne(file, pattern)
 
     this.debug('matchOne', this, { file, pattern })
     this.debug('matchOne', file.length, pattern.length)
@@ -867,6 +1516,7 @@ export class Minimatch {
             )
               return false
           }
+          captures?.push(file.slice(fr).join('/'))
           return true
         }
 
@@ -877,9 +1527,13 @@ export class Minimatch {
           this.debug('\nglobstar while', file, fr, pattern, pr, swallowee)
 
           // XXX remove this slice.  Just pass the start index.
-          if (this.matchOne(file.slice(fr), pattern.slice(pr), partial)) {
+          const sub: string[] | undefined = captures && []
+          if (this.matchOne(file.slice(fr), pattern.slice(pr), partial, sub)) {
             this.debug('globstar found match!', fr, fl, swallowee)
             // found a match.
+            if (captures && sub) {
+              captures.push(file.slice(fi, fr).join('/'), ...sub)
+            }
             return true
           } else {
             // can't swallow "." or ".." ever.
@@ -906,6 +1560,7 @@ export class Minimatch {
           // ran out of file
           this.debug('\n>>> no match, partial?', file, fr, pattern, pr)
           if (fr === fl) {
+            captures?.push(file.slice(fi).join('/'))
             return true
           }
         }
@@ -920,6 +1575,11 @@ export class Minimatch {
       if (typeof p === 'string') {
         hit = f === p
         this.debug('string match', p, f, hit)
+      } else if (captures) {
+        const m = p.exec(f)
+        hit = !!m
+        if (m) captures.push(...m.slice(1).map(c => c || ''))
+        this.debug('pattern capture', p, f, m)
       } else {
         hit = p.test(f)
         this.debug('pattern match', p, f, hit)
@@ -965,10 +1625,10 @@ export class Minimatch {
   }
 
   braceExpand() {
-    return braceExpand(this.pattern, this.options)
+    return braceExpand(this.pattern, this.#partOptions)
   }
 
-  parse(pattern: string): ParseReturn {
+  parse(pattern: string, capture: boolean = false): ParseReturn {
     assertValidPattern(pattern)
 
     const options = this.options
@@ -977,40 +1637,9 @@ export class Minimatch {
     if (pattern === '**') return GLOBSTAR
     if (pattern === '') return ''
 
-    // far and away, the most common glob pattern parts are
-    // *, *.*, and *.<ext>  Add a fast check method for those.
-    let m: RegExpMatchArray | null
-    let fastTest: null | ((f: string) => boolean) = null
-    if ((m = pattern.match(starRE))) {
-      fastTest = options.dot ? starTestDot : starTest
-    } else if ((m = pattern.match(starDotExtRE))) {
-      fastTest = (
-        options.nocase
-          ? options.dot
-            ? starDotExtTestNocaseDot
-            : starDotExtTestNocase
-          : options.dot
-          ? starDotExtTestDot
-          : starDotExtTest
-      )(m[1])
-    } else if ((m = pattern.match(qmarksRE))) {
-      fastTest = (
-        options.nocase
-          ? options.dot
-            ? qmarksTestNocaseDot
-            : qmarksTestNocase
-          : options.dot
-          ? qmarksTestDot
-          : qmarksTest
-      )(m)
-    } else if ((m = pattern.match(starDotStarRE))) {
-      fastTest = options.dot ? starDotStarTestDot : starDotStarTest
-    } else if ((m = pattern.match(dotStarRE))) {
-      fastTest = dotStarTest
-    }
-
-    const re = AST.fromGlob(pattern, this.options).toMMPattern()
-    return fastTest ? Object.assign(re, { test: fastTest }) : re
+    const test = fastTest(pattern, options)
+    const re = AST.fromGlob(pattern, this.#partOptions).toMMPattern(capture)
+    return test ? Object.assign(re, { test }) : re
   }
 
   makeRe() {
@@ -1022,19 +1651,23 @@ export class Minimatch {
     // It's better to use .match().  This function shouldn't
     // be used, really, but it's pretty convenient sometimes,
     // when you just want to work with a regex.
-    const set = this.set
+    const options = this.options
+    const set = options.capture ? this.captureSet : this.#matchSet || this.set
 
     if (!set.length) {
       this.regexp = false
       return this.regexp
     }
-    const options = this.options
 
     const twoStar = options.noglobstar
       ? star
       : options.dot
       ? twoStarDot
       : twoStarNoDot
+    // when capturing, each ** gets a group for the segments it spans
+    const twoStarGroup = !options.capture
+      ? twoStar
+      : '(' + (twoStar === twoStarDot ? twoStarDotNoGroup : twoStar) + ')'
     const flags = new Set(options.nocase ? ['i'] : [])
 
     // regexpify non-globstar patterns
@@ -1053,6 +1686,8 @@ export class Minimatch {
             ? regExpEscape(p)
             : p === GLOBSTAR
             ? GLOBSTAR
+            : p._steps
+            ? listSteps(this.#braceParts.get(p) as BracePiece[], options)
             : p._src
         }) as (string | typeof GLOBSTAR)[]
         pp.forEach((p, i) => {
@@ -1063,14 +1698,18 @@ export class Minimatch {
           }
           if (prev === undefined) {
             if (next !== undefined && next !== GLOBSTAR) {
-              pp[i + 1] = '(?:\\/|' + twoStar + '\\/)?' + next
+              pp[i + 1] = '(?:\\/|' + twoStarGroup + '\\/)?' + next
             } else {
-              pp[i] = twoStar
+              pp[i] = twoStarGroup
             }
           } else if (next === undefined) {
-            pp[i - 1] = prev + '(?:\\/|' + twoStar + ')?'
+            pp[i - 1] =
+              prev +
+              (options.capture
+                ? '(?:\\/|\\/?' + twoStarGroup + ')?'
+                : '(?:\\/|' + twoStar + ')?')
           } else if (next !== GLOBSTAR) {
-            pp[i - 1] = prev + '(?:\\/|\\/' + twoStar + '\\/)' + next
+            pp[i - 1] = prev + '(?:\\/|\\/' + twoStarGroup + '\\/)' + next
             pp[i + 1] = GLOBSTAR
           }
         })
@@ -1087,9 +1726,29 @@ export class Minimatch {
 
     // can match anything, as long as it's not this.
     if (this.negate) re = '^(?!' + re + ').+$'
+    assertWithinLimit(this.pattern, options, 'regexpLength', re.length)
+
+    // engines without lookarounds get the same language, written out
+    // without them.  The groups and the case folding can't be kept.
+    if (options.regexDialect === 're2') {
+      if (options.capture || options.nocase === 'fold') {
+        throw new TypeError(
+          `regexDialect 're2' cannot be used with the ${
+            options.capture ? 'capture' : "nocase: 'fold'"
+          } option`
+        )
+      }
+      const regexp = toRE2(re, [...flags].join(''))
+      const { length } = regexp.source
+      assertWithinLimit(this.pattern, options, 'regexpLength', length)
+      return (this.regexp = regexp)
+    }
 
     try {
-      this.regexp = new RegExp(re, [...flags].join(''))
+      this.regexp =
+        options.nocase === 'fold'
+          ? new CaseFoldRegExp(re, [...flags].join(''), options.locale)
+          : new RegExp(re, [...flags].join(''))
       /* c8 ignore start */
     } catch (ex) {
       // should be impossible
@@ -1114,7 +1773,87 @@ export class Minimatch {
     }
   }
 
-  match(f: string, partial = this.partial) {
+  // Match the path against the pattern, and return the portion of the
+  // path matched by each magic token, in pattern order.  A ** token
+  // captures the path segments that it spans, joined with /.
+  // Returns undefined if the path does not match.  Negated patterns have
+  // nothing to capture, so they return an empty array when they match.
+  capture(f: string, partial = this.partial): string[] | undefined {
+    // with nocase: 'fold', the path is only folded to compare it, so
+    // that what is captured is the text of the path as it was given
+    const fold = this.options.nocase === 'fold'
+    f = this.#normalizePath(f, !fold)
+    this.debug('capture', f, this.pattern)
+    if (this.comment) {
+      return undefined
+    }
+    if (this.empty) {
+      return f === '' ? [] : undefined
+    }
+    if (this.negate) {
+      return this.match(f, partial) ? [] : undefined
+    }
+
+    if (f === '/' && partial) {
+      return []
+    }
+
+    // windows: need to use /, not \
+    if (this.isWindows) {
+      f = f.split('\\').join('/')
+    }
+
+    let ff = this.slashSplit(f)
+    if (fold && this.isWindows) {
+      ff = ff.map(s => (/^[a-z]:$/i.test(s) ? s.toLowerCase() : s))
+    }
+    let filename: string = ff[ff.length - 1]
+    if (!filename) {
+      for (let i = ff.length - 2; !filename && i >= 0; i--) {
+        filename = ff[i]
+      }
+    }
+
+    for (const pattern of fold ? this.#foldedCaptureSet : this.captureSet) {
+      const file =
+        this.options.matchBase && pattern.length === 1 ? [filename] : ff
+      const captures: string[] = []
+      if (this.matchOne(file, pattern, partial, captures)) {
+        return captures
+      }
+    }
+    return undefined
+  }
+
+  // Map a path matching this pattern onto a template, where $1, $2, etc.
+  // (or ${1}, ${2}, etc.) are replaced by the text captured by each magic
+  // token, ${name} by the capture with that name in the names list,
+  // $& by the whole path, and $$ by a literal $.
+  // Returns undefined if the path does not match.
+  replace(
+    f: string,
+    template: string,
+    names: string[] = []
+  ): string | undefined {
+    const captures = this.capture(f)
+    if (!captures) return undefined
+    const backslashes = this.isWindows && f.includes('\\')
+    if (backslashes) f = f.split('\\').join('/')
+    const result = expandTemplate(template, f, captures, names)
+    // windows: give back the same kind of separator we were given
+    return backslashes ? result.split('/').join('\\') : result
+  }
+
+  // put a path in the same form as the pattern, for the unicodeNormalize
+  // and nocase: 'fold' options
+  #normalizePath(f: string, fold: boolean = true) {
+    const { unicodeNormalize, nocase, locale } = this.options
+    if (unicodeNormalize) f = f.normalize(unicodeNormalize)
+    return fold && nocase === 'fold' ? caseFold(f, locale) : f
+  }
+
+  match(f: string | Uint8Array, partial = this.partial) {
+    f = this.#normalizePath(pathString(f))
     this.debug('match', f, this.pattern)
     // short-circuit in the case of busted things.
     // comments, etc.
@@ -1145,7 +1884,7 @@ export class Minimatch {
     // match means that we have failed.
     // Either way, return on the first hit.
 
-    const set = this.set
+    const set = this.#matchSet || this.set
     this.debug(this.pattern, 'set', set)
 
     // Find the basename of the path by looking for the last non-empty segment
@@ -1162,7 +1901,17 @@ export class Minimatch {
       if (options.matchBase && pattern.length === 1) {
         file = [filename]
       }
-      const hit = this.matchOne(file, pattern, partial)
+      const hit =
+        options.engine === 'nfa'
+          ? nfaMatchOne(
+              ...(this.#prepareMatchOne(file, pattern) as [
+                string[],
+                ParseReturnFiltered[]
+              ]),
+              partial,
+              !!options.dot
+            )
+          : this.matchOne(file, pattern, partial)
       if (hit) {
         if (options.flipNegate) {
           return true
@@ -1179,16 +1928,512 @@ export class Minimatch {
     return this.negate
   }
 
+  // Explain how match() arrives at its result for a given path.  This
+  // walks the set the same way as match() and matchOne(), recording how
+  // each path segment lines up with each pattern part, and where it
+  // failed.
+  explain(f: string, partial = this.partial): MatchExplanation {
+    f = this.#normalizePath(f)
+    const options = this.options
+    const report: MatchExplanation = {
+      pattern: this.pattern,
+      path: f,
+      comment: this.comment,
+      empty: this.empty,
+      negate: this.negate,
+      flipNegate: !!options.flipNegate,
+      partial,
+      globSet: this.globSet,
+      optimizations: this.#explainOptimizations(),
+      entries: [],
+      matched: false,
+      result: this.match(f, partial),
+    }
+    if (this.comment || this.empty || (f === '/' && partial)) {
+      report.matched = report.result
+      return report
+    }
+
+    if (this.isWindows) {
+      f = f.split('\\').join('/')
+    }
+    const ff = this.slashSplit(f)
+    let filename: string = ff[ff.length - 1]
+    if (!filename) {
+      for (let i = ff.length - 2; !filename && i >= 0; i--) {
+        filename = ff[i]
+      }
+    }
+
+    for (let i = 0; i < this.set.length; i++) {
+      const pattern = this.set[i]
+      const matchBase = !!options.matchBase && pattern.length === 1
+      // copy, because matchOne may modify UNC roots in place
+      const file = matchBase ? [filename] : ff.slice()
+      const entry: MatchExplainEntry = {
+        index: i,
+        glob: this.globParts[i].join('/'),
+        pattern,
+        file,
+        matchBase,
+        ...this.#explainOne(file, pattern.slice(), partial),
+      }
+      report.entries.push(entry)
+      if (entry.hit) {
+        report.matched = true
+        break
+      }
+    }
+    return report
+  }
+
+  // figure out which preprocess() passes changed the patterns
+  #explainOptimizations(): string[] {
+    if (this.comment || this.empty) return []
+    const { optimizationLevel = 1 } = this.options
+    const passes: [string, (g: string[][]) => string[][]][] = []
+    if (this.options.noglobstar) {
+      passes.push([
+        'noglobstar',
+        g => g.map(p => p.map(s => (s === '**' ? '*' : s))),
+      ])
+    }
+    if (optimizationLevel >= 2) {
+      passes.push(['firstPhasePreProcess', g => this.firstPhasePreProcess(g)])
+      passes.push(['secondPhasePreProcess', g => this.secondPhasePreProcess(g)])
+    } else if (optimizationLevel >= 1) {
+      passes.push(['levelOneOptimize', g => this.levelOneOptimize(g)])
+    } else {
+      passes.push([
+        'adjascentGlobstarOptimize',
+        g => this.adjascentGlobstarOptimize(g),
+      ])
+    }
+    const names: string[] = []
+    let globParts = this.globSet.map(s => this.slashSplit(s))
+    for (const [name, pass] of passes) {
+      const before = JSON.stringify(globParts)
+      // the passes modify their arguments, so give them a copy
+      globParts = pass(JSON.parse(before))
+      if (JSON.stringify(globParts) !== before) names.push(name)
+    }
+    return names
+  }
+
+  // walk a single set entry like matchOne, but keep track of the steps
+  #explainOne(
+    file: string[],
+    pattern: ParseReturnFiltered[],
+    partial: boolean
+  ): Pick<MatchExplainEntry, 'hit' | 'steps' | 'failure'> {
+    const options = this.options
+    const steps: MatchExplainStep[] = []
+    ;[file, pattern] = this.#prepareMatchOne(file, pattern) as [
+      string[],
+      ParseReturnFiltered[]
+    ]
+    const fl = file.length
+    const pl = pattern.length
+    const cannotSwallow = (s: string) =>
+      s === '.' || s === '..' || (!options.dot && s.charAt(0) === '.')
+    let fi = 0
+    let pi = 0
+    while (fi < fl && pi < pl) {
+      const p = pattern[pi]
+      if (p === GLOBSTAR) {
+        const step: MatchExplainStep = {
+          kind: 'globstar',
+          patternIndex: pi,
+          pattern: p,
+          fileIndex: fi,
+          file: [],
+          hit: false,
+        }
+        steps.push(step)
+        if (pi === pl - 1) {
+          // a ** at the end swallows the rest
+          step.file = file.slice(fi)
+          step.hit = !step.file.some(cannotSwallow)
+          return step.hit
+            ? { hit: true, steps }
+            : {
+                hit: false,
+                steps,
+                failure: '** cannot match ., .., or dot files without dot:true',
+              }
+        }
+        let fr = fi
+        let found = false
+        while (fr < fl) {
+          if (this.matchOne(file.slice(fr), pattern.slice(pi + 1), partial)) {
+            found = true
+            break
+          }
+          if (cannotSwallow(file[fr])) break
+          fr++
+        }
+        step.file = file.slice(fi, fr)
+        if (!found && !(partial && fr === fl)) {
+          return {
+            hit: false,
+            steps,
+            failure:
+              '** could not swallow enough segments for the rest of the ' +
+              'pattern to match',
+          }
+        }
+        step.hit = true
+        fi = fr
+        pi++
+        continue
+      }
+
+      const f = file[fi]
+      const hit = typeof p === 'string' ? f === p : p.test(f)
+      steps.push({
+        kind: typeof p === 'string' ? 'string' : 'regexp',
+        patternIndex: pi,
+        pattern: p,
+        fileIndex: fi,
+        file: [f],
+        hit,
+      })
+      if (!hit) {
+        return {
+          hit: false,
+          steps,
+          failure: `path segment ${JSON.stringify(f)} does not match ${
+            typeof p === 'string' ? JSON.stringify(p) : p
+          }`,
+        }
+      }
+      fi++
+      pi++
+    }
+
+    if (fi === fl && pi === pl) {
+      return { hit: true, steps }
+    } else if (fi === fl) {
+      return partial
+        ? { hit: true, steps }
+        : {
+            hit: false,
+            steps,
+            failure: 'ran out of path segments before the end of the pattern',
+          }
+    } else if (fi === fl - 1 && file[fi] === '') {
+      // a/* matches a/b/
+      return { hit: true, steps }
+    }
+    return {
+      hit: false,
+      steps,
+      failure: 'path has segments left over after the end of the pattern',
+    }
+  }
+
+  // A plain object that captures everything match() needs, so that it
+  // can be cached, or sent to a worker thread.
+  toJSON(): MinimatchJSON {
+    return {
+      version: MINIMATCH_JSON_VERSION,
+      pattern: this.pattern,
+      options: { ...this.options, platform: this.platform },
+      negate: this.negate,
+      comment: this.comment,
+      empty: this.empty,
+      globSet: this.globSet,
+      globParts: this.globParts,
+      set: this.set.map(pattern =>
+        pattern.map(p =>
+          p === GLOBSTAR
+            ? { globstar: true }
+            : typeof p === 'string'
+            ? p
+            : { source: p.source, flags: p.flags, _src: p._src, _glob: p._glob }
+        )
+      ),
+    }
+  }
+
+  // Rebuild a Minimatch object from the result of toJSON(), without
+  // parsing the pattern again.  The options are exactly the ones that
+  // were saved, so defaults() does not apply.
+  static fromJSON(json: MinimatchJSON | string): Minimatch {
+    const data: MinimatchJSON =
+      typeof json === 'string' ? JSON.parse(json) : json
+    if (!data || data.version !== MINIMATCH_JSON_VERSION) {
+      throw new TypeError(
+        `unsupported Minimatch JSON version: ${data && data.version}`
+      )
+    }
+    hydrating = data
+    try {
+      return new Minimatch(data.pattern, data.options)
+    } finally {
+      hydrating = undefined
+    }
+  }
+
+  #hydrate(data: MinimatchJSON) {
+    this.negate = data.negate
+    this.comment = data.comment
+    this.empty = data.empty
+    this.globSet = data.globSet
+    this.globParts = data.globParts
+    this.set = data.set.map(pattern =>
+      pattern.map(p => {
+        if (typeof p === 'string') return p
+        if ('globstar' in p) return GLOBSTAR
+        const re: MMRegExp = Object.assign(new RegExp(p.source, p.flags), {
+          _src: p._src,
+          _glob: p._glob,
+        })
+        // engine: 'nfa' builds its DFAs from the AST, not the source
+        if (this.options.engine === 'nfa' && p._glob !== undefined) {
+          re._ast = AST.fromGlob(p._glob, this.#partOptions)
+        }
+        const test = p._glob && fastTest(p._glob, this.options)
+        return test ? Object.assign(re, { test }) : re
+      })
+    )
+    if (this.options.debug) {
+      this.debug = (...args: any[]) => console.error(...args)
+    }
+  }
+
+  // Find the literal directory that each entry in the set starts from,
+  // for walkers and watchers that need to know where to look.  The set
+  // is already unescaped, and literal portions are only regexps when
+  // nocase (or a root with windowsNoMagicRoot:false) requires it.
+  bases(): PatternBase[] {
+    return this.set.map(pattern => {
+      // with matchBase, a single portion can be at any depth
+      if (this.options.matchBase && pattern.length === 1) {
+        return { base: '', rest: pattern, recursive: true, depth: Infinity }
+      }
+      let n = 0
+      while (n < pattern.length && typeof pattern[n] === 'string') n++
+      // a trailing / on a literal pattern is not part of its base
+      if (n === pattern.length && n > 1 && pattern[n - 1] === '') n--
+      const lit = pattern.slice(0, n) as string[]
+      const rest = pattern.slice(n)
+
+      let base = lit.join('/')
+      if (rest.length) {
+        // just the root is literal: /, c:/, //host/share/ or //?/c:/
+        const unc = lit[0] === '' && lit[1] === ''
+        if (
+          (n === 1 && lit[0] === '') ||
+          (this.isWindows &&
+            ((n === 1 && /^[a-z]:$/i.test(lit[0])) || (unc && n === 4)))
+        ) {
+          base += '/'
+        }
+      }
+
+      const recursive = rest.includes(GLOBSTAR)
+      const depth = recursive
+        ? Infinity
+        : rest.length - (rest[rest.length - 1] === '' ? 1 : 0)
+      return { base, rest, recursive, depth }
+    })
+  }
+
+  // Reduce the pattern to a canonical form.  All of the preprocess()
+  // passes are applied, regardless of the optimizationLevel, along with
+  // dropping any leading ./ portions, so that two patterns with the same
+  // canonical form match the same paths once those paths are normalized
+  // the way optimizationLevel 2 does.  The remaining brace-expanded
+  // patterns are deduped, sorted, and joined back into a single brace
+  // set, after re-serializing each portion from its AST.
+  toCanonical(): string {
+    return this.#canonical(2)
+  }
+
+  // Below optimizationLevel 2, . and .. portions in the path are matched
+  // as they are, so only the passes for that level are applied.
+  #canonical(optimizationLevel: number): string {
+    if (this.comment || this.empty) return this.pattern
+    let globParts = this.globParts.map(parts => [...parts])
+    if (optimizationLevel >= 2) {
+      globParts = this.levelOneOptimize(globParts)
+      globParts = this.firstPhasePreProcess(globParts).map(parts => {
+        // ./<rest> -> <rest>, but ./ is left alone, as is .//<rest> when
+        // preserveMultipleSlashes keeps the empty portion
+        while (parts.length > 1 && parts[0] === '.' && parts[1] !== '') {
+          parts.shift()
+        }
+        return parts
+      })
+      globParts = this.secondPhasePreProcess(globParts)
+    } else if (optimizationLevel >= 1) {
+      globParts = this.levelOneOptimize(globParts)
+    }
+    globParts = this.adjascentGlobstarOptimize(globParts)
+    const globs = [
+      ...new Set(
+        globParts.map(parts =>
+          parts
+            .map(p =>
+              p === '**' ? p : AST.fromGlob(p, this.#partOptions).toString()
+            )
+            .join('/')
+        )
+      ),
+    ].sort()
+
+    // escape anything that brace expansion would otherwise eat.  Where \
+    // is a path separator, a brace or a comma can't be escaped, so the
+    // globs are only joined if they expand back to what they were, and
+    // the pattern is left as it is if not.
+    const noEscape = this.windowsPathsNoEscape
+    const braceEscape = (s: string) =>
+      noEscape ? s : s.replace(/[\\{},]/g, '\\$&')
+    let glob: string
+    if (globs.length > 1) {
+      glob = '{' + globs.map(braceEscape).join(',') + '}'
+    } else {
+      glob = globs[0]
+      if (!this.options.nobrace && /\{(?:(?!\{).)*\}/.test(glob)) {
+        glob = braceEscape(glob)
+      }
+    }
+    if (noEscape && !this.#expandsTo(glob, globs)) return this.pattern
+    if (globs.length === 1) {
+      const c = glob.charAt(0)
+      if (
+        (c === '!' && !this.nonegate) ||
+        (c === '#' && !this.options.nocomment)
+      ) {
+        // [!] would start a negated class, so a ! is @(!) instead
+        if (!noEscape) glob = '\\' + glob
+        else if (c === '#') glob = '[#]' + glob.substring(1)
+        else if (!this.options.noext) glob = '@(!)' + glob.substring(1)
+        else return this.pattern
+      }
+    }
+    return (this.negate ? '!' : '') + glob
+  }
+
+  // whether brace expansion turns a glob back into exactly these globs
+  #expandsTo(glob: string, globs: string[]): boolean {
+    const o = { ...this.#partOptions, limits: undefined }
+    const expanded = [...new Set(braceExpand(glob, o))].sort()
+    return (
+      expanded.length === globs.length &&
+      expanded.every((g, i) => g === globs[i])
+    )
+  }
+
+  // A stable hash of the canonical form, and of the options that change
+  // what it matches, suitable for use as a cache key.
+  fingerprint(): string {
+    const o = this.options
+    const { optimizationLevel = 1 } = o
+    const level = optimizationLevel >= 2 ? 2 : optimizationLevel >= 1 ? 1 : 0
+    const semantics = {
+      platform: this.isWindows ? 'win32' : 'posix',
+      nocase: o.nocase === 'fold' ? 'fold' : this.nocase,
+      locale: o.nocase === 'fold' ? o.locale : undefined,
+      nocaseMagicOnly: !!o.nocaseMagicOnly,
+      windowsNoMagicRoot: this.windowsNoMagicRoot,
+      dot: !!o.dot,
+      noext: !!o.noext,
+      noglobstar: !!o.noglobstar,
+      nobrace: !!o.nobrace,
+      nocomment: !!o.nocomment,
+      nonegate: this.nonegate,
+      flipNegate: !!o.flipNegate,
+      matchBase: !!o.matchBase,
+      partial: this.partial,
+      preserveMultipleSlashes: this.preserveMultipleSlashes,
+      optimizationLevel: level,
+      // allowWindowsEscape: false is the same as windowsPathsNoEscape
+      windowsPathsNoEscape: this.windowsPathsNoEscape,
+      // left out of the JSON when unset
+      unicodeNormalize: o.unicodeNormalize,
+    }
+    return fnv1a64(JSON.stringify([this.#canonical(level), semantics]))
+  }
+
   static defaults(def: MinimatchOptions) {
     return minimatch.defaults(def).Minimatch
   }
 }
 /* c8 ignore start */
+export { equivalent, intersects, isSubset } from './analyze.js'
+export {
+  GlobLimitError,
+  GlobSyntaxError,
+  RegExpDialectError,
+} from './assert-valid-pattern.js'
+export type { PatternComparison } from './analyze.js'
 export { AST } from './ast.js'
+export { decodePath, encodePath } from './bytes.js'
+export { CodeOwners } from './codeowners.js'
+export type {
+  CodeOwnersMatch,
+  CodeOwnersResult,
+  CodeOwnersRule,
+  CodeOwnersSection,
+} from './codeowners.js'
+export { CompileCache, compileCache } from './compile-cache.js'
 export { escape } from './escape.js'
+export { filterIterable } from './filter-iterable.js'
+export type { FilterOptions } from './filter-iterable.js'
+export { GitIgnore } from './ignore.js'
+export type {
+  IgnoreRule,
+  IgnoreTestOptions,
+  IgnoreTestResult,
+} from './ignore.js'
+export { lint } from './lint.js'
+export type { LintCode, LintDiagnostic, LintSeverity } from './lint.js'
+export { compileMany, MinimatchSet } from './minimatch-set.js'
+export { translate } from './translate.js'
+export type { TranslateDialect, Translation } from './translate.js'
+export { parseTree, tree, treeToString, walkTree } from './tree.js'
+export type {
+  AlternativeNode,
+  BraceNode,
+  ClassNode,
+  ExtglobNode,
+  GlobNode,
+  GlobstarNode,
+  LiteralNode,
+  ParentNode,
+  PatternNode,
+  QmarkNode,
+  RangeNode,
+  SeparatorNode,
+  StarNode,
+  TreeChild,
+  TreeVisitor,
+} from './tree.js'
 export { unescape } from './unescape.js'
 /* c8 ignore stop */
 minimatch.AST = AST
+minimatch.GlobSyntaxError = GlobSyntaxError
+minimatch.GlobLimitError = GlobLimitError
+minimatch.RegExpDialectError = RegExpDialectError
 minimatch.Minimatch = Minimatch
+minimatch.GitIgnore = GitIgnore
+minimatch.CodeOwners = CodeOwners
+minimatch.MinimatchSet = MinimatchSet
+minimatch.compileMany = compileMany
+minimatch.compileCache = compileCache
+minimatch.isSubset = isSubset
+minimatch.intersects = intersects
+minimatch.equivalent = equivalent
+minimatch.lint = lint
+minimatch.parseTree = parseTree
+minimatch.walkTree = walkTree
+minimatch.treeToString = treeToString
+minimatch.tree = tree
+minimatch.translate = translate
+minimatch.filterIterable = filterIterable
+minimatch.decodePath = decodePath
+minimatch.encodePath = encodePath
 minimatch.escape = escape
 minimatch.unescape = unescape
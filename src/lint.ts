@@ -0,0 +1,226 @@
+// Find things in a pattern that are allowed, but are probably not what
+// was meant: the parts that are quietly matched literally, or mean
+// something other than they look like they do.
+//
+// Each path portion is scanned the way that AST and parseClass read it,
+// so that the offsets point at the characters that were misread.
+
+import { assertValidPattern } from './assert-valid-pattern.js'
+import { parseClass } from './brace-expressions.js'
+import { MinimatchOptions } from './index.js'
+import { closeBrace, starsEnd, topLevelCommas } from './scan.js'
+
+export type LintSeverity = 'error' | 'warning' | 'info'
+
+export type LintCode =
+  | 'comment'
+  | 'leading-dot-slash'
+  | 'backslash'
+  | 'globstar-not-alone'
+  | 'unclosed-class'
+  | 'empty-class'
+  | 'unclosed-extglob'
+  | 'empty-brace-alternative'
+
+export interface LintDiagnostic {
+  /**
+   * `error` if some part of the pattern can never match what it looks
+   * like it would, `warning` if it is probably a mistake, and `info`
+   * if it is only unusual.
+   */
+  severity: LintSeverity
+  code: LintCode
+  message: string
+  /** The offset in the pattern of the first character it is about */
+  start: number
+  /** The offset in the pattern just past the last character */
+  end: number
+}
+
+const extglobTypes = new Set(['!', '?', '+', '*', '@'])
+// characters that are worth escaping
+const globSpecial = new Set('\\*?[]{}()!@+|,#')
+
+// whether the brace set from i to end has a , and an empty alternative
+const hasEmptyAlternative = (s: string, i: number, end: number) => {
+  const bounds = [i, ...topLevelCommas(s, i + 1, end), end]
+  return bounds.length > 2 && bounds.some((b, k) => bounds[k + 1] === b + 1)
+}
+
+/**
+ * Check a pattern for things that are probably mistakes, and return a
+ * diagnostic for each one, in the order they appear in the pattern.
+ */
+export const lint = (
+  pattern: string,
+  options: MinimatchOptions = {}
+): LintDiagnostic[] => {
+  assertValidPattern(pattern)
+  const diagnostics: LintDiagnostic[] = []
+  const report = (
+    severity: LintSeverity,
+    code: LintCode,
+    message: string,
+    start: number,
+    end: number
+  ) => diagnostics.push({ severity, code, message, start, end })
+
+  if (!options.nocomment && pattern.charAt(0) === '#') {
+    report(
+      'warning',
+      'comment',
+      'a pattern starting with # is a comment, and matches nothing; ' +
+        'escape it as \\# to match a #',
+      0,
+      pattern.length
+    )
+    return diagnostics
+  }
+
+  // backslashes are path separators in this mode, so the offsets are
+  // the same with a / in their place
+  const noEscape =
+    !!options.windowsPathsNoEscape || options.allowWindowsEscape === false
+  if (noEscape) pattern = pattern.replace(/\\/g, '/')
+
+  let start = 0
+  if (!options.nonegate) {
+    while (pattern.charAt(start) === '!') start++
+  }
+
+  if (pattern.startsWith('./', start)) {
+    report(
+      'warning',
+      'leading-dot-slash',
+      'paths are not normalized, so a leading ./ only matches paths ' +
+        'that also start with ./',
+      start,
+      start + 2
+    )
+  }
+
+  for (let i = start; i < pattern.length; i++) {
+    const c = pattern.charAt(i)
+    if (c === '\\') {
+      const next = pattern.charAt(i + 1)
+      if (!globSpecial.has(next)) {
+        report(
+          'warning',
+          'backslash',
+          '\\ escapes the character after it, and is not a path ' +
+            'separator; use / or the windowsPathsNoEscape option',
+          i,
+          i + 1
+        )
+      }
+      i++
+    } else if (c === '{' && !options.nobrace && pattern.charAt(i - 1) !== '$') {
+      const end = closeBrace(pattern, i)
+      if (end !== -1 && hasEmptyAlternative(pattern, i, end)) {
+        report(
+          'info',
+          'empty-brace-alternative',
+          'brace set with an empty alternative, which matches the ' +
+            'pattern with nothing in its place',
+          i,
+          end + 1
+        )
+      }
+    }
+  }
+
+  let portionStart = start
+  for (const portion of pattern.substring(start).split('/')) {
+    lintPortion(portion, portionStart, options, report)
+    portionStart += portion.length + 1
+  }
+
+  return diagnostics.sort((a, b) => a.start - b.start)
+}
+
+const lintPortion = (
+  portion: string,
+  offset: number,
+  options: MinimatchOptions,
+  report: (
+    severity: LintSeverity,
+    code: LintCode,
+    message: string,
+    start: number,
+    end: number
+  ) => void
+) => {
+  // the offsets of the extglobs that are not closed yet
+  const extglobs: number[] = []
+  // after an unclosed [, AST does not look for extglobs any more, or
+  // for the ) that would close one
+  let inClass = false
+  for (let i = 0; i < portion.length; i++) {
+    const c = portion.charAt(i)
+    if (c === '\\') {
+      i++
+      continue
+    }
+    if (c === '[') {
+      const [src, , consumed] = parseClass(portion, i)
+      if (!consumed) {
+        report(
+          'error',
+          'unclosed-class',
+          '[ has no closing ], so it matches a literal [',
+          offset + i,
+          offset + i + 1
+        )
+        inClass = true
+      } else {
+        if (src === '$.') {
+          report(
+            'error',
+            'empty-class',
+            'character class can never match anything, so neither can ' +
+              'the rest of the path portion',
+            offset + i,
+            offset + i + consumed
+          )
+        }
+        i += consumed - 1
+      }
+      continue
+    }
+    const ext = !options.noext && !inClass
+    if (ext && extglobTypes.has(c) && portion.charAt(i + 1) === '(') {
+      extglobs.push(i)
+      i++
+      continue
+    }
+    if (c === ')' && !inClass && extglobs.length) {
+      extglobs.pop()
+      continue
+    }
+    if (c === '*' && portion !== '**' && !options.noglobstar) {
+      const run = starsEnd(portion, i, portion.length, ext) - i
+      if (run > 1) {
+        report(
+          'warning',
+          'globstar-not-alone',
+          '** is only a globstar when it is a whole path portion, ' +
+            'and here it is the same as *',
+          offset + i,
+          offset + i + run
+        )
+      }
+      i += run - 1
+    }
+  }
+  // an unfinished extglob is literal text, along with anything in it
+  if (extglobs.length) {
+    const i = extglobs[0]
+    report(
+      'error',
+      'unclosed-extglob',
+      `${portion.charAt(i)}( has no closing ), so it matches literally`,
+      offset + i,
+      offset + i + 2
+    )
+  }
+}
@@ -0,0 +1,259 @@
+// Match a path against many patterns at once.
+//
+// The entries in the sets of all the patterns are merged into a single
+// trie, keyed on the parsed path portions.  Literal portions are looked
+// up in a Map, so a path portion only has to be compared against the
+// magic portions at each level.  Identical magic portions are shared
+// across patterns, and the ones without a fast-path test are combined
+// into a single regexp that is used to skip all of them at once when
+// none of them can match.  ** is walked the same way as in matchOne(),
+// so a path is only split, and each portion only tested, once per trie
+// node, rather than once per pattern.
+
+import { caseFold } from './case-fold.js'
+import {
+  GLOBSTAR,
+  Minimatch,
+  MinimatchOptions,
+  MMRegExp,
+  ParseReturnFiltered,
+} from './index.js'
+
+// ** never swallows . or .., and only swallows dot files with dot:true
+const cannotSwallow = (s: string, dot?: boolean) =>
+  s === '.' || s === '..' || (!dot && s.charAt(0) === '.')
+
+// the fast-path tests in parse() are set as an own property
+const hasFastTest = (p: MMRegExp) =>
+  Object.prototype.hasOwnProperty.call(p, 'test')
+
+let nextId = 0
+class SetNode {
+  id = nextId++
+  literal = new Map<string, SetNode>()
+  magic = new Map<string, [MMRegExp, SetNode]>()
+  globstar?: SetNode
+  // patterns with an entry that ends here
+  ends: number[] = []
+  // patterns with an entry that continues past here, for partial matches
+  below: number[] = []
+  // the magic children, with a combined regexp in front of the ones
+  // that have no fast-path test, built once the trie is complete.
+  #groups?: [RegExp | null, [MMRegExp, SetNode][]][]
+
+  add(pattern: ParseReturnFiltered[], index: number) {
+    let node: SetNode = this
+    for (const p of pattern) {
+      node.below.push(index)
+      let next: SetNode | undefined
+      if (p === GLOBSTAR) {
+        next = node.globstar = node.globstar || new SetNode()
+      } else if (typeof p === 'string') {
+        next = node.literal.get(p)
+        if (!next) node.literal.set(p, (next = new SetNode()))
+      } else {
+        const key = `${hasFastTest(p) ? 'fast:' : ''}/${p.source}/${p.flags}`
+        const m = node.magic.get(key)
+        if (m) next = m[1]
+        else node.magic.set(key, [p, (next = new SetNode())])
+      }
+      node = next
+    }
+    node.ends.push(index)
+  }
+
+  get groups() {
+    if (this.#groups) return this.#groups
+    const fast: [MMRegExp, SetNode][] = []
+    const byFlags = new Map<string, [MMRegExp, SetNode][]>()
+    for (const m of this.magic.values()) {
+      if (hasFastTest(m[0])) {
+        fast.push(m)
+      } else {
+        const list = byFlags.get(m[0].flags)
+        if (list) list.push(m)
+        else byFlags.set(m[0].flags, [m])
+      }
+    }
+    const groups: [RegExp | null, [MMRegExp, SetNode][]][] = []
+    if (fast.length) groups.push([null, fast])
+    for (const [flags, list] of byFlags) {
+      const src = list.map(([p]) => p.source).join('|')
+      groups.push([
+        list.length > 1 ? new RegExp(`(?:${src})`, flags) : null,
+        list,
+      ])
+    }
+    return (this.#groups = groups)
+  }
+}
+
+export class MinimatchSet {
+  options: MinimatchOptions
+  patterns: string[]
+  /** The compiled Minimatch object for each pattern */
+  matchers: Minimatch[]
+  partial: boolean
+
+  #root = new SetNode()
+  #baseRoot = new SetNode()
+  // entries that need matchOne() to line up windows drive letters and
+  // UNC roots between the pattern and the path.
+  #fallback: [index: number, pattern: ParseReturnFiltered[], base: boolean][] =
+    []
+  #base: Minimatch
+  // patterns that match when none of their entries do
+  #negated = new Set<number>()
+  #empty: number[] = []
+  #all: number[] = []
+
+  constructor(patterns: string[], options: MinimatchOptions = {}) {
+    this.options = options
+    this.patterns = patterns
+    this.partial = !!options.partial
+    this.matchers = patterns.map(p => new Minimatch(p, options))
+    // just for the path splitting methods
+    this.#base = new Minimatch('', options)
+
+    this.matchers.forEach((mm, i) => {
+      if (mm.comment) return
+      if (mm.empty) {
+        this.#empty.push(i)
+        return
+      }
+      this.#all.push(i)
+      if (mm.negate && !options.flipNegate) this.#negated.add(i)
+      for (const pattern of mm.set) {
+        const base = !!options.matchBase && pattern.length === 1
+        if (
+          mm.isWindows &&
+          ((pattern[0] === '' &&
+            pattern[1] === '' &&
+            pattern[2] === '?' &&
+            typeof pattern[3] === 'string') ||
+            (typeof pattern[0] === 'string' && /^[a-z]:$/i.test(pattern[0])))
+        ) {
+          this.#fallback.push([i, pattern, base])
+        } else {
+          ;(base ? this.#baseRoot : this.#root).add(pattern, i)
+        }
+      }
+    })
+  }
+
+  /**
+   * Return the indexes of all the patterns that match the path, in
+   * ascending order.  The results are the same as calling `match()` on
+   * each pattern's Minimatch object.
+   */
+  match(f: string, partial = this.partial): number[] {
+    const hits = new Set<number>()
+    if (this.options.unicodeNormalize) {
+      f = f.normalize(this.options.unicodeNormalize)
+    }
+    if (this.options.nocase === 'fold') {
+      f = caseFold(f, this.options.locale)
+    }
+    if (!(f === '/' && partial)) {
+      if (this.#base.isWindows) f = f.split('\\').join('/')
+      const ff = this.#base.slashSplit(f)
+      // the basename is the last non-empty portion
+      let filename: string = ff[ff.length - 1]
+      if (!filename) {
+        for (let i = ff.length - 2; !filename && i >= 0; i--) {
+          filename = ff[i]
+        }
+      }
+      const { optimizationLevel = 1 } = this.options
+      const file =
+        optimizationLevel >= 2 ? this.#base.levelTwoFileOptimize([...ff]) : ff
+      const seen = new Set<string>()
+      this.#visit(this.#root, file, 0, partial, hits, seen)
+      this.#visit(this.#baseRoot, [filename], 0, partial, hits, seen)
+      for (const [i, pattern, base] of this.#fallback) {
+        if (hits.has(i)) continue
+        const mm = this.matchers[i]
+        // matchOne may normalize the file portions in place
+        const file = base ? [filename] : [...ff]
+        if (mm.matchOne(file, pattern, partial)) hits.add(i)
+      }
+    }
+
+    if (f === '/' && partial) return [...this.#all]
+    const result = [...hits].filter(i => !this.#negated.has(i))
+    for (const i of this.#negated) if (!hits.has(i)) result.push(i)
+    if (f === '') result.push(...this.#empty)
+    return result.sort((a, b) => a - b)
+  }
+
+  // collect the patterns that match file[fi...] starting from the node
+  #visit(
+    node: SetNode,
+    file: string[],
+    fi: number,
+    partial: boolean,
+    hits: Set<number>,
+    seen: Set<string>,
+    globstarRest: boolean = false
+  ) {
+    // the same node can be reached at the same position by more than one
+    // path through ** portions.
+    const key = `${node.id}:${fi}:${globstarRest}`
+    if (seen.has(key)) return
+    seen.add(key)
+
+    const fl = file.length
+    if (!globstarRest) {
+      // the pattern ran out, and so did the file, or there is just a
+      // trailing / left over.
+      if (fi === fl || (fi === fl - 1 && file[fi] === '')) {
+        for (const i of node.ends) hits.add(i)
+      }
+      // the file ran out, and the pattern did not.
+      if (fi === fl && partial) {
+        for (const i of node.below) hits.add(i)
+      }
+    }
+    if (fi >= fl) return
+
+    const f = file[fi]
+    const lit = node.literal.get(f)
+    if (lit) this.#visit(lit, file, fi + 1, partial, hits, seen)
+    for (const [combined, list] of node.groups) {
+      if (combined && !combined.test(f)) continue
+      for (const [p, next] of list) {
+        if (p.test(f)) this.#visit(next, file, fi + 1, partial, hits, seen)
+      }
+    }
+
+    const gs = node.globstar
+    if (!gs) return
+    const dot = this.options.dot
+    // a ** at the end swallows the rest, if it can
+    if (gs.ends.length) {
+      let ok = true
+      for (let i = fi; ok && i < fl; i++) ok = !cannotSwallow(file[i], dot)
+      if (ok) for (const i of gs.ends) hits.add(i)
+    }
+    // otherwise, it swallows as many portions as it takes for the rest
+    // of the pattern to match.
+    if (!gs.literal.size && !gs.magic.size && !gs.globstar) return
+    let fr = fi
+    for (; fr < fl; fr++) {
+      this.#visit(gs, file, fr, partial, hits, seen, true)
+      if (cannotSwallow(file[fr], dot)) break
+    }
+    if (fr === fl && partial) {
+      for (const i of gs.below) hits.add(i)
+    }
+  }
+}
+
+/**
+ * Compile a list of patterns into a {@link MinimatchSet}, to find all of
+ * the patterns that match a path in one pass.
+ */
+export const compileMany = (
+  patterns: string[],
+  options: MinimatchOptions = {}
+) => new MinimatchSet(patterns, options)
@@ -0,0 +1,82 @@
+// Match a path against a compiled pattern in time that is linear in the
+// length of the path, for the engine: 'nfa' option.
+//
+// matchOne() tries each number of segments that a ** could swallow in
+// turn, and the regexps that the extglobs compile to can backtrack, so a
+// hostile pattern can take exponential time on a long enough path.  Here
+// instead, the path is read one segment at a time, keeping the set of
+// pattern parts that the segments so far could have led up to, as in a
+// Thompson NFA.  Each segment is tested against a part with a lazily
+// built DFA for its regexp, which takes one step per character, so no
+// segment is ever read more than once per part.  The DFA is built from
+// the AST that the regexp came from, or from its source for one that
+// has none, as in JSON saved without the globs.
+
+import { LazyDFA } from './derivatives.js'
+import { GLOBSTAR, MMRegExp, ParseReturnFiltered } from './index.js'
+
+const dfas = new WeakMap<RegExp, LazyDFA>()
+
+// stepped numeric sequences are checked once the DFA has found a number
+// within their bounds
+const testPart = (p: MMRegExp, f: string): boolean => {
+  let dfa = dfas.get(p)
+  if (!dfa) {
+    dfa = new LazyDFA(p._ast ? p._ast.toRNode() : p.source, p.flags)
+    dfas.set(p, dfa)
+  }
+  return dfa.test(f) && (!p._steps || p._steps(f))
+}
+
+/**
+ * Whether a path, split into segments, matches one entry of a compiled
+ * pattern set, with the same results as `Minimatch.matchOne()`.
+ */
+export const nfaMatchOne = (
+  file: string[],
+  pattern: ParseReturnFiltered[],
+  partial: boolean,
+  dot: boolean
+): boolean => {
+  const fl = file.length
+  const pl = pattern.length
+  // . and .. are never swallowed by a **, nor are dot files unless the
+  // dot option is set
+  const canSwallow = (s: string) =>
+    s !== '.' && s !== '..' && (dot || s.charAt(0) !== '.')
+  // a ** that is not at the end can also match no segments at all.  One
+  // at the end has to match at least one.
+  const close = (on: boolean[]) => {
+    for (let pi = 0; pi < pl - 1; pi++) {
+      if (on[pi] && pattern[pi] === GLOBSTAR) on[pi + 1] = true
+    }
+    return on
+  }
+
+  // on[pi] is whether the segments so far could be followed by a match
+  // of pattern[pi], and on[pl] whether they match the whole pattern
+  let on = close([true])
+  for (let fi = 0; fi < fl; fi++) {
+    const f = file[fi]
+    // a/* matches a/b/, but a/b/* does not
+    if (on[pl] && fi === fl - 1 && f === '') return true
+    const next: boolean[] = []
+    let alive = false
+    for (let pi = 0; pi < pl; pi++) {
+      if (!on[pi]) continue
+      const p = pattern[pi]
+      if (p === GLOBSTAR) {
+        if (!canSwallow(f)) continue
+        next[pi] = true
+        if (pi === pl - 1) next[pl] = true
+      } else if (typeof p === 'string' ? f === p : testPart(p, f)) {
+        next[pi + 1] = true
+      } else continue
+      alive = true
+    }
+    if (!alive) return false
+    on = close(next)
+  }
+  // in partial mode, running out of path before the pattern is fine
+  return !!on[pl] || partial
+}
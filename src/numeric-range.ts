@@ -0,0 +1,166 @@
+// Numeric brace sequences, such as {1..5000} or {00..99..5}, matched as
+// a few alternatives of digits and character classes, rather than as one
+// alternative for each number.  The numbers and their zero padding are
+// the same as brace-expansion would produce.
+//
+// A sequence with a step matches the numbers within its bounds in the
+// same way, and whether the step lands on a number is worked out from
+// the number itself, rather than by listing every one that it does.
+
+import { BraceAlternative, BracePiece } from './brace-alternation.js'
+
+/**
+ * The alternatives for a numeric sequence with a step, which match any
+ * number within its bounds, along with the arithmetic for the step.
+ */
+export type SteppedRange = BraceAlternative[] & {
+  // the numbers that the sequence expands to, wherever they are found
+  // within a path portion
+  within: (f: string) => string[]
+  // alternatives for only the numbers that it expands to
+  list: () => BraceAlternative[]
+}
+
+export const isStepped = (p: BracePiece): p is SteppedRange =>
+  typeof p !== 'string' && 'within' in p
+
+const isPadded = (s: string) => /^-?0\d/.test(s)
+
+// a number as brace-expansion writes it
+const format = (i: number, width: number) => {
+  const c = String(i)
+  const zeros = '0'.repeat(Math.max(0, width - c.length))
+  return i < 0 ? '-' + zeros + c.substring(1) : zeros + c
+}
+
+const digitRange = (from: number, to: number) =>
+  from === to ? String(from) : `[${from}-${to}]`
+
+// the numbers from a to b, which have the same number of digits
+const sameLength = (a: string, b: string): string[] => {
+  if (a === b) return [a]
+  const restA = a.substring(1)
+  const restB = b.substring(1)
+  if (a.charAt(0) === b.charAt(0)) {
+    return sameLength(restA, restB).map(s => a.charAt(0) + s)
+  }
+  const lowest = /^0*$/.test(restA)
+  const highest = /^9*$/.test(restB)
+  const from = Number(a.charAt(0)) + (lowest ? 0 : 1)
+  const to = Number(b.charAt(0)) - (highest ? 0 : 1)
+  const alts: string[] = []
+  if (!lowest) {
+    const nines = '9'.repeat(restA.length)
+    alts.push(...sameLength(restA, nines).map(s => a.charAt(0) + s))
+  }
+  if (from <= to) alts.push(digitRange(from, to) + '[0-9]'.repeat(restA.length))
+  if (!highest) {
+    const zeros = '0'.repeat(restB.length)
+    alts.push(...sameLength(zeros, restB).map(s => b.charAt(0) + s))
+  }
+  return alts
+}
+
+// the numbers from lo to hi, which are not negative, padded to width
+const unsigned = (lo: number, hi: number, width: number): string[] => {
+  const alts: string[] = []
+  for (let d = String(lo).length; d <= String(hi).length; d++) {
+    const a = Math.max(lo, d === 1 ? 0 : 10 ** (d - 1))
+    const b = Math.min(hi, 10 ** d - 1)
+    const zeros = '0'.repeat(Math.max(0, width - d))
+    alts.push(...sameLength(String(a), String(b)).map(s => zeros + s))
+  }
+  return alts
+}
+
+// Group the numbers by their first character, so that matching only
+// tries the ones that start with the next character in the path.
+// Characters that are followed by the same things share a class.
+const trie = (nums: string[]): BraceAlternative[] => {
+  const alts: BraceAlternative[] = []
+  const next = new Map<string, string[]>()
+  for (const n of nums) {
+    if (!n) {
+      alts.push('')
+      continue
+    }
+    const rest = next.get(n.charAt(0))
+    if (rest) rest.push(n.substring(1))
+    else next.set(n.charAt(0), [n.substring(1)])
+  }
+  const classes = new Map<string, [string, BraceAlternative[]]>()
+  for (const [c, rest] of next) {
+    const sub = trie(rest)
+    const key = JSON.stringify(sub)
+    const cls = classes.get(key)
+    if (cls) cls[0] += c
+    else classes.set(key, [c, sub])
+  }
+  for (const [chars, sub] of classes.values()) {
+    // the - of a negative number sorts first, so it is not a range
+    const c = chars.length === 1 ? chars : `[${[...chars].sort().join('')}]`
+    alts.push(
+      sub.length === 1 && typeof sub[0] === 'string' ? c + sub[0] : [c, sub]
+    )
+  }
+  return alts
+}
+
+// the numbers from lo to hi, as brace-expansion writes them
+const bounded = (lo: number, hi: number, width: number): string[] => {
+  const alts: string[] = []
+  if (hi >= 0) alts.push(...unsigned(Math.max(lo, 0), hi, width))
+  if (lo < 0) {
+    alts.push(...unsigned(Math.max(-hi, 1), -lo, width - 1).map(s => '-' + s))
+  }
+  return alts
+}
+
+/**
+ * The alternatives that match the numbers in a numeric brace sequence,
+ * such as `1..10` or `-10..10..2`, or undefined if they cannot be
+ * worked out without expanding it, or brace-expansion would never stop.
+ */
+export const numericRange = (
+  body: string
+): BraceAlternative[] | SteppedRange | undefined => {
+  const n = body.split('..')
+  const [x, y, step = 1] = n.map(s => parseInt(s, 10))
+  const incr = Math.abs(step)
+  if (!incr || !Number.isSafeInteger(x) || !Number.isSafeInteger(y)) {
+    return undefined
+  }
+  const width = n.some(isPadded) ? Math.max(n[0].length, n[1].length) : 0
+  if (incr === 1) return bounded(Math.min(x, y), Math.max(x, y), width)
+
+  // the step might not land on y, so the bounds are x and the last
+  // number that it does land on
+  const dir = y < x ? -incr : incr
+  const last = x + Math.floor((y - x) / dir) * dir
+  const lo = Math.min(x, last)
+  const hi = Math.max(x, last)
+  const inStep = (s: string) => {
+    const i = parseInt(s, 10)
+    return format(i, width) === s && i >= lo && i <= hi && (i - x) % incr === 0
+  }
+  const longest = Math.max(format(lo, width).length, format(hi, width).length)
+  return Object.assign(bounded(lo, hi, width), {
+    within: (f: string) => {
+      const nums = new Set<string>()
+      for (let i = 0; i < f.length; i++) {
+        for (let j = i + 1; j <= i + longest && j <= f.length; j++) {
+          const s = f.substring(i, j)
+          if (inStep(s)) nums.add(s)
+        }
+      }
+      return [...nums]
+    },
+    list: () => {
+      const nums: string[] = []
+      for (let i = x; dir > 0 ? i <= y : i >= y; i += dir) {
+        nums.push(format(i, width))
+      }
+      return trie(nums)
+    },
+  })
+}
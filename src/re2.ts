@@ -0,0 +1,277 @@
+// Rewrite the regular expressions that makeRe() generates without any
+// lookarounds, for RE2, Go, Rust, and the other engines that have none.
+//
+// The regexp is turned into a DFA, with all of its states worked out,
+// which is minimized, and written back out as a regexp by eliminating
+// its states one at a time.
+
+import { RegExpDialectError } from './assert-valid-pattern.js'
+import {
+  anyChar,
+  CharSet,
+  csIntersect,
+  csSubtract,
+  csUnion,
+} from './automaton.js'
+import { LazyDFA } from './derivatives.js'
+
+// the DFA can be bigger while it is built, since it is minimized after
+const MAX_STATES = 4096
+const MAX_MIN_STATES = 256
+const MAX_SOURCE_LENGTH = 1024 * 64
+
+const fail = (src: string, msg: string): never => {
+  throw new RegExpDialectError(src, msg)
+}
+
+// the DFA as a table of the state reached on each class of characters,
+// or -1 where nothing can match, with state 0 as the start state
+interface Table {
+  next: number[][]
+  accept: boolean[]
+}
+
+const buildTable = (dfa: LazyDFA, src: string): Table => {
+  const next: number[][] = []
+  for (let s = 0; s < dfa.size; s++) {
+    next.push(dfa.classes.map((_, c) => dfa.step(s, c)))
+    if (dfa.size > MAX_STATES) fail(src, 'too many states')
+  }
+  return { next, accept: dfa.accept }
+}
+
+// merge the states that match the same things, and drop the ones that
+// can't lead to a match.  The start state may be dropped, if the regexp
+// matches nothing.
+const minimize = ({ next, accept }: Table): [Table, number] => {
+  const live = accept.slice()
+  for (let changed = true; changed; ) {
+    changed = false
+    next.forEach((row, s) => {
+      if (!live[s] && row.some(t => t !== -1 && live[t])) {
+        live[s] = changed = true
+      }
+    })
+  }
+  const rows = next.map(row => row.map(t => (t !== -1 && live[t] ? t : -1)))
+  let group: number[] = accept.map(a => (a ? 1 : 0))
+  for (let count = 0; ; ) {
+    const sigs = new Map<string, number>()
+    const regroup = rows.map((row, s) => {
+      const sig = group[s] + ':' + row.map(t => (t === -1 ? t : group[t]))
+      let n = sigs.get(sig)
+      if (n === undefined) {
+        n = sigs.size
+        sigs.set(sig, n)
+      }
+      return n
+    })
+    group = regroup
+    if (sigs.size === count) break
+    count = sigs.size
+  }
+  const min: Table = { next: [], accept: [] }
+  const ids = new Map<number, number>()
+  rows.forEach((_, s) => {
+    if (live[s] && !ids.has(group[s])) ids.set(group[s], ids.size)
+  })
+  rows.forEach((row, s) => {
+    const n = ids.get(group[s])
+    if (n === undefined || min.next[n]) return
+    min.accept[n] = accept[s]
+    min.next[n] = row.map(t => (t === -1 ? t : (ids.get(group[t]) as number)))
+  })
+  return [min, live[0] ? (ids.get(group[0]) as number) : -1]
+}
+
+// the regexp being written out, with the source of each part
+interface Rx {
+  t: 'eps' | 'set' | 'cat' | 'alt' | 'star' | 'plus'
+  src: string
+  set?: CharSet
+  items?: Rx[]
+  // an alt that also matches the empty string
+  opt?: boolean
+}
+
+const surrogates: CharSet = [0xd800, 0xdfff]
+const chars = csSubtract(anyChar, surrogates)
+
+const printChar = (c: number, inClass: boolean): string => {
+  const ctrl = '\t\n\v\f\r'.indexOf(String.fromCharCode(c))
+  if (ctrl !== -1) return '\\' + 'tnvfr'.charAt(ctrl)
+  if (c < 0x20 || (c >= 0x7f && c < 0xa0)) {
+    return '\\x' + c.toString(16).padStart(2, '0')
+  }
+  const s = String.fromCodePoint(c)
+  const special = inClass ? /[\\\]\[^\-\/]/ : /[\\^$.*+?()[\]{}|\/]/
+  return special.test(s) ? '\\' + s : s
+}
+
+const printRanges = (set: CharSet): string => {
+  let s = ''
+  for (let i = 0; i < set.length; i += 2) {
+    const [lo, hi] = [set[i], set[i + 1]]
+    s += printChar(lo, true)
+    if (hi > lo + 1) s += '-'
+    if (hi > lo) s += printChar(hi, true)
+  }
+  return s
+}
+
+// code points that are never in a valid string are left out, so that
+// the classes can be written the same way for all of the engines.
+const printSet = (set: CharSet): string => {
+  const s = csIntersect(set, chars)
+  const rest = csSubtract(chars, s)
+  if (!s.length) return '[^\\s\\S]'
+  if (!rest.length) return '[\\s\\S]'
+  if (s.length === 2 && s[0] === s[1]) return printChar(s[0], false)
+  const pos = `[${printRanges(s)}]`
+  const neg = `[^${printRanges(rest)}]`
+  return neg.length < pos.length ? neg : pos
+}
+
+const eps: Rx = { t: 'eps', src: '' }
+
+const rxSet = (set: CharSet): Rx => ({ t: 'set', src: printSet(set), set })
+
+const quantified = (x: Rx, q: string) =>
+  (x.t === 'set' ? x.src : `(?:${x.src})`) + q
+
+const rxStar = (x: Rx): Rx => {
+  const items = x.items as Rx[]
+  if (x.t === 'eps' || x.t === 'star') return x
+  if (x.t === 'plus') return rxStar(items[0])
+  return { t: 'star', src: quantified(x, '*'), items: [x] }
+}
+
+const rxPlus = (x: Rx): Rx => ({
+  t: 'plus',
+  src: quantified(x, '+'),
+  items: [x],
+})
+
+const starOf = (x: Rx) =>
+  x.t === 'star' ? (x.items as Rx[])[0].src : undefined
+
+const rxCat = (...xs: Rx[]): Rx => {
+  const items: Rx[] = []
+  for (const x of xs) {
+    for (const i of x.t === 'cat' ? (x.items as Rx[]) : [x]) {
+      if (i.t === 'eps') continue
+      const last = items[items.length - 1]
+      // x x* is x+
+      if (last && starOf(i) === last.src) items[items.length - 1] = rxPlus(last)
+      else items.push(i)
+    }
+  }
+  if (items.length < 2) return items.length ? items[0] : eps
+  const src = items
+    .map(i => (i.t === 'alt' && !i.opt ? `(?:${i.src})` : i.src))
+    .join('')
+  return { t: 'cat', src, items }
+}
+
+const rxAlt = (...xs: Rx[]): Rx => {
+  let opt = false
+  let set: CharSet = []
+  const found = new Map<string, Rx>()
+  for (const x of xs) {
+    opt = opt || !!x.opt
+    for (const i of x.t === 'alt' ? (x.items as Rx[]) : [x]) {
+      if (i.t === 'eps') opt = true
+      else if (i.t === 'set') set = csUnion(set, i.set as CharSet)
+      else found.set(i.src, i)
+    }
+  }
+  // single characters are all merged into one class
+  const items = [...(set.length ? [rxSet(set)] : []), ...found.values()]
+  if (items.length === 1 && (!opt || items[0].t === 'star')) return items[0]
+  if (items.length === 1 && items[0].t === 'plus') return rxStar(items[0])
+  const body = items.map(i => i.src).join('|')
+  const src = !opt
+    ? body
+    : items.length === 1
+    ? quantified(items[0], '?')
+    : `(?:${body})?`
+  return { t: 'alt', src, items, opt }
+}
+
+// write the DFA out as a regexp, by replacing each state in turn with
+// the paths through it, from every state before it to every state after
+const eliminate = (d: LazyDFA, dfa: Table, start: number, src: string): Rx => {
+  const n = dfa.next.length
+  const [first, last] = [n, n + 1]
+  const edges = new Map<number, Map<number, Rx>>()
+  const add = (from: number, to: number, x: Rx) => {
+    let out = edges.get(from)
+    if (!out) edges.set(from, (out = new Map()))
+    const had = out.get(to)
+    const x2 = had ? rxAlt(had, x) : x
+    if (x2.src.length > MAX_SOURCE_LENGTH) fail(src, 'the result is too long')
+    out.set(to, x2)
+  }
+  add(first, start, eps)
+  dfa.next.forEach((row, s) => {
+    const sets = new Map<number, CharSet>()
+    row.forEach((t, c) => {
+      if (t !== -1) sets.set(t, csUnion(sets.get(t) || [], d.classes[c]))
+    })
+    for (const [t, set] of sets) add(s, t, rxSet(set))
+    if (dfa.accept[s]) add(s, last, eps)
+  })
+
+  const left = new Set(dfa.next.keys())
+  while (left.size) {
+    // take out the state that adds the least to the source first
+    let best = -1
+    let bestCost = Infinity
+    for (const s of left) {
+      const ins: number[] = []
+      for (const [from, o] of edges) {
+        const x = o.get(s)
+        if (from !== s && x) ins.push(x.src.length)
+      }
+      // every state left can still lead to a match
+      const out = edges.get(s) as Map<number, Rx>
+      const outs = [...out].filter(([t]) => t !== s).map(([, x]) => x.src)
+      const loop = out.get(s)?.src.length || 0
+      const cost =
+        ins.reduce((a, b) => a + b, 0) * (outs.length - 1) +
+        outs.reduce((a, b) => a + b.length, 0) * (ins.length - 1) +
+        loop * (ins.length * outs.length - 1)
+      if (cost < bestCost) [best, bestCost] = [s, cost]
+    }
+    left.delete(best)
+    const out = edges.get(best) as Map<number, Rx>
+    edges.delete(best)
+    const loop = rxStar(out.get(best) || eps)
+    out.delete(best)
+    for (const [from, o] of edges) {
+      const into = o.get(best)
+      if (!into) continue
+      o.delete(best)
+      for (const [to, x] of out) add(from, to, rxCat(into, loop, x))
+    }
+  }
+  return (edges.get(first) as Map<number, Rx>).get(last) as Rx
+}
+
+/**
+ * Rewrite a regular expression, as generated by makeRe(), into one that
+ * matches the same strings, without any lookarounds or case-insensitive
+ * flag, using only syntax that RE2 and JavaScript both understand.  Its
+ * characters are code points, as they are in RE2, rather than UTF-16
+ * code units.  Throws a RegExpDialectError if that can't be done, or the
+ * result would be too big.
+ */
+export const toRE2 = (src: string, flags: string): RegExp => {
+  const d = new LazyDFA(src, flags)
+  const [dfa, start] = minimize(buildTable(d, src))
+  if (dfa.next.length > MAX_MIN_STATES) fail(src, 'too many states')
+  if (start === -1) return new RegExp('^[^\\s\\S]$', 'u')
+  const x = eliminate(d, dfa, start, src)
+  const body = x.t === 'alt' && !x.opt ? `(?:${x.src})` : x.src
+  return new RegExp(`^${body}$`, 'u')
+}
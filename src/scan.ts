@@ -0,0 +1,55 @@
+// The parts of reading a pattern that lint(), parseTree() and
+// splitBraces() have in common, so that they agree with each other on
+// where a brace set or a run of stars ends.
+
+/**
+ * The offset of the } that closes the { at i, or -1 if there is none
+ * before end.  Escaped characters are skipped, unless `noEscape` is set.
+ */
+export const closeBrace = (
+  s: string,
+  i: number,
+  end = s.length,
+  noEscape = false
+) => {
+  let depth = 0
+  for (; i < end; i++) {
+    const c = s.charAt(i)
+    if (c === '\\' && !noEscape) i++
+    else if (c === '{') depth++
+    else if (c === '}' && !--depth) return i
+  }
+  return -1
+}
+
+/**
+ * The offsets of the commas that separate the alternatives of a brace
+ * set, from start up to end, not counting those in nested sets.
+ */
+export const topLevelCommas = (
+  s: string,
+  start: number,
+  end: number,
+  noEscape = false
+) => {
+  const commas: number[] = []
+  let depth = 0
+  for (let i = start; i < end; i++) {
+    const c = s.charAt(i)
+    if (c === '\\' && !noEscape) i++
+    else if (c === '{') depth++
+    else if (c === '}') depth--
+    else if (c === ',' && !depth) commas.push(i)
+  }
+  return commas
+}
+
+/**
+ * The offset just past the run of stars that starts at i.  When
+ * extglobs are recognized, the last * of **( starts one instead.
+ */
+export const starsEnd = (s: string, i: number, end: number, ext: boolean) => {
+  let j = i
+  while (j < end && s.charAt(j) === '*') j++
+  return ext && s.charAt(j) === '(' ? j - 1 : j
+}
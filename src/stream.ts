@@ -0,0 +1,56 @@
+// A node stream that filters paths through a pattern.  This is a
+// separate entry point, `minimatch/stream`, so that the main module
+// does not depend on node built-ins.
+
+import { Transform } from 'stream'
+import { FilterOptions, PathFilter } from './filter-iterable.js'
+
+export interface FilterStreamOptions extends FilterOptions {
+  /**
+   * Write and read paths as strings, one per chunk, rather than lines
+   * of text.  If `lines` or `nul` is also set, then the writes are
+   * split into paths, but the reads are still one path per chunk.
+   */
+  objectMode?: boolean
+}
+
+/**
+ * Create a Transform stream that passes through the paths matching the
+ * pattern.  By default, it reads and writes text with one path per
+ * line, or per NUL-terminated string with the `nul` option.  If
+ * nothing matches and the `nonull` option is set, the pattern is
+ * written at the end.
+ */
+export const filterStream = (
+  pattern: string,
+  options: FilterStreamOptions = {}
+): Transform => {
+  const { objectMode = false } = options
+  const filter = new PathFilter(
+    pattern,
+    options,
+    !objectMode || !!options.lines
+  )
+  const sep = filter.delimiter
+  const push = (t: Transform, paths: string[]) => {
+    if (objectMode) {
+      for (const p of paths) t.push(p)
+    } else if (paths.length) {
+      t.push(paths.join(sep) + sep)
+    }
+  }
+  return new Transform({
+    readableObjectMode: objectMode,
+    writableObjectMode: objectMode,
+    transform(chunk: string | Uint8Array, _, cb) {
+      push(this, filter.write(chunk))
+      cb()
+    },
+    flush(cb) {
+      push(this, filter.end())
+      cb()
+    },
+  })
+}
+
+export type { FilterOptions } from './filter-iterable.js'
@@ -0,0 +1,247 @@
+// Translate a pattern into the wildcards of some other matcher, such as
+// SQL LIKE, so that paths can be filtered where minimatch cannot run.
+//
+// Each brace expansion of the pattern is translated one path portion at
+// a time.  Whatever the target cannot say exactly is widened to its
+// wildcard for any characters: extglobs, globstars, and the rules that
+// keep * and ? from matching a / or a leading dot.  That translation
+// matches every path that the pattern does, and some others, so the
+// pattern itself is returned along with it, to filter what it finds.
+//
+// Paths are assumed to use / separators, with no repeated / characters
+// and no / at the end.  Where the pattern and the target compare case
+// differently, letters are widened as well, or matched with classes.
+
+import { Minimatch, MinimatchOptions } from './index.js'
+import { GlobNode, parseTree } from './tree.js'
+
+export type TranslateDialect =
+  | 'sql-like'
+  | 'sqlite-glob'
+  | 'find'
+  | 'powershell'
+
+export interface Translation {
+  dialect: TranslateDialect
+  /**
+   * The patterns in the target dialect.  A path matches if any of them
+   * matches it, or, if `negate` is set, if none of them do.  An empty
+   * list matches nothing.
+   */
+  patterns: string[]
+  /** Whether the glob matches the paths that none of the patterns match */
+  negate: boolean
+  /** Whether the patterns match exactly the paths that the glob does */
+  exact: boolean
+  /** For `sql-like`, the character to give in the `ESCAPE` clause */
+  escape?: string
+  /** If the translation is not exact, the Minimatch to filter it with */
+  residual?: Minimatch
+}
+
+interface Wildcards {
+  any: string
+  one: string
+  // whether the target compares letters without regard to case
+  nocase: boolean
+  literal: (s: string) => string
+  // a character class, or undefined if it cannot be written exactly
+  cls: (negated: boolean, body: string) => string | undefined
+}
+
+// the ranges in a class, such as a-z, as their first and last character
+const classRanges = (body: string) => {
+  const ranges: [string, string][] = []
+  for (let i = 0; i < body.length; i++) {
+    if (body.charAt(i + 1) === '-' && i + 2 < body.length) {
+      ranges.push([body.charAt(i), body.charAt(i + 2)])
+      i += 2
+    }
+  }
+  return ranges
+}
+
+// A class of single characters and ranges that are in order, which
+// means the same thing to all of the targets that have classes.  A
+// range that takes in a / or a . is not one, since minimatch never
+// matches a / with it, nor a . at the start of a portion.
+const isSimpleClass = (body: string) =>
+  /^[^\\[\]!^][^\\[\]]*$/.test(body) &&
+  classRanges(body).every(([lo, hi]) => lo <= hi && !(lo <= '/' && hi >= '.'))
+
+// whether some text has letters in it, or a class could match one
+const hasCase = (s: string) => s.toLowerCase() !== s.toUpperCase()
+const classHasCase = (body: string) =>
+  hasCase(body) ||
+  /[^\x00-\x7f]/.test(body) ||
+  classRanges(body).some(([lo, hi]) => lo <= 'z' && hi >= 'A')
+
+const dialects: { [d in TranslateDialect]: Wildcards } = {
+  'sql-like': {
+    any: '%',
+    one: '_',
+    // as in standard SQL and PostgreSQL, but not MySQL or SQLite
+    nocase: false,
+    literal: s => s.replace(/[\\%_]/g, '\\$&'),
+    cls: () => undefined,
+  },
+  'sqlite-glob': {
+    any: '*',
+    one: '?',
+    nocase: false,
+    literal: s => s.replace(/[*?[]/g, '[$&]'),
+    cls: (negated, body) => `[${negated ? '^' : ''}${body}]`,
+  },
+  find: {
+    any: '*',
+    one: '?',
+    nocase: false,
+    literal: s => s.replace(/[\\*?[]/g, '\\$&'),
+    cls: (negated, body) => `[${negated ? '!' : ''}${body}]`,
+  },
+  powershell: {
+    any: '*',
+    one: '?',
+    nocase: true,
+    literal: s => s.replace(/[`*?[\]]/g, '`$&'),
+    cls: (negated, body) => (negated ? undefined : `[${body}]`),
+  },
+}
+
+// the translation of one of the patterns that the glob expands to
+const translateParts = (
+  parts: string[],
+  wildcards: Wildcards,
+  options: MinimatchOptions
+): [pattern: string, exact: boolean] => {
+  // the portions are already brace expanded, and not negated
+  const portionOptions: MinimatchOptions = {
+    ...options,
+    nobrace: true,
+    nonegate: true,
+    nocomment: true,
+  }
+  let out = ''
+  let exact = true
+  // whether out ends with the any wildcard, so another is not needed
+  let any = false
+  const add = (s: string, isAny: boolean = false) => {
+    if (!(isAny && any)) out += s
+    any = isAny
+  }
+  // With nocase: 'fold', one character of a path can fold to several,
+  // so anything that could match a letter could match any number of
+  // characters of the path.
+  const fold = options.nocase === 'fold'
+  const caseDiffers = fold || !!options.nocase !== wildcards.nocase
+  const widen = () => {
+    exact = false
+    add(wildcards.any, true)
+  }
+  const addLiteral = (s: string) => {
+    if (!caseDiffers || !hasCase(s)) return add(wildcards.literal(s))
+    if (fold) return widen()
+    // a target that ignores case matches more than the pattern does
+    if (!options.nocase) {
+      exact = false
+      return add(wildcards.literal(s))
+    }
+    // and one that does not matches less, unless each letter is a class
+    for (const c of s) {
+      if (!hasCase(c)) {
+        add(wildcards.literal(c))
+        continue
+      }
+      const cls = /^[a-z]$/i.test(c)
+        ? wildcards.cls(false, c.toLowerCase() + c.toUpperCase())
+        : undefined
+      if (cls === undefined) exact = false
+      add(cls ?? wildcards.one)
+    }
+  }
+  const translateNode = (node: GlobNode) => {
+    switch (node.kind) {
+      case 'literal':
+        addLiteral(node.value)
+        return
+      case 'class': {
+        let cls = isSimpleClass(node.body)
+          ? wildcards.cls(node.negated, node.body)
+          : undefined
+        if (caseDiffers && classHasCase(node.body)) {
+          if (fold) return widen()
+          exact = false
+          if (options.nocase) cls = undefined
+        }
+        // a negated class could match a / or a leading dot
+        if (cls === undefined || node.negated) exact = false
+        add(cls ?? wildcards.one)
+        return
+      }
+      case 'qmark':
+        if (fold) return widen()
+        exact = false
+        add(wildcards.one)
+        return
+      default:
+        exact = false
+        add(wildcards.any, true)
+    }
+  }
+
+  let sep = false
+  for (const portion of parts) {
+    if (sep) add('/')
+    const nodes = parseTree(portion, portionOptions).children
+    // a globstar can be no portions at all, so it takes the / after it
+    sep = !(nodes.length === 1 && nodes[0].kind === 'globstar')
+    for (const node of nodes) translateNode(node)
+  }
+  return [out, exact]
+}
+
+/**
+ * Translate a pattern into the wildcards of SQL `LIKE`, SQLite `GLOB`,
+ * `find -path`, or PowerShell `-like`.  If the translation is not
+ * exact, it matches more paths than the pattern does, and those have
+ * to be filtered out with the `residual` Minimatch.
+ */
+export const translate = (
+  pattern: string | Minimatch,
+  dialect: TranslateDialect,
+  options: MinimatchOptions = {}
+): Translation => {
+  const mm =
+    typeof pattern === 'string' ? new Minimatch(pattern, options) : pattern
+  const wildcards = dialects[dialect]
+  if (!wildcards) {
+    throw new TypeError(`unknown translation dialect: ${dialect}`)
+  }
+
+  // an empty pattern only matches an empty path
+  const patterns = new Set<string>(mm.empty ? [''] : [])
+  let exact = true
+  for (let parts of mm.globParts) {
+    // a basename pattern is matched in any directory
+    if (mm.options.matchBase && parts.length === 1) parts = ['**', ...parts]
+    const [p, e] = translateParts(parts, wildcards, mm.options)
+    patterns.add(p)
+    exact = exact && e
+  }
+
+  const t: Translation = {
+    dialect,
+    patterns: [...patterns],
+    negate: mm.negate,
+    exact,
+  }
+  // everything that is not in a wider set is too many to list, so the
+  // widest translation of a negated pattern is all paths
+  if (mm.negate && !exact) {
+    t.patterns = [wildcards.any]
+    t.negate = false
+  }
+  if (dialect === 'sql-like') t.escape = '\\'
+  if (!exact) t.residual = mm
+  return t
+}
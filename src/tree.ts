@@ -0,0 +1,673 @@
+// A public model of the syntax of a pattern: a tree of plain objects
+// that can be walked, changed, or built from scratch, and then written
+// back out as a pattern that means what the tree says.
+//
+// The tree is read the same way that minimatch reads a pattern:
+// negation and comments first, then brace sets, and then the character
+// classes, extglobs and stars of each path portion.
+
+import { ExtglobType } from './ast.js'
+import { assertValidPattern } from './assert-valid-pattern.js'
+import { isSequence } from './brace-alternation.js'
+import { parseClass } from './brace-expressions.js'
+import { escape } from './escape.js'
+import { MinimatchOptions } from './index.js'
+import { closeBrace, starsEnd, topLevelCommas } from './scan.js'
+
+interface TreeNodeBase {
+  /** The offset of the first character of the node, if it was parsed */
+  start?: number
+  /** The offset just past the last character of the node */
+  end?: number
+}
+
+/** The root of the tree */
+export interface PatternNode extends TreeNodeBase {
+  kind: 'pattern'
+  /** The number of leading `!` characters */
+  negate: number
+  /** Whether the pattern is a comment, with its text as a literal */
+  comment: boolean
+  children: GlobNode[]
+}
+
+/** One of the alternatives of an extglob or a brace set */
+export interface AlternativeNode extends TreeNodeBase {
+  kind: 'alternative'
+  children: GlobNode[]
+}
+
+/** An extglob, such as `+(a|b)` */
+export interface ExtglobNode extends TreeNodeBase {
+  kind: 'extglob'
+  type: ExtglobType
+  children: AlternativeNode[]
+}
+
+/** A brace set, such as `{a,b}` */
+export interface BraceNode extends TreeNodeBase {
+  kind: 'brace'
+  children: AlternativeNode[]
+}
+
+/** A brace sequence, such as `{1..10}` or `{a..z..2}` */
+export interface RangeNode extends TreeNodeBase {
+  kind: 'range'
+  from: string
+  to: string
+  step?: string
+}
+
+/** A character class, such as `[a-z]` or `[!0-9]` */
+export interface ClassNode extends TreeNodeBase {
+  kind: 'class'
+  negated: boolean
+  /** The text between the brackets, without the `!` or `^` */
+  body: string
+}
+
+/** Text that is matched as it is, unescaped */
+export interface LiteralNode extends TreeNodeBase {
+  kind: 'literal'
+  value: string
+}
+
+/** `*`, or several of them in a row */
+export interface StarNode extends TreeNodeBase {
+  kind: 'star'
+}
+
+/** `?` */
+export interface QmarkNode extends TreeNodeBase {
+  kind: 'qmark'
+}
+
+/** `**` as a whole path portion, or as a whole brace set alternative */
+export interface GlobstarNode extends TreeNodeBase {
+  kind: 'globstar'
+}
+
+/** `/`, or `\` with the `windowsPathsNoEscape` option */
+export interface SeparatorNode extends TreeNodeBase {
+  kind: 'separator'
+}
+
+export type GlobNode =
+  | PatternNode
+  | AlternativeNode
+  | ExtglobNode
+  | BraceNode
+  | RangeNode
+  | ClassNode
+  | LiteralNode
+  | StarNode
+  | QmarkNode
+  | GlobstarNode
+  | SeparatorNode
+
+/** The nodes that have children */
+export type ParentNode = PatternNode | AlternativeNode | ExtglobNode | BraceNode
+
+/**
+ * Called for each node of a tree, with its parent.  A function is
+ * called before the children of the node are walked, and returning
+ * `false` from it skips them.
+ */
+export type TreeVisitor =
+  | ((node: GlobNode, parent?: ParentNode) => void | boolean)
+  | {
+      enter?: (node: GlobNode, parent?: ParentNode) => void | boolean
+      leave?: (node: GlobNode, parent?: ParentNode) => void
+    }
+
+const extglobTypes = new Set(['!', '?', '+', '*', '@'])
+
+interface ParseState {
+  pattern: string
+  options: MinimatchOptions
+  noEscape: boolean
+  // whether the pattern is brace expanded, which changes its escapes
+  expanded: boolean
+  // extglobs are not recognized in the rest of a path portion after
+  // an unclosed [ or extglob, the same as in AST
+  ext: boolean
+}
+
+// the same test that braceExpand uses
+const isExpanded = (pattern: string, options: MinimatchOptions) =>
+  !options.nobrace && /\{(?:(?!\{).)*\}/.test(pattern)
+
+const isSeparator = (s: ParseState, c: string) =>
+  c === '/' || (s.noEscape && c === '\\')
+
+// the offset just past the class that starts at i, or 0 if it is not one
+const classEnd = (s: ParseState, i: number, end: number) => {
+  let portionEnd = i
+  while (portionEnd < end && !isSeparator(s, s.pattern.charAt(portionEnd))) {
+    portionEnd++
+  }
+  const portion = s.pattern.substring(0, portionEnd)
+  const [src, , consumed] = parseClass(portion, i)
+  if (!consumed || src !== '$.') return consumed && i + consumed
+  // a class that can never match consumes the rest of the portion, but
+  // it ends at the first place that it could have
+  let j = i + 1
+  while (!parseClass(portion.substring(0, j), i)[2]) j++
+  return j
+}
+
+// Parse from i up to end, stopping early at any of the stops that is
+// not inside something else.  When portion is set, the start and end
+// are the edges of a path portion, as far as a globstar is concerned.
+const parseSequence = (
+  s: ParseState,
+  i: number,
+  end: number,
+  stops: string,
+  portion: boolean
+): [GlobNode[], number] => {
+  const { pattern, options } = s
+  const nodes: GlobNode[] = []
+  let lit = ''
+  let litStart = i
+  const addLiteral = (text: string, at: number) => {
+    if (!lit) litStart = at
+    lit += text
+  }
+  const push = (node: GlobNode) => {
+    if (lit) {
+      nodes.push({
+        kind: 'literal',
+        value: lit,
+        start: litStart,
+        end: node.start,
+      })
+      lit = ''
+    }
+    nodes.push(node)
+  }
+
+  while (i < end) {
+    const c = pattern.charAt(i)
+    if (stops.includes(c)) break
+
+    if (isSeparator(s, c)) {
+      push({ kind: 'separator', start: i, end: i + 1 })
+      s.ext = !options.noext
+      i++
+      continue
+    }
+
+    if (c === '\\') {
+      let j = i + 1
+      // brace-expansion turns \\ into a \ that escapes whatever it
+      // leaves next, and \{ \} \, \. into the character alone
+      if (s.expanded && pattern.charAt(j) === '\\' && j + 1 < end) {
+        j++
+        // a brace set is expanded first, so that is what it escapes
+        if (pattern.charAt(j) === '{') {
+          i = j
+          continue
+        }
+        if (pattern.charAt(j) === '\\') {
+          if (j + 1 < end && '\\{},.'.includes(pattern.charAt(j + 1))) j++
+          else {
+            addLiteral('\\', i)
+            i = j + 1
+            continue
+          }
+        }
+      }
+      addLiteral(j < end ? pattern.charAt(j) : c, i)
+      i = j + 1
+      continue
+    }
+
+    if (c === '{' && !options.nobrace && pattern.charAt(i - 1) !== '$') {
+      const close = closeBrace(pattern, i, end, s.noEscape)
+      const body = pattern.substring(i + 1, close)
+      if (close !== -1 && isSequence(body)) {
+        const [from, to, step] = body.split('..')
+        const range: RangeNode = {
+          kind: 'range',
+          from,
+          to,
+          start: i,
+          end: close + 1,
+        }
+        if (step !== undefined) range.step = step
+        push(range)
+        i = close + 1
+        continue
+      }
+      const commas =
+        close === -1 ? [] : topLevelCommas(pattern, i + 1, close, s.noEscape)
+      if (commas.length) {
+        const children: AlternativeNode[] = []
+        let from = i + 1
+        for (const to of [...commas, close]) {
+          const [alt] = parseSequence(s, from, to, '', true)
+          children.push({
+            kind: 'alternative',
+            children: alt,
+            start: from,
+            end: to,
+          })
+          from = to + 1
+        }
+        push({ kind: 'brace', children, start: i, end: close + 1 })
+        i = close + 1
+        continue
+      }
+    }
+
+    if (c === '[') {
+      const to = classEnd(s, i, end)
+      if (to) {
+        const text = pattern.substring(i + 1, to - 1)
+        const negated = text.charAt(0) === '!' || text.charAt(0) === '^'
+        push({
+          kind: 'class',
+          negated,
+          body: negated ? text.substring(1) : text,
+          start: i,
+          end: to,
+        })
+        i = to
+        continue
+      }
+      s.ext = false
+    }
+
+    if (s.ext && extglobTypes.has(c) && pattern.charAt(i + 1) === '(') {
+      const extglob = parseExtglob(s, i, end)
+      if (extglob) {
+        push(extglob)
+        i = extglob.end as number
+        continue
+      }
+      // the rest of the portion is parsed again, without extglobs
+      s.ext = false
+    }
+
+    if (c === '*') {
+      const j = starsEnd(pattern, i, end, s.ext)
+      const last = nodes[nodes.length - 1]
+      const first = !lit && (last ? last.kind === 'separator' : portion)
+      const whole =
+        first &&
+        j - i === 2 &&
+        (j === end ? portion : isSeparator(s, pattern.charAt(j)))
+      push({
+        kind: whole && !options.noglobstar ? 'globstar' : 'star',
+        start: i,
+        end: j,
+      })
+      i = j
+      continue
+    }
+
+    if (c === '?') {
+      push({ kind: 'qmark', start: i, end: i + 1 })
+      i++
+      continue
+    }
+
+    addLiteral(c, i)
+    i++
+  }
+  if (lit) nodes.push({ kind: 'literal', value: lit, start: litStart, end: i })
+  return [nodes, i]
+}
+
+// the extglob that starts at i, or undefined if it is not closed in the
+// same path portion
+const parseExtglob = (
+  s: ParseState,
+  i: number,
+  end: number
+): ExtglobNode | undefined => {
+  const children: AlternativeNode[] = []
+  let from = i + 2
+  for (;;) {
+    const [alt, to] = parseSequence(
+      s,
+      from,
+      end,
+      s.noEscape ? '|)/\\' : '|)/',
+      false
+    )
+    const c = s.pattern.charAt(to)
+    if (to >= end || c === '/' || c === '\\') return undefined
+    children.push({ kind: 'alternative', children: alt, start: from, end: to })
+    if (c === ')') {
+      return {
+        kind: 'extglob',
+        type: s.pattern.charAt(i) as ExtglobType,
+        children,
+        start: i,
+        end: to + 1,
+      }
+    }
+    from = to + 1
+  }
+}
+
+/**
+ * Parse a pattern into a tree of nodes, each with the offsets of the
+ * part of the pattern that it was read from.
+ */
+export const parseTree = (
+  pattern: string,
+  options: MinimatchOptions = {}
+): PatternNode => {
+  assertValidPattern(pattern, options)
+  const root: PatternNode = {
+    kind: 'pattern',
+    negate: 0,
+    comment: false,
+    children: [],
+    start: 0,
+    end: pattern.length,
+  }
+  if (!options.nocomment && pattern.charAt(0) === '#') {
+    root.comment = true
+    if (pattern.length > 1) {
+      root.children.push({
+        kind: 'literal',
+        value: pattern.substring(1),
+        start: 1,
+        end: pattern.length,
+      })
+    }
+    return root
+  }
+  let i = 0
+  if (!options.nonegate) {
+    while (pattern.charAt(i) === '!') i++
+  }
+  root.negate = i
+  const noEscape =
+    !!options.windowsPathsNoEscape || options.allowWindowsEscape === false
+  const s: ParseState = {
+    pattern,
+    options,
+    noEscape,
+    expanded: !noEscape && isExpanded(pattern, options),
+    ext: !options.noext,
+  }
+  root.children = parseSequence(s, i, pattern.length, '', true)[0]
+  return root
+}
+
+/**
+ * Call the visitor for a node and each of its descendants, depth first.
+ * Children can be replaced or removed while they are walked.
+ */
+export const walkTree = (
+  node: GlobNode,
+  visitor: TreeVisitor,
+  parent?: ParentNode
+): void => {
+  const { enter, leave } =
+    typeof visitor === 'function'
+      ? { enter: visitor, leave: undefined }
+      : visitor
+  if (enter?.(node, parent) !== false && 'children' in node) {
+    for (const child of [...node.children]) walkTree(child, visitor, node)
+  }
+  leave?.(node, parent)
+}
+
+// the value of a sequence endpoint or step, as brace-expansion reads it
+const sequenceValue = (s: string) =>
+  /^-?\d+$/.test(s) ? parseInt(s, 10) : s.charCodeAt(0)
+
+// The number of patterns that brace expansion turns a node into, and
+// how many of those are empty.
+const expansions = (node: GlobNode): [total: number, empty: number] => {
+  switch (node.kind) {
+    case 'brace':
+      return node.children
+        .map(expansions)
+        .reduce(([t, e], [ct, ce]) => [t + ct, e + ce], [0, 0])
+    case 'range': {
+      const step = Math.abs(sequenceValue(node.step ?? '1'))
+      const span = sequenceValue(node.to) - sequenceValue(node.from)
+      // a step of 0 never gets to the end
+      return [step ? Math.floor(Math.abs(span) / step) + 1 : Infinity, 0]
+    }
+    case 'pattern':
+    case 'alternative':
+      return node.children
+        .map(expansions)
+        .reduce(([t, e], [ct, ce]) => [t * ct, e * ce], [1, 1])
+    default:
+      return [
+        'children' in node
+          ? (node.children as GlobNode[]).reduce(
+              (n, c) => n * expansions(c)[0],
+              1
+            )
+          : 1,
+        0,
+      ]
+  }
+}
+
+// The number of patterns that brace expansion turns a whole pattern
+// into, leaving out the empty ones, as brace-expansion does.
+export const countExpansions = (node: GlobNode): number => {
+  const [total, empty] = expansions(node)
+  return total - empty
+}
+
+interface PrintContext {
+  options: MinimatchOptions
+  noEscape: boolean
+  expanded: boolean
+  negated: boolean
+  inBrace: boolean
+  inExtglob: boolean
+}
+
+const printLiteral = (value: string, ctx: PrintContext, atStart: boolean) => {
+  const { options, noEscape } = ctx
+  const esc = (c: string) => (noEscape ? `[${c}]` : `\\${c}`)
+  let s = escape(value, { windowsPathsNoEscape: noEscape })
+  if (ctx.expanded) s = s.replace(/\\\\/g, '\\\\\\\\')
+  if (!options.nobrace) s = s.replace(/[{}]/g, esc)
+  if (ctx.inBrace) s = s.replace(/,/g, esc)
+  if (ctx.inExtglob) s = s.replace(/\|/g, esc)
+  if (atStart) {
+    // [!] would be a class, so a ! can only be escaped with a \
+    if (!options.nonegate && !noEscape && s.startsWith('!')) s = '\\' + s
+    if (!options.nocomment && !ctx.negated && s.startsWith('#'))
+      s = esc('#') + s.substring(1)
+  }
+  return s
+}
+
+const printAlternatives = (
+  alternatives: AlternativeNode[],
+  ctx: PrintContext,
+  sep: string
+) => alternatives.map(a => printNodes(a.children, ctx, false)).join(sep)
+
+const printNodes = (
+  nodes: GlobNode[],
+  ctx: PrintContext,
+  top: boolean
+): string => {
+  let out = ''
+  let prev: GlobNode | undefined
+  for (const node of nodes) {
+    // stars in a row are the same as one star, but ** could be read
+    // as a globstar
+    if (node.kind === 'star' && prev?.kind === 'star') continue
+    prev = node
+    const atStart = top && !out
+    const text = printNode(node, ctx, atStart)
+    // a brace set after a $ is not expanded
+    if (text.startsWith('{') && out.endsWith('$')) {
+      out = out.substring(0, out.length - 1) + '[$]'
+    }
+    out += text
+  }
+  return out
+}
+
+const printNode = (
+  node: GlobNode,
+  ctx: PrintContext,
+  atStart: boolean = false
+): string => {
+  switch (node.kind) {
+    case 'pattern':
+      if (node.comment) {
+        return (
+          '#' +
+          node.children
+            .map(c => (c.kind === 'literal' ? c.value : printNode(c, ctx)))
+            .join('')
+        )
+      }
+      return (
+        '!'.repeat(node.negate) +
+        printNodes(node.children, { ...ctx, negated: !!node.negate }, true)
+      )
+    case 'alternative':
+      return printNodes(node.children, ctx, false)
+    case 'extglob': {
+      const ext =
+        node.type +
+        '(' +
+        printAlternatives(node.children, { ...ctx, inExtglob: true }, '|') +
+        ')'
+      // a !( at the start would be read as negating the pattern
+      return atStart && node.type === '!' && !ctx.options.nonegate
+        ? `@(${ext})`
+        : ext
+    }
+    case 'brace':
+      // a set of one is not expanded, so it is written without braces
+      if (node.children.length < 2) {
+        return printAlternatives(node.children, ctx, '')
+      }
+      return (
+        '{' +
+        printAlternatives(node.children, { ...ctx, inBrace: true }, ',') +
+        '}'
+      )
+    case 'range':
+      return (
+        `{${node.from}..${node.to}` +
+        (node.step === undefined ? '' : `..${node.step}`) +
+        '}'
+      )
+    case 'class':
+      return `[${node.negated ? '!' : ''}${node.body}]`
+    case 'literal':
+      return printLiteral(node.value, ctx, atStart)
+    case 'star':
+      return '*'
+    case 'qmark':
+      return '?'
+    case 'globstar':
+      return '**'
+    case 'separator':
+      return '/'
+  }
+}
+
+/**
+ * Write a tree, or any node of one, as a pattern.  Literal text is
+ * escaped wherever it would otherwise be read as something else.
+ */
+export const treeToString = (
+  node: GlobNode,
+  options: MinimatchOptions = {}
+): string => {
+  const ctx: PrintContext = {
+    options,
+    noEscape:
+      !!options.windowsPathsNoEscape || options.allowWindowsEscape === false,
+    expanded: false,
+    negated: false,
+    inBrace: false,
+    inExtglob: false,
+  }
+  const pattern = printNode(node, ctx)
+  // escaped backslashes have to be escaped again, for brace-expansion
+  return !ctx.noEscape && isExpanded(pattern, options) && pattern.includes('\\')
+    ? printNode(node, { ...ctx, expanded: true })
+    : pattern
+}
+
+/** A child given to a {@link tree} builder, with strings as literals */
+export type TreeChild = GlobNode | string
+
+const toNodes = (children: TreeChild[]): GlobNode[] =>
+  children.map(c => (typeof c === 'string' ? { kind: 'literal', value: c } : c))
+
+const toAlternative = (a: TreeChild | TreeChild[]): AlternativeNode =>
+  Array.isArray(a)
+    ? { kind: 'alternative', children: toNodes(a) }
+    : typeof a !== 'string' && a.kind === 'alternative'
+    ? a
+    : { kind: 'alternative', children: toNodes([a]) }
+
+/**
+ * Functions that build each kind of node.  Alternatives of extglobs and
+ * brace sets are given as a list of children, or as a single child.
+ */
+export const tree = {
+  pattern: (
+    children: TreeChild[],
+    { negate = 0, comment = false }: { negate?: number; comment?: boolean } = {}
+  ): PatternNode => ({
+    kind: 'pattern',
+    negate,
+    comment,
+    children: toNodes(children),
+  }),
+  alternative: (...children: TreeChild[]): AlternativeNode => ({
+    kind: 'alternative',
+    children: toNodes(children),
+  }),
+  extglob: (
+    type: ExtglobType,
+    ...alternatives: (TreeChild | TreeChild[])[]
+  ): ExtglobNode => ({
+    kind: 'extglob',
+    type,
+    children: alternatives.map(toAlternative),
+  }),
+  brace: (...alternatives: (TreeChild | TreeChild[])[]): BraceNode => ({
+    kind: 'brace',
+    children: alternatives.map(toAlternative),
+  }),
+  range: (
+    from: number | string,
+    to: number | string,
+    step?: number | string
+  ): RangeNode => {
+    const node: RangeNode = {
+      kind: 'range',
+      from: String(from),
+      to: String(to),
+    }
+    if (step !== undefined) node.step = String(step)
+    return node
+  },
+  class: (body: string, negated: boolean = false): ClassNode => ({
+    kind: 'class',
+    negated,
+    body,
+  }),
+  literal: (value: string): LiteralNode => ({ kind: 'literal', value }),
+  star: (): StarNode => ({ kind: 'star' }),
+  qmark: (): QmarkNode => ({ kind: 'qmark' }),
+  globstar: (): GlobstarNode => ({ kind: 'globstar' }),
+  separator: (): SeparatorNode => ({ kind: 'separator' }),
+}
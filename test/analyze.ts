@@ -0,0 +1,157 @@
+import t from 'tap'
+import { minimatch, Minimatch, MinimatchOptions } from '../'
+
+type Compare = typeof minimatch.isSubset
+
+// the comparisons, checking that every example they return really
+// shows their answer under minimatch()
+const checked = (t: Tap.Test, mm = minimatch) => {
+  const matches = (p: string, pattern: string | Minimatch, opt = {}) =>
+    typeof pattern === 'string' ? mm(p, pattern, opt) : pattern.match(p)
+  const check =
+    (f: Compare, shows: (a: boolean, b: boolean) => boolean): Compare =>
+    (a, b, opt = {}) => {
+      const r = f(a, b, opt)
+      const { example } = r
+      if (example !== undefined) {
+        const [x, y] = [matches(example, a, opt), matches(example, b, opt)]
+        t.ok(shows(x, y), `example ${example}`, { a, b, opt })
+      }
+      return r
+    }
+  return {
+    isSubset: check(mm.isSubset, (x, y) => x && !y),
+    intersects: check(mm.intersects, (x, y) => x && y),
+    equivalent: check(mm.equivalent, (x, y) => x !== y),
+  }
+}
+
+type Case = [
+  a: string,
+  b: string,
+  subset: boolean,
+  overlap: boolean,
+  equal: boolean,
+  opt?: MinimatchOptions
+]
+const cases: Case[] = [
+  ['src/**/*.ts', 'src/**', true, true, false],
+  ['src/**', 'src/**/*.ts', false, true, false],
+  ['*.js', '*.ts', false, false, false],
+  ['a/**/b', 'a/**', true, true, false],
+  ['**/*.{js,ts}', '**/*.@(js|ts)', true, true, true],
+  ['{a..c}', '[a-c]', true, true, true],
+  ['*', '.*', false, false, false],
+  ['*', '.*', false, true, false, { dot: true }],
+  ['**', '**/*', false, true, false],
+  ['x/**/y', 'x/*/y', false, true, false],
+  ['a/*', 'a/*/', false, true, false],
+  ['!*.js', '*.ts', false, true, false],
+  ['*.js', '!*.ts', true, true, false],
+  ['*.js', '!*.ts', false, false, false, { flipNegate: true }],
+  ['+(a|b)', '!(c)', true, true, false],
+  ['?(x-!(y)|z)', '*', false, true, false],
+  ['x/*(a|!(b))', 'x/*', false, true, false],
+  ['*(!(a)b)', '*b', false, true, false],
+  ['+(a|!(b))x', '*x', true, true, false],
+  ['[[:alpha:]]', '[[:upper:]]', false, true, false],
+  ['[[:upper:]]', '[[:alpha:]]', true, true, false],
+  ['A*', 'a*', true, true, true, { nocase: true }],
+  ['A*', 'a*', false, false, false],
+  ['*.js', 'a/**/*.js', false, true, false, { matchBase: true }],
+  ['**/*.js', '*.js', true, true, false, { matchBase: true }],
+  ['*', '', false, false, false],
+  ['#x', '*', true, false, false],
+  ['a/../b', 'b', true, true, true],
+  ['a/../b', 'b', false, false, false, { optimizationLevel: 0 }],
+  ['a//b', 'a/b', true, true, true],
+  ['a//b', 'a/b', false, false, false, { preserveMultipleSlashes: true }],
+  ['a\\*', 'a*', true, true, false],
+  ['*', '?(a)*', true, true, false],
+  ['**', '*', false, true, false, { matchBase: true }],
+  // a portion of only stars has to match something
+  ['***', '*', true, true, true],
+  ['***', '', false, false, false],
+  ['!***', '!*', true, true, true],
+  ['a/***', 'a/', false, false, false],
+  ['x/**', 'x/***', true, true, true, { noglobstar: true }],
+]
+
+t.test('comparisons', async t => {
+  const { isSubset, intersects, equivalent } = checked(t)
+  for (const [a, b, subset, overlap, equal, opt = {}] of cases) {
+    const s = isSubset(a, b, opt)
+    const o = intersects(a, b, opt)
+    const e = equivalent(a, b, opt)
+    t.same(
+      [s.result, o.result, e.result],
+      [subset, overlap, equal],
+      `${a} ${b}`,
+      { opt, s, o, e }
+    )
+    t.equal(s.example === undefined, subset)
+    t.equal(o.example === undefined, !overlap)
+    t.equal(e.example === undefined, equal)
+  }
+})
+
+t.test('examples', async t => {
+  const { isSubset, intersects, equivalent } = checked(t)
+  t.same(isSubset('src/**', 'src/**/*.ts'), { result: false, example: 'src/' })
+  t.same(intersects('*.js', '*.ts'), { result: false })
+  t.same(intersects('a/*', '*/b'), { result: true, example: 'a/b' })
+  t.same(equivalent('x/**/y', 'x/*/y'), { result: false, example: 'x/y' })
+  t.same(equivalent('{a,b}', '[ab]'), { result: true })
+})
+
+t.test('Minimatch objects', async t => {
+  const { isSubset, intersects, equivalent } = checked(t)
+  const a = new Minimatch('*.JS', { nocase: true })
+  const b = new Minimatch('*.js')
+  t.same(isSubset(b, a), { result: true })
+  const s = isSubset(a, b)
+  t.equal(s.result, false)
+  t.equal(s.example?.toLowerCase(), 'a.js')
+  // options only apply to pattern strings
+  t.same(isSubset(b, '*.JS', { nocase: true }), { result: true })
+})
+
+t.test('optimization level 2 ignores . and .. portions', async t => {
+  const { isSubset, intersects, equivalent } = checked(t)
+  t.same(equivalent('a/b', 'a/./b', { optimizationLevel: 1 }), {
+    result: false,
+    example: 'a/b',
+  })
+  t.same(equivalent('a/b', 'a/./b', { optimizationLevel: 2 }), {
+    result: true,
+  })
+  // a/a/. would match the second, but isn't considered
+  t.same(isSubset('a/*/.', 'a/*', { optimizationLevel: 2 }), { result: true })
+})
+
+t.test('windows separators', async t => {
+  const { isSubset, intersects, equivalent } = checked(t)
+  const opt: MinimatchOptions = { platform: 'win32' }
+  const s = isSubset('a/*', 'a/b', opt)
+  t.equal(s.result, false)
+  t.notMatch(s.example, /\\/)
+  t.same(intersects('a/*', '*\\b', { ...opt, windowsPathsNoEscape: true }), {
+    result: true,
+    example: 'a/b',
+  })
+})
+
+t.test('lookarounds within a repetition', async t => {
+  const { isSubset, intersects, equivalent } = checked(t)
+  t.same(isSubset('x/*(a|!(b))', 'x/*'), { result: false, example: 'x/' })
+  t.same(isSubset('x/*', 'x/*(a|!(b))'), { result: false, example: 'x/b' })
+  t.same(isSubset('*b', '*(!(a)b)'), { result: false, example: 'ab' })
+})
+
+t.test('defaults', async t => {
+  const { isSubset, intersects, equivalent } = checked(t)
+  const d = checked(t, minimatch.defaults({ nocase: true }))
+  t.same(d.isSubset('A', 'a'), { result: true })
+  t.same(d.intersects('A', 'a'), { result: true, example: 'a' })
+  t.same(d.equivalent('A', 'a'), { result: true })
+})
@@ -0,0 +1,153 @@
+const t = require('tap')
+const { regExpToDFA, DFA, NFA } = require('../dist/cjs/automaton.js')
+const { Minimatch, GLOBSTAR } = require('../')
+const patterns = require('./patterns.js')
+
+const strings = [
+  '',
+  'a',
+  'A',
+  'ab',
+  'abc',
+  '.',
+  '..',
+  '.a',
+  'a.b',
+  'x.js',
+  '.x.js',
+  'a\tb',
+  'é',
+  'É',
+  '😀',
+  '\u0000',
+  '\n',
+  '-',
+  ']',
+  '\\',
+  'k',
+  'K',
+  'ſ',
+  's',
+  'S',
+]
+
+const check = (t, src, flags, extra = []) => {
+  const re = new RegExp('^(?:' + src + ')$', flags)
+  const dfa = regExpToDFA(src, flags)
+  for (const s of [...strings, ...extra]) {
+    // without the u flag, astral chars are two chars to the RegExp,
+    // but always one char to the automaton.
+    if (!flags.includes('u') && /[\ud800-\udfff]/.test(s)) continue
+    if (dfa.test(s) !== re.test(s)) {
+      t.fail(`/${src}/${flags} ${JSON.stringify(s)}`)
+    }
+  }
+}
+
+t.test('agrees with RegExp', async t => {
+  const sources = [
+    ['a|b'],
+    ['a*b?c+'],
+    ['[a-c]+'],
+    ['[^a-c]'],
+    ['[\\]\\-a]*'],
+    ['[\\x00-\\x7f]*'],
+    ['\\x61\\u0062c'],
+    ['\\t|\\n|\\r|\\v|\\f|\\0'],
+    ['a\\tb'],
+    ['.*'],
+    ['(?:a|b)(c)?'],
+    ['(?!\\.)[^/]*?'],
+    ['(?!\\.\\.?(?:$|\\/))[^/]*?'],
+    ['(?:(?!(?:x|y)\\.js$)[^/]*?)\\.js'],
+    ['(?:a|$)b'],
+    ['a$'],
+    ['^a'],
+    ['[\\p{L}\\p{Nl}]', 'u'],
+    ['[\\p{Lu}]', 'u'],
+    ['[a-z]', 'i'],
+    ['[^a-z]', 'i'],
+    ['k', 'i'],
+    ['s', 'iu'],
+    ['é', 'i'],
+    ['😀', 'u'],
+    ['[^/]', 'u'],
+    ['[^/]', 'i'],
+    ['[-]'],
+    ['[]a|b'],
+    ['[^]'],
+    ['\\😀'],
+    ['[😀]|[a-😀]', 'u'],
+    ['a{2}b{1,}c{0,2}d{1,3}?'],
+    ['(?:\\.{1,2})($|\\/)'],
+    ['a{,2}|b{x}'],
+  ]
+  for (const [src, flags = ''] of sources) check(t, src, flags)
+})
+
+t.test('agrees with patterns', async t => {
+  for (const p of patterns) {
+    if (typeof p === 'function') {
+      p()
+      continue
+    }
+    if (typeof p === 'string') continue
+    const [pattern, _, options = {}, f = patterns.files] = p
+    const mm = new Minimatch(pattern, options)
+    for (const part of mm.set.flat()) {
+      if (typeof part === 'string' || part === GLOBSTAR) continue
+      try {
+        check(t, part.source, part.flags, f)
+      } catch (er) {
+        t.match(er, {
+          message: 'cannot analyze lookarounds within a repetition',
+        })
+      }
+    }
+  }
+})
+
+t.test('unsupported syntax', async t => {
+  const bad = [
+    ['a)', 'unexpected )'],
+    ['(?=a)', 'unsupported group'],
+    ['(a', 'unterminated group'],
+    ['[a', 'unterminated class'],
+    ['[\\p{L]', 'invalid property escape'],
+    ['\\d', 'unsupported escape \\d'],
+    ['a{2,1}', 'numbers out of order in quantifier'],
+  ]
+  for (const [src, msg] of bad) {
+    t.throws(() => regExpToDFA(src, 'u'), {
+      message: `cannot analyze regular expression /${src}/: ${msg}`,
+    })
+  }
+  for (const src of ['(?:(?!a)b)*', '(?:(?:a$)?)+']) {
+    t.throws(() => regExpToDFA(src), {
+      message: 'cannot analyze lookarounds within a repetition',
+    })
+  }
+  for (const src of ['(?:(?!a)b)*', '(?:(?:a$)?)+']) {
+    t.throws(() => regExpToDFA(src), {
+      message: 'cannot analyze lookarounds within a repetition',
+    })
+  }
+})
+
+t.test('examples', async t => {
+  t.equal(regExpToDFA('a+b').example(), 'ab')
+  t.equal(regExpToDFA('$a').example(), undefined)
+  t.equal(regExpToDFA('[\\x00-\\x1f]').example(), '\u0000')
+  t.equal(regExpToDFA(' ').example(), ' ')
+  t.equal(regExpToDFA('[\\ud800-\\udfff]').example(), '\ud800')
+  t.equal(regExpToDFA('[\\u00e9-\\u00ea]').example(), 'é')
+  const nfa = new NFA()
+  t.equal(nfa.determinize(nfa.add()).example(), undefined)
+  const both = DFA.product(
+    regExpToDFA('a*'),
+    regExpToDFA('b*'),
+    (a, b) => a && b
+  )
+  t.equal(both.example(), '')
+  t.equal(both.test('a'), false)
+})
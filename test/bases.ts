@@ -0,0 +1,63 @@
+import t from 'tap'
+import { GLOBSTAR, Minimatch } from '../'
+
+const bases = (pattern: string, options = {}) =>
+  new Minimatch(pattern, options)
+    .bases()
+    .map(({ base, recursive, depth }) => [base, recursive, depth])
+
+t.test('bases', async t => {
+  t.same(bases('src/lib/**/*.js'), [['src/lib', true, Infinity]])
+  t.same(bases('{a,b}/*.md'), [
+    ['a', false, 1],
+    ['b', false, 1],
+  ])
+  t.same(bases('a\\*b/c/*/*.js'), [['a*b/c', false, 2]])
+  t.same(bases('[a]/b/*'), [['a/b', false, 1]])
+  t.same(bases('*.js'), [['', false, 1]])
+  t.same(bases('**'), [['', true, Infinity]])
+  t.same(bases('a/b/c.js'), [['a/b/c.js', false, 0]])
+  t.same(bases('a/b/'), [['a/b', false, 0]])
+  t.same(bases('a/*/'), [['a', false, 1]])
+  t.same(bases('./a/*'), [['./a', false, 1]])
+  t.same(bases('/a/*'), [['/a', false, 1]])
+  t.same(bases('/*'), [['/', false, 1]])
+  t.same(bases('/'), [['/', false, 0]])
+  t.same(bases('# comment'), [])
+  t.same(bases(''), [])
+
+  const [b] = new Minimatch('a/**/x').bases()
+  t.same(b.rest, [GLOBSTAR, 'x'])
+})
+
+t.test('options', async t => {
+  t.same(bases('*.js', { matchBase: true }), [['', true, Infinity]])
+  t.same(bases('a/*.js', { matchBase: true }), [['a', false, 1]])
+  t.same(bases('src/*', { nocase: true }), [['', false, 2]])
+  t.same(bases('src/*', { nocase: true, nocaseMagicOnly: true }), [
+    ['src', false, 1],
+  ])
+  t.same(bases('a/**', { noglobstar: true }), [['a', false, 1]])
+  // the set for a negated pattern is what it does not match
+  t.same(bases('!a/*'), [['a', false, 1]])
+})
+
+t.test('windows roots', async t => {
+  const platform = 'win32'
+  t.same(bases('c:/x/*', { platform }), [['c:/x', false, 1]])
+  t.same(bases('c:/*', { platform }), [['c:/', false, 1]])
+  t.same(bases('c:\\x\\*', { platform, windowsPathsNoEscape: true }), [
+    ['c:/x', false, 1],
+  ])
+  t.same(bases('C:/x/*', { platform, nocase: true }), [['C:/', false, 2]])
+  t.same(
+    bases('C:/x/*', { platform, nocase: true, windowsNoMagicRoot: false }),
+    [['', false, 3]]
+  )
+  t.same(bases('//host/share/*', { platform }), [['//host/share/', false, 1]])
+  t.same(bases('//host/share/x/**', { platform }), [
+    ['//host/share/x', true, Infinity],
+  ])
+  t.same(bases('//?/c:/*', { platform }), [['//?/c:/', false, 1]])
+  t.same(bases('c:/*', { platform: 'linux' }), [['c:', false, 1]])
+})
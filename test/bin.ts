@@ -0,0 +1,154 @@
+import { spawnSync } from 'child_process'
+import { resolve } from 'path'
+import t from 'tap'
+
+const bin = resolve(__dirname, '../dist/cjs/bin.js')
+const run = (args: string[], input = '') => {
+  const { status, stdout, stderr } = spawnSync(
+    process.execPath,
+    [bin, ...args],
+    {
+      input,
+      encoding: 'utf8',
+    }
+  )
+  return { status, stdout, stderr }
+}
+
+t.test('filter paths', async t => {
+  t.same(run(['*.js'], 'a.js\nb.ts\n.x.js\r\nsrc/c.js\n\n'), {
+    status: 0,
+    stdout: 'a.js\n',
+    stderr: '',
+  })
+  t.same(run(['*.js', 'a.js', 'b.js', 'c.ts']).stdout, 'a.js\nb.js\n')
+  t.same(
+    run(['--dot', '-0', '*.js'], 'a.js\0b.ts\0.x.js\0').stdout,
+    'a.js\0.x.js\0'
+  )
+  t.same(run(['*.md'], 'a.js\n'), { status: 1, stdout: '', stderr: '' })
+  t.same(run(['--nonull', '*.md', '-p', 'x'], 'a.js\n'), {
+    status: 1,
+    stdout: '*.md\nx\n',
+    stderr: '',
+  })
+  t.equal(run(['--', '-x', '-x', 'y']).stdout, '-x\n')
+  t.equal(run(['*', '-']).stdout, '-\n')
+})
+
+t.test('several patterns', async t => {
+  const paths = 'a.js\nb.ts\nsrc/c.js\nsrc/d.ts\n'
+  t.equal(run(['**/*.js', '-p', '**/*.ts'], paths).stdout, paths)
+  t.equal(run(['**/*.js', '--pattern=!src/**'], paths).stdout, 'a.js\n')
+  t.equal(run(['-p', '!src/**'], paths).stdout, 'a.js\nb.ts\n')
+  t.equal(run(['--flip-negate', '!*.ts'], paths).stdout, 'b.ts\n')
+})
+
+t.test('options', async t => {
+  t.equal(run(['--nocase', '*.JS', 'a.js']).stdout, 'a.js\n')
+  t.equal(run(['--dot', '--no-dot', '*', '.x']).status, 1)
+  t.equal(run(['--match-base', '*.js', 'src/c.js']).stdout, 'src/c.js\n')
+  t.equal(
+    run(['--platform', 'win32', 'src/*.js', 'src\\c.js']).stdout,
+    'src\\c.js\n'
+  )
+  t.equal(
+    run(['--optimization-level=2', 'a/b/*.js', 'a/x/../b/c.js']).stdout,
+    'a/x/../b/c.js\n'
+  )
+  t.equal(
+    run(['--optimization-level', '0', 'a/b/*.js', 'a/x/../b/c.js']).status,
+    1
+  )
+  t.equal(
+    run(['--unicode-normalize=NFC', 'caf\u00e9', 'cafe\u0301']).stdout,
+    'cafe\u0301\n'
+  )
+  t.equal(run(['--case-fold', 'stra\u00dfe', 'STRASSE']).stdout, 'STRASSE\n')
+  t.equal(
+    run(['--case-fold', '--locale', 'tr', '\u0131*', 'IX', 'ix']).stdout,
+    'IX\n'
+  )
+  t.equal(
+    run(['--engine', 'nfa', '+(a|b)/*.c', 'ab/x.c', 'c/x.c']).stdout,
+    'ab/x.c\n'
+  )
+})
+
+t.test('subcommands', async t => {
+  t.same(run(['make-re', 'a/*']), {
+    status: 0,
+    stdout: '/^a\\/(?!\\.)[^/]+?$/\n',
+    stderr: '',
+  })
+  t.same(run(['make-re', '#x']), { status: 1, stdout: 'false\n', stderr: '' })
+  t.equal(
+    run(['make-re', '--regex-dialect', 're2', 'a/*']).stdout,
+    '/^a\\/[^.\\/][^\\/]*$/u\n'
+  )
+  t.match(run(['make-re', '--regex-dialect', 're2', '*a?????']), {
+    status: 2,
+    stderr: /without lookarounds: the result is too long\n$/,
+  })
+  t.equal(run(['brace-expand', 'a{1..3}']).stdout, 'a1\na2\na3\n')
+  t.equal(run(['brace-expand', '--nobrace', 'a{1..3}']).stdout, 'a{1..3}\n')
+  t.equal(run(['escape', '*a', 'b?']).stdout, '\\*a\nb\\?\n')
+  t.equal(run(['escape', '--windows-paths-no-escape', '*a']).stdout, '[*]a\n')
+  t.equal(run(['unescape', '\\*a', '[?]b']).stdout, '*a\n?b\n')
+  const set = run(['set', 'a/**/*.{js,ts}'])
+  t.equal(set.status, 0)
+  t.match(set.stdout, /Symbol\(globstar \*\*\)/)
+  t.match(set.stdout, /\^\(\?!\\\.\)\[\^\/\]\*\?\\\.ts\$/)
+})
+
+t.test('usage', async t => {
+  const help = run(['--help'])
+  t.equal(help.status, 0)
+  t.match(help.stdout, /^usage:\n  minimatch \[options\] <pattern>/)
+  t.equal(run(['-h']).stdout, help.stdout)
+  const errors: [string[], string][] = [
+    [['--bogus'], 'unknown option: --bogus'],
+    [['--dot=yes', '*'], 'unknown option: --dot=yes'],
+    [['--case-fold=yes', '*'], 'unknown option: --case-fold=yes'],
+    [['--no-bogus'], 'unknown option: --no-bogus'],
+    [['*', '--platform'], '--platform requires a value'],
+    [['--optimization-level=x', '*'], 'invalid optimization level: x'],
+    [
+      ['--unicode-normalize=nfc', '*'],
+      'invalid unicode normalization form: nfc',
+    ],
+    [['--regex-dialect=pcre', '*'], 'invalid regex dialect: pcre'],
+    [['--engine=dfa', '*'], 'invalid engine: dfa'],
+    [['--platform=windows', '*'], 'invalid platform: windows'],
+    [['--limit', 'depth=2', '*'], 'invalid limit: depth=2'],
+    [['--limit=setEntries', '*'], 'invalid limit: setEntries'],
+    [[], 'no pattern given'],
+    [['set', 'a', 'b'], 'set takes a single pattern'],
+    [['make-re'], 'make-re takes a single pattern'],
+  ]
+  for (const [args, message] of errors) {
+    const { status, stdout, stderr } = run(args)
+    t.equal(status, 2, message)
+    t.equal(stdout, '')
+    t.equal(stderr, `minimatch: ${message}\n\n${help.stdout}`)
+  }
+  // other errors are not usage errors
+  const tooLong = run(['a'.repeat(70000), 'a'])
+  t.equal(tooLong.status, 1)
+  t.match(tooLong.stderr, /TypeError: pattern is too long/)
+  // and so are patterns over the limits
+  t.same(run(['make-re', '--limit', 'braceExpansions=2', '{a,b,c}']), {
+    status: 2,
+    stdout: '',
+    stderr: 'minimatch: pattern exceeds the braceExpansions limit of 2\n',
+  })
+  // malformed patterns in strict mode are reported without the usage
+  t.same(run(['--strict', 'a/[bc', 'a/[bc']), {
+    status: 2,
+    stdout: '',
+    stderr:
+      'minimatch: invalid pattern at offset 2: ' +
+      '[ has no closing ], so it matches a literal [\n',
+  })
+  t.equal(run(['a/[bc', 'a/[bc']).stdout, 'a/[bc\n')
+})
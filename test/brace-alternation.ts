@@ -0,0 +1,198 @@
+import t from 'tap'
+import { braceExpand, Minimatch, MinimatchOptions } from '../'
+
+// the set that match() uses, from its debug output
+const matchSet = (pattern: string, options: MinimatchOptions = {}) => {
+  const mm = new Minimatch(pattern, options)
+  let set: unknown[][] = []
+  mm.debug = (...args: any[]) => {
+    if (args[1] === 'set') set = args[2]
+  }
+  mm.match('x')
+  return set
+}
+
+// match each of the expanded patterns on its own, or with makeRe()
+const expanded = (
+  path: string,
+  pattern: string,
+  o: MinimatchOptions,
+  re = false
+) => {
+  let negate = false
+  while (pattern.startsWith('!')) {
+    negate = !negate
+    pattern = pattern.substring(1)
+  }
+  const matched = braceExpand(pattern, o).some(p => {
+    const mm = new Minimatch(p, { ...o, nobrace: true, nonegate: true })
+    return re ? (mm.makeRe() as RegExp).test(path) : mm.match(path)
+  })
+  return matched !== negate
+}
+
+t.test('brace sets are matched as alternations', async t => {
+  const set = matchSet('{a,b,c}/{d,e,f}/{g,h,i}/{j,k,l}/**')
+  t.equal(set.length, 1)
+  t.equal(set[0].length, 5)
+  const mm = new Minimatch('{a,b,c}/{d,e,f}/{g,h,i}/{j,k,l}/**')
+  t.equal(mm.match('b/f/g/k/x/y'), true)
+  t.equal(mm.match('b/f/g/x/y'), false)
+  // the walker API still gets the expanded set
+  t.equal(mm.set.length, 81)
+  t.equal(mm.globSet.length, 81)
+  t.equal(mm.globParts.length, 81)
+  t.equal(mm.hasMagic(), true)
+
+  t.notSame(matchSet('{a,b}x'), new Minimatch('{a,b}x').set)
+  t.equal(matchSet('{1..10000}').length, 1)
+  const seq = new Minimatch('x/{1..10000}.txt')
+  t.equal(seq.match('x/5000.txt'), true)
+  t.equal(seq.match('x/10001.txt'), false)
+
+  t.equal(matchSet('src/**/*.{js,ts}').length, 1)
+  t.equal(matchSet('a{b,c{d,e}}f/{a,b}x{,c}').length, 1)
+  t.equal(matchSet('!{a,b}/*').length, 1)
+})
+
+t.test('falls back to expanding the braces', async t => {
+  const patterns = [
+    'a{b}c',
+    'a{b{c,d}}e',
+    'a{}b',
+    '${a,b}',
+    'x{a,b',
+    '[{a,b}]',
+    '[a{b,c}]',
+    'a\\{b,c}',
+    '{a,b/c}',
+    '{a,[b]}',
+    '{a,b}@(x|y)',
+    '*{a,b}',
+    '{a,**}',
+    '{a,}?x',
+    '{a,.}',
+    '.{.a,b}',
+    '{a,b}{..,c}',
+    'c:/{a,b}/x',
+  ]
+  for (const p of patterns) {
+    const o: MinimatchOptions = p.startsWith('c:') ? { platform: 'win32' } : {}
+    t.same(matchSet(p, o), new Minimatch(p, o).set, p)
+  }
+  const o = { nobrace: true }
+  t.same(matchSet('{a,b}', o), new Minimatch('{a,b}', o).set)
+})
+
+t.test('matches the same paths as the expanded patterns', async t => {
+  const patterns = [
+    '{a,b}',
+    '!{a,b}',
+    '{a,}b',
+    '{,a}b*',
+    '?{a,}',
+    '.{a,b}',
+    '{.a,b}',
+    '{.a,b}x',
+    'x{.a,b}',
+    '.{a,*}',
+    '{a,b}/{c,d}/**',
+    '**/{a,b}*',
+    '{a,b}{c,d}',
+    '{1..3}{a..c}',
+    '{01..3}',
+    '[!a]{a,b}',
+    '[.a]{a,b}',
+    '{a,b}/../c',
+    '{a,?}x',
+    '{a,}?x',
+  ]
+  const paths = [
+    'a',
+    'b',
+    'ab',
+    '.a',
+    '.b',
+    '.ax',
+    'xb',
+    'x.a',
+    '..',
+    '.x',
+    'a/c',
+    'b/d/e/f',
+    'x/ab',
+    'x/.ab',
+    'ac',
+    'bd',
+    '1a',
+    '3c',
+    '02',
+    'ca',
+    '.a',
+    'c',
+    'ax',
+    'xx',
+    'a/../c',
+  ]
+  const options: MinimatchOptions[] = [
+    {},
+    { dot: true },
+    { nocase: true },
+    { optimizationLevel: 2 },
+    { partial: true },
+    { matchBase: true },
+  ]
+  for (const o of options) {
+    for (const p of patterns) {
+      const mm = new Minimatch(p, o)
+      const re = mm.makeRe()
+      for (const f of paths) {
+        const msg = JSON.stringify([f, p, o])
+        t.equal(mm.match(f), expanded(f, p, o), msg)
+        if (re && !o.partial && !o.matchBase && !o.optimizationLevel) {
+          t.equal(re.test(f), expanded(f, p, o, true), 'makeRe ' + msg)
+        }
+      }
+    }
+  }
+})
+
+t.test('makeRe() and hasMagic() without expanding', async t => {
+  const big = new Minimatch('x/{1..1000000}')
+  t.match(big.makeRe(), RegExp)
+  t.equal(big.hasMagic(), false)
+  t.equal((big.makeRe() as RegExp).test('x/999999'), true)
+  t.equal((big.makeRe() as RegExp).test('x/1000001'), false)
+
+  // with magicalBraces, a set that expands to more than one is magic
+  const cases: [string, MinimatchOptions, boolean][] = [
+    ['a{b,c}d', {}, false],
+    ['a{b,c}d', { magicalBraces: true }, true],
+    ['a{b,b}d', { magicalBraces: true }, false],
+    ['a{b,*}d', {}, true],
+    ['a{b,c}?', {}, true],
+    ['[ab]{b,c}', {}, true],
+    ['{1..3}x', {}, false],
+    ['{1..3}x', { magicalBraces: true }, true],
+    ['{1..9}/{10..99..3}', {}, false],
+    ['x{1..1}', { magicalBraces: true }, false],
+    ['a{b,c}d', { nocase: true }, true],
+    ['{1..3}', { nocase: true }, false],
+    ['{1..3}', { nocase: true, magicalBraces: true }, true],
+    ['a{b,c}d', { nocase: true, nocaseMagicOnly: true }, false],
+    ['!{a,b}/*', {}, true],
+    ['{a,b}/c', {}, false],
+    // braces across a / are expanded as they always were
+    ['{a,b/c}', {}, false],
+    ['{a,b/c}', { magicalBraces: true }, true],
+  ]
+  for (const [p, o, magic] of cases) {
+    const mm = new Minimatch(p, o)
+    t.equal(mm.hasMagic(), magic, JSON.stringify([p, o]))
+    // the same as the expanded set says
+    const expandedMagic =
+      (!!o.magicalBraces && mm.set.length > 1) ||
+      mm.set.some(s => s.some(x => typeof x !== 'string'))
+    t.equal(expandedMagic, magic, 'expanded ' + JSON.stringify([p, o]))
+  }
+})
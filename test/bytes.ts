@@ -0,0 +1,90 @@
+import t from 'tap'
+import { decodePath, encodePath, filter, minimatch, Minimatch } from '../'
+
+const latin1 = Buffer.from('caf\xe9.js', 'latin1')
+
+t.test('decodePath and encodePath round trip', async t => {
+  for (let i = 0; i < 200; i++) {
+    const bytes = new Uint8Array(Math.floor(Math.random() * 20))
+    for (let j = 0; j < bytes.length; j++) {
+      bytes[j] = Math.floor(Math.random() * 256)
+    }
+    t.same(encodePath(decodePath(bytes)), bytes, 'random bytes')
+  }
+  const cases: [number[], string][] = [
+    [[0x61, 0x2f, 0x62], 'a/b'],
+    [[0xc3, 0xa9], 'é'],
+    [[0xe2, 0x82, 0xac], '€'],
+    [[0xf0, 0x9f, 0x98, 0x80], '\u{1f600}'],
+    [[0xf4, 0x8f, 0xbf, 0xbf], '\u{10ffff}'],
+    // overlong encodings
+    [[0xc0, 0xaf], '\udcc0\udcaf'],
+    [[0xe0, 0x80, 0xaf], '\udce0\udc80\udcaf'],
+    [[0xf0, 0x80, 0x80, 0xaf], '\udcf0\udc80\udc80\udcaf'],
+    // encoded surrogate
+    [[0xed, 0xa0, 0x80], '\udced\udca0\udc80'],
+    // past U+10FFFF
+    [[0xf4, 0x90, 0x80, 0x80], '\udcf4\udc90\udc80\udc80'],
+    // truncated sequences
+    [[0xe2, 0x82], '\udce2\udc82'],
+    [[0xe9, 0x2f], '\udce9/'],
+  ]
+  for (const [bytes, s] of cases) {
+    t.equal(decodePath(new Uint8Array(bytes)), s, JSON.stringify(bytes))
+    t.same(encodePath(s), new Uint8Array(bytes), JSON.stringify(s))
+  }
+  t.same(encodePath('\ud800'), new Uint8Array([0xef, 0xbf, 0xbd]))
+})
+
+t.test('match byte paths', async t => {
+  t.equal(minimatch(Buffer.from('a/b.js'), 'a/*.js'), true)
+  t.equal(minimatch(latin1, '*.js'), true)
+  t.equal(minimatch(latin1, '????.js'), true)
+  t.equal(minimatch(latin1, '?????.js'), false)
+  t.equal(minimatch(latin1, 'café.js'), false)
+  t.equal(minimatch(Buffer.from('café.js'), 'café.js'), true)
+  t.equal(minimatch(Buffer.from('café.js'), 'caf[é].js'), true)
+  t.equal(minimatch(Buffer.from('cafe\u0301.js'), 'café.js'), false)
+  t.equal(
+    minimatch(Buffer.from('a/\xff\xfe/b/c.js', 'latin1'), 'a/**/*.js'),
+    true
+  )
+  t.equal(minimatch(Buffer.from('CAF\xc9.JS', 'latin1'), '*.js'), false)
+  t.equal(
+    minimatch(Buffer.from('CAF\xc9.JS', 'latin1'), '*.js', { nocase: true }),
+    true
+  )
+  const mm = new Minimatch('x/*')
+  t.equal(mm.match(new Uint8Array([0x78, 0x2f, 0x80])), true)
+  t.equal(mm.match(new Uint8Array([0x79, 0x2f, 0x80])), false)
+  t.same([latin1, Buffer.from('x.ts')].filter(filter('*.js')), [latin1])
+  t.equal(minimatch.defaults({ dot: true })(Buffer.from('.a'), '*'), true)
+  t.equal(minimatch.defaults({})(Buffer.from('.a'), '*'), false)
+})
+
+t.test('byte patterns', async t => {
+  t.equal(minimatch(latin1, latin1), true)
+  t.equal(minimatch(latin1, Buffer.from('*.js')), true)
+  t.equal(minimatch('café.js', latin1), false)
+  const pattern = Buffer.from('caf[\xe9\xe8].js', 'latin1')
+  const mm = new Minimatch(pattern)
+  t.equal(mm.pattern, decodePath(pattern))
+  t.equal(mm.match(latin1), true)
+  t.equal(mm.match(Buffer.from('caf\xe8.js', 'latin1')), true)
+  t.equal(mm.match(Buffer.from('cafe.js')), false)
+  t.equal(mm.match('café.js'), false)
+  t.equal(
+    new (minimatch.defaults({ nocase: true }).Minimatch)(
+      Buffer.from('*.JS')
+    ).match(latin1),
+    true
+  )
+})
+
+t.test('still throws on invalid patterns', async t => {
+  //@ts-expect-error
+  t.throws(() => minimatch('a', 1))
+  //@ts-expect-error
+  t.throws(() => new Minimatch({}))
+  t.throws(() => minimatch('a', Buffer.alloc(70000, 'a')))
+})
@@ -0,0 +1,157 @@
+const t = require('tap')
+const { minimatch, Minimatch, normalizePattern } = require('../')
+const patterns = require('./patterns.js')
+
+t.test('canonical form', async t => {
+  const cases = [
+    ['./src//**/**/*.{ts,ts}', 'src/**/*.ts'],
+    ['src/**/*.ts', 'src/**/*.ts'],
+    ['{b,a}/x', '{a/x,b/x}'],
+    ['{a/*,a/b}', 'a/*'],
+    ['{a/b,a/**/b}', '{a/**/b,a/b}'],
+    ['a/../b', 'b'],
+    ['a/../**', '**'],
+    ['x/**/../y/z', '{x/**/y/z,y/z}'],
+    ['./', '.'],
+    ['.', '.'],
+    ['{x,.}', '{.,x}'],
+    ['!{b,a}', '!{a,b}'],
+    ['!!a', 'a'],
+    ['{#a,#a}', '\\#a'],
+    ['{!a,!a}', '\\!a'],
+    ['\\{a,b\\}', '\\{a\\,b\\}'],
+    ['{a\\,b,c}', '{a\\,b,c}'],
+    ['{a\\\\,c\\\\}', '{a\\\\,c\\\\}'],
+    ['*.@(a|b)', '*.@(a|b)'],
+    ['#comment', '#comment'],
+    ['', ''],
+    ['a/**/**', 'a/*/*', { noglobstar: true }],
+    ['{a,b}', '{a,b}', { nobrace: true }],
+    ['.//a', 'a'],
+    ['.//a', './/a', { preserveMultipleSlashes: true }],
+    ['a\\b', 'a/b', { windowsPathsNoEscape: true }],
+    ['{#a,#a}', '#a', { nocomment: true }],
+    ['{!a,!a}', '!a', { nonegate: true }],
+    // where \ is a path separator, classes and extglobs escape instead
+    ['!#@(a|b)', '![#]@(a|b)', { windowsPathsNoEscape: true }],
+    ['{!a,!a}', '@(!)a', { windowsPathsNoEscape: true }],
+    ['{!a,!a}', '{!a,!a}', { windowsPathsNoEscape: true, noext: true }],
+    ['{b,a}\\x', '{a/x,b/x}', { windowsPathsNoEscape: true }],
+    // and a brace or comma can't be escaped at all
+    ['{,a}!,{,a}{a,a}', '{,a}!,{,a}{a,a}', { windowsPathsNoEscape: true }],
+    ['a{b,c}[{]', 'a{b,c}[{]', { windowsPathsNoEscape: true }],
+  ]
+  for (const [pattern, canonical, opt = {}] of cases) {
+    t.equal(normalizePattern(pattern, opt), canonical, pattern, opt)
+    const mm = new Minimatch(pattern, opt)
+    t.equal(mm.toCanonical(), canonical, pattern, opt)
+    // the globParts are not modified
+    t.same(mm.globParts, new Minimatch(pattern, opt).globParts)
+  }
+})
+
+t.test('same matches and idempotent, for all test patterns', t => {
+  for (const p of patterns) {
+    if (typeof p === 'function') {
+      p()
+      continue
+    }
+    if (typeof p === 'string') continue
+    const [pattern, _, options = {}, f = patterns.files] = p
+    for (const extra of [
+      {},
+      { preserveMultipleSlashes: true },
+      { platform: 'win32' },
+      { windowsPathsNoEscape: true },
+    ]) {
+      const opt = { ...options, ...extra, optimizationLevel: 2 }
+      const c = normalizePattern(pattern, opt)
+      if (normalizePattern(c, opt) !== c) {
+        t.equal(normalizePattern(c, opt), c, 'idempotent', { pattern, opt })
+      }
+      for (const file of f) {
+        if (file === '.' || file.startsWith('./')) continue
+        if (minimatch(file, pattern, opt) !== minimatch(file, c, opt)) {
+          t.fail('matches differ', { pattern, c, file, opt })
+        }
+      }
+    }
+  }
+  t.pass('all agree')
+  t.end()
+})
+
+t.test('round trips where \\ is a path separator', async t => {
+  const o = { windowsPathsNoEscape: true, optimizationLevel: 2 }
+  const files = ['#a', '#b', '!#a', 'a', '!a', '!,a', 'a!,aa', 'ab{', 'x']
+  for (const pattern of [
+    '!#@(a|b)',
+    '#@(a|b)',
+    '{#a,#b}',
+    '{!a,!a}',
+    '{,a}!,{,a}{a,a}',
+    'a{b,c}[{]',
+    '{[{],[}]}',
+  ]) {
+    const c = normalizePattern(pattern, o)
+    t.equal(normalizePattern(c, o), c, 'idempotent', { pattern, c })
+    for (const f of files) {
+      t.equal(minimatch(f, c, o), minimatch(f, pattern, o), f, { pattern, c })
+    }
+  }
+  const fp = p => new Minimatch(p, o).fingerprint()
+  t.not(fp('!#@(a|b)'), fp('!/#@(a|b)'))
+})
+
+t.test('fingerprint', async t => {
+  const fp = (p, o = {}) => new Minimatch(p, o).fingerprint()
+  t.match(fp('a'), /^[0-9a-f]{16}$/)
+  const o2 = { optimizationLevel: 2 }
+  t.equal(fp('./src//**/**/*.{ts,ts}', o2), fp('src/**/*.ts', o2))
+  t.equal(fp('src/**/**/*.{ts,ts}'), fp('src/**/*.ts'))
+  t.not(fp('a/./b'), fp('a/b'))
+  t.equal(fp('{b,a}/*'), fp('{a,b}/*'))
+  t.equal(fp('a', { platform: 'linux' }), fp('a', { platform: 'darwin' }))
+  t.equal(fp('a', { debug: false }), fp('a', { nonull: true }))
+  t.not(fp('a'), fp('b'))
+  t.not(fp('a'), fp('!a'))
+  for (const o of [
+    { nocase: true },
+    { dot: true },
+    { noext: true },
+    { platform: 'win32' },
+    { matchBase: true },
+    { flipNegate: true },
+    { optimizationLevel: 0 },
+    { optimizationLevel: 2 },
+    { windowsPathsNoEscape: true },
+    { allowWindowsEscape: false },
+  ]) {
+    t.not(fp('a'), fp('a', o), JSON.stringify(o))
+  }
+  // the same canonical text means different things with and without
+  // brace expansion
+  t.equal(
+    normalizePattern('{a,b}'),
+    normalizePattern('{a,b}', { nobrace: true })
+  )
+  t.not(fp('{a,b}'), fp('{a,b}', { nobrace: true }))
+  // a/../b only matches b once paths are normalized
+  t.not(
+    fp('a/../b', { optimizationLevel: 0 }),
+    fp('b', { optimizationLevel: 0 })
+  )
+  t.equal(fp('a/../b'), fp('b'))
+  t.equal(fp('a', { optimizationLevel: 3 }), fp('a', o2))
+  t.equal(fp('a', { optimizationLevel: -1 }), fp('a', { optimizationLevel: 0 }))
+  t.equal(
+    fp('a', { windowsPathsNoEscape: true }),
+    fp('a', { allowWindowsEscape: false })
+  )
+})
+
+t.test('defaults', async t => {
+  const mm = minimatch.defaults({ noglobstar: true })
+  t.equal(mm.normalizePattern('a/**'), 'a/*')
+  t.equal(new mm.Minimatch('a/**').toCanonical(), 'a/*')
+})
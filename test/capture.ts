@@ -0,0 +1,70 @@
+import t from 'tap'
+import { makeRe, Minimatch, MinimatchOptions } from '../'
+
+type Case = [
+  pattern: string,
+  path: string,
+  expect: string[] | undefined,
+  opt?: MinimatchOptions
+]
+const cases: Case[] = [
+  ['src/**/*.ts', 'src/a/b/c.ts', ['a/b', 'c']],
+  ['src/**/*.ts', 'src/c.ts', ['', 'c']],
+  ['src/**/*.ts', 'src/c.js', undefined],
+  ['**', 'a/b/c', ['a/b/c']],
+  ['a/**', 'a/b/c', ['b/c']],
+  ['**/b', 'a/.x/b', ['a/.x'], { dot: true }],
+  ['**/b', 'a/.x/b', undefined],
+  ['*.@(js|ts)', 'x.js', ['x', 'js']],
+  ['a**b', 'axxb', ['xx']],
+  ['a**b', 'axxb', ['xx'], { noglobstar: true }],
+  ['[a-c]?x', 'bqx', ['b', 'q']],
+  ['[x]*', 'xyz', ['yz']],
+  ['*.ts', '.x.ts', undefined],
+  ['.*', '.x', ['x']],
+  ['*.ts', '.x.ts', ['.x'], { dot: true }],
+  ['[.]*', '..', undefined, { dot: true }],
+  ['+(a|b)-?(c)', 'aba-', ['aba', '']],
+  ['@(a|*(b))/x', 'bb/x', ['bb']],
+  ['{a,b}/*', 'b/x', ['x']],
+  ['a/b', 'a/b', []],
+  ['!*.js', 'x.ts', []],
+  ['!*.js', 'x.js', undefined],
+  ['# comment', '# comment', undefined],
+  ['*.js', 'a/b/x.js', ['x'], { matchBase: true }],
+  ['*.js', 'a/x.js/', ['x'], { matchBase: true }],
+  ['*/*', 'x/y', ['x', 'y'], { nocase: true }],
+  ['C:/*/**', 'C:\\x\\y\\z', ['x', 'y/z'], { platform: 'win32', nocase: true }],
+  ['/*/b/x/y/z', '/a/b', ['a'], { partial: true }],
+  ['/**/z', '/a/b', ['a/b'], { partial: true }],
+]
+
+t.test('Minimatch.capture()', async t => {
+  for (const [pattern, path, expect, opt = {}] of cases) {
+    const mm = new Minimatch(pattern, opt)
+    t.same(mm.capture(path), expect, `${pattern} ${path}`, { opt })
+    t.equal(mm.match(path), !!expect, `agrees with match()`)
+  }
+  t.same(new Minimatch('').capture(''), [])
+  t.same(new Minimatch('').capture('x'), undefined)
+  t.same(new Minimatch('/**', { partial: true }).capture('/'), [])
+})
+
+t.test('makeRe capture option', async t => {
+  const re = makeRe('src/**/*.ts', { capture: true })
+  t.type(re, RegExp)
+  if (!re) return
+  t.same(re.exec('src/a/b/c.ts')?.slice(1), ['a/b', 'c'])
+  t.same(re.exec('src/c.ts')?.slice(1), [undefined, 'c'])
+  // no groups unless asked for
+  const plain = makeRe('src/**/*.ts')
+  t.same(plain && plain.exec('src/a/b/c.ts')?.slice(1), [])
+
+  const dot = makeRe('**/x/**', { capture: true, dot: true })
+  t.same(dot && dot.exec('.a/b/x/.c/d')?.slice(1), ['.a/b', '.c/d'])
+  const end = makeRe('a/**', { capture: true })
+  t.same(end && end.exec('a/b/c')?.slice(1), ['b/c'])
+  const only = makeRe('**', { capture: true })
+  t.same(only && only.exec('a/b/c')?.slice(1), ['a/b/c'])
+  t.equal(makeRe('# comment', { capture: true }), false)
+})
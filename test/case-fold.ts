@@ -0,0 +1,142 @@
+import t from 'tap'
+import {
+  makeRe,
+  minimatch,
+  Minimatch,
+  MinimatchOptions,
+  MinimatchSet,
+} from '../'
+
+const fold: MinimatchOptions = { nocase: 'fold' }
+const tr: MinimatchOptions = { nocase: 'fold', locale: 'tr' }
+
+t.test('characters that the i flag does not fold', async t => {
+  const cases: [path: string, pattern: string][] = [
+    ['STRASSE', 'stra\u00dfe'],
+    ['stra\u00dfe', 'STRASSE'],
+    ['Stra\u00dfe.md', '*SSE.md'],
+    ['Stra\u00dfe.md', '*.MD'],
+    ['\u039f\u0394\u039f\u03a3', '\u03bf\u03b4\u03bf\u03c2'],
+    ['\u03bf\u03b4\u03bf\u03c3-x', '\u039f\u0394\u039f\u03a3*'],
+    ['\u03bf\u03b4\u03bf\u03c3\u03b1', '\u03bf\u03b4\u03bf\u03c2*'],
+    ['\u017f', 'S'],
+    ['\uab70x', '\u13a0*'],
+    ['\u13a0x', '\uab70?'],
+    ['a/STRASSE/b', 'a/stra\u00dfe/**'],
+    ['a/STRASSE/b', '{x,a/stra\u00dfe/*}'],
+    ['a/STRASSE', 'a/@(x|stra\u00dfe)'],
+  ]
+  for (const [path, pattern] of cases) {
+    t.equal(minimatch(path, pattern, fold), true, `${path} ${pattern}`)
+    const re = makeRe(pattern, fold)
+    t.equal(re && re.test(path), true, `makeRe ${path} ${pattern}`)
+  }
+  t.equal(minimatch('STRASSE', 'stra\u00dfe', { nocase: true }), false)
+  t.equal(minimatch('STRASSE', 'strasse', fold), true)
+  t.equal(minimatch('strasse', 'straxe', fold), false)
+  t.equal(minimatch('x/STRASSE', 'x/!(stra\u00dfe)', fold), false)
+})
+
+t.test('folded paths', async t => {
+  t.equal(minimatch('stra\u00dfe', 'stra??e', fold), true)
+  t.equal(minimatch('stra\u00dfe', 'stra?e', fold), false)
+  t.same(new Minimatch('Stra\u00dfe/*', fold).capture('STRASSE/X'), ['X'])
+  // a group that matched part of a folded character gets all of it
+  t.same(new Minimatch('stra??e', fold).capture('Stra\u00dfe'), [
+    '\u00df',
+    '\u00df',
+  ])
+  t.same(new Minimatch('**/+(a|b)x', fold).capture('\u0130/ABX'), [
+    '\u0130',
+    'AB',
+  ])
+  const mm = new Minimatch('stra?e', fold)
+  t.same(mm.capture('Stra\u00dfe'), undefined)
+  t.same(mm.capture('STRAXE'), ['X'])
+  t.same(new Minimatch('x*', fold).capture('X'), [''])
+  t.same(new Minimatch('\u00df[()]?@(x|y)', fold).capture('SS)ZY'), [
+    ')',
+    'Z',
+    'Y',
+  ])
+  t.same(new Minimatch('[\\]a]*', fold).capture('A]'), ['A', ']'])
+  // an escaped | separates alternatives, each with its own groups
+  t.same(new Minimatch('?a\\|b*', fold).capture('QBC'), ['', 'C'])
+  t.same(new Minimatch('1/*', fold).capture('1/A'), ['A'])
+  const magicOnly = { ...fold, nocaseMagicOnly: true }
+  t.same(new Minimatch('abc/*', magicOnly).capture('ABC/Def'), ['Def'])
+  const win = { ...fold, platform: 'win32' } as const
+  t.same(new Minimatch('c:/*', win).capture('C:\\Foo'), ['Foo'])
+  t.same(new Minimatch('//?/c:/*', win).capture('C:\\Foo'), ['Foo'])
+  t.same(new Minimatch('c:/foo/*', win).capture('C:\\FOO\\Bar'), ['Bar'])
+  const { path, matched } = new Minimatch('Stra\u00dfe', fold).explain(
+    'STRASSE'
+  )
+  t.same({ path, matched }, { path: 'strasse', matched: true })
+  const re = makeRe('*SSE', fold)
+  t.same(re && [...('Stra\u00dfe'.match(re) || [])], ['strasse'])
+})
+
+t.test('character classes', async t => {
+  t.equal(minimatch('X', '[a-z]', fold), true)
+  t.equal(minimatch('x', '[A-Z]', fold), true)
+  t.equal(minimatch('x', '[!A-Z]', fold), false)
+  t.equal(minimatch('\u00df', '[\u00df]', fold), true)
+  t.equal(minimatch('SS', '[\u00df]', fold), true)
+  t.equal(minimatch('s', '[\u00df]', fold), false)
+  t.equal(minimatch('SSx', '[\u00dfy]x', fold), true)
+  t.equal(minimatch('s', '[\u00df-\u00df]', fold), false)
+  t.equal(minimatch('ss', '[\u00df-\u00df]', fold), true)
+  t.equal(minimatch('\u017f', '[S-S]', fold), true)
+  t.equal(minimatch('\u017f', '[Q-T]', fold), true)
+  t.equal(minimatch('\u03c2', '[\u03a3]', fold), true)
+  t.equal(minimatch('\u03a3', '[\u03c2]', fold), true)
+  t.equal(minimatch('A', '[[:upper:]]', fold), true)
+  t.equal(minimatch('a', '[[:upper:]]', fold), true)
+  // classes made by brace expansion are folded too
+  t.equal(minimatch('SS', '[{\u00df,x}]', fold), true)
+  // escaped brackets are not classes
+  t.equal(minimatch('[A]', '\\[A]', fold), true)
+  t.equal(minimatch('[SS]', '\\[\u00df]', fold), true)
+})
+
+t.test('locale', async t => {
+  t.equal(minimatch('I', 'i', fold), true)
+  t.equal(minimatch('I', 'i', tr), false)
+  t.equal(minimatch('I', '\u0131', tr), true)
+  t.equal(minimatch('\u0130', 'i', tr), true)
+  t.equal(minimatch('IX', '[\u0131]*', tr), true)
+  t.equal(minimatch('IX', '[i]*', tr), false)
+  const re = makeRe('\u0131*', tr)
+  t.equal(re && re.test('IX'), true)
+  t.equal(re && re.test('ix'), false)
+})
+
+t.test('windows roots', async t => {
+  const win: MinimatchOptions = { ...fold, platform: 'win32' }
+  t.equal(minimatch('C:/x', 'c:/x', { nocase: true, platform: 'win32' }), false)
+  t.equal(minimatch('C:/x', 'c:/x', win), true)
+  t.equal(minimatch('c:/X', 'C:/*', win), true)
+  t.equal(minimatch('//?/C:/x', 'c:/x', win), true)
+  t.equal(minimatch('C:/x', '//?/c:/x', win), true)
+  t.equal(minimatch('//HOST/Share/x', '//host/share/*', win), true)
+  t.equal(minimatch('D:/x', 'c:/x', win), false)
+})
+
+t.test('MinimatchSet', async t => {
+  const set = new MinimatchSet(['stra\u00dfe/*', 'STRASSE/b', '*/c'], fold)
+  t.same(set.match('Strasse/b'), [0, 1])
+  t.same(set.match('STRA\u00dfE/c'), [0, 2])
+})
+
+t.test('fingerprint', async t => {
+  const fp = (p: string, o: MinimatchOptions = {}) =>
+    new Minimatch(p, o).fingerprint()
+  t.equal(fp('STRASSE', fold), fp('stra\u00dfe', fold))
+  t.not(fp('abc', fold), fp('abc', { nocase: true }))
+  t.not(fp('abc', fold), fp('abc', tr))
+  t.equal(
+    fp('abc', { nocase: true }),
+    fp('abc', { nocase: true, locale: 'tr' })
+  )
+})
@@ -0,0 +1,150 @@
+import t from 'tap'
+import { CodeOwners, minimatch } from '../'
+
+// the examples from GitHub's CODEOWNERS documentation
+const github = `# This is a comment.
+*       @global-owner1 @global-owner2
+*.js    @js-owner #This is an inline comment.
+*.go docs@example.com
+*.txt @octo-org/octocats
+/build/logs/ @doctocat
+docs/*  docs@example.com
+apps/ @octocat
+/docs/ @doctocat
+/scripts/ @doctocat @octocat
+**/logs @octocat
+/apps/ @octocat
+/apps/github
+`
+
+t.test('github', async t => {
+  const co = new CodeOwners(github)
+  t.equal(co.rules.length, 12)
+  t.same(co.sections, [])
+  const o = (p: string) => co.ownersOf(p)
+  t.same(o('README.md').owners, ['@global-owner1', '@global-owner2'])
+  t.match(o('README.md'), { line: 2, section: undefined })
+  t.same(o('src/index.js').owners, ['@js-owner'])
+  t.same(o('a/b/c.go').owners, ['docs@example.com'])
+  t.same(o('build/logs/x/y.log').owners, ['@octocat'])
+  t.match(o('build/logs/x/y.log'), { line: 11 })
+  t.same(o('src/build/logs/y.js').owners, ['@octocat'])
+  // docs/* only matches direct children
+  t.same(o('docs/getting-started.md').owners, ['@doctocat'])
+  t.match(o('docs/getting-started.md'), { line: 9 })
+  // and it is anchored, because of the / in the middle
+  t.same(o('x/docs/getting-started.md').owners, [
+    '@global-owner1',
+    '@global-owner2',
+  ])
+  t.same(o('x/docs/build-app/troubleshooting.md').owners, [
+    '@global-owner1',
+    '@global-owner2',
+  ])
+  // apps/ matches any apps directory, but not a file named apps
+  t.same(o('x/apps/y.rb').owners, ['@octocat'])
+  t.match(o('x/apps/y.rb'), { line: 8 })
+  t.same(o('x/apps').owners, ['@global-owner1', '@global-owner2'])
+  // no owners means unowned
+  t.same(o('apps/github/x.rb'), {
+    owners: [],
+    rule: co.rules[11],
+    line: 13,
+    section: undefined,
+    matches: [{ owners: [], rule: co.rules[11], line: 13, section: undefined }],
+  })
+  t.same(o('./scripts/deploy.sh').owners, ['@doctocat', '@octocat'])
+  t.same(new CodeOwners('').ownersOf('x'), {
+    owners: [],
+    rule: undefined,
+    line: undefined,
+    section: undefined,
+    matches: [],
+  })
+})
+
+t.test('parsing', async t => {
+  const co = new CodeOwners(
+    [
+      '\\#hash @a',
+      'with\\ space.md @b',
+      '  indented @c   ',
+      'a#b @d # comment',
+      '/',
+      '#',
+      'nested/dir/ @e',
+    ].join('\r\n')
+  )
+  t.same(
+    co.rules.map(r => [r.line, r.pattern, r.owners, r.anchored, r.dirOnly]),
+    [
+      [1, '\\#hash', ['@a'], false, false],
+      [2, 'with\\ space.md', ['@b'], false, false],
+      [3, 'indented', ['@c'], false, false],
+      [4, 'a#b', ['@d'], false, false],
+      [7, 'nested/dir/', ['@e'], true, true],
+    ]
+  )
+  t.same(co.ownersOf('x/#hash').owners, ['@a'])
+  t.same(co.ownersOf('with space.md').owners, ['@b'])
+  t.same(co.ownersOf('a#b').owners, ['@d'])
+  t.same(co.ownersOf('nested/dir/x').owners, ['@e'])
+  t.same(co.ownersOf('nested/dir').owners, [])
+  t.same(co.ownersOf('x/nested/dir/y').owners, [])
+  // no negation in CODEOWNERS
+  t.same(new CodeOwners('!x @a').ownersOf('!x').owners, ['@a'])
+})
+
+t.test('gitlab sections', async t => {
+  const co = new CodeOwners(`* @default
+
+[Docs] @docs-team
+*.md
+/docs/internal/ @security
+
+^[Frontend][2] @fe
+*.js
+*.md @fe-docs
+
+[docs]
+*.txt
+`)
+  t.same(
+    co.sections.map(s => [s.name, s.optional, s.approvals, s.owners, s.line]),
+    [
+      ['Docs', false, 1, ['@docs-team'], 3],
+      ['Frontend', true, 2, ['@fe'], 7],
+    ]
+  )
+  t.equal(co.rules[1].section, co.sections[0])
+  const r = co.ownersOf('docs/internal/a.md')
+  t.same(r.owners, ['@default', '@security', '@fe-docs'])
+  t.same(
+    r.matches.map(m => [m.section, m.line, m.owners]),
+    [
+      [undefined, 1, ['@default']],
+      ['Docs', 5, ['@security']],
+      ['Frontend', 9, ['@fe-docs']],
+    ]
+  )
+  t.match(r, { line: 9, section: 'Frontend' })
+  t.same(co.ownersOf('a.txt').owners, ['@default', '@docs-team'])
+  t.match(co.ownersOf('a.txt'), { line: 12, section: 'Docs' })
+  t.same(co.ownersOf('a.js').owners, ['@default', '@fe'])
+
+  // later headers can change the section settings
+  const again = new CodeOwners('[A][3] @x\n^[a]\n[A] @y\n')
+  t.same(again.sections, [
+    { name: 'A', optional: false, approvals: 3, owners: ['@y'], line: 1 },
+  ])
+})
+
+t.test('options', async t => {
+  t.same(new CodeOwners('*.JS @a', { nocase: true }).ownersOf('x.js').owners, [
+    '@a',
+  ])
+  const win = new CodeOwners('/src/ @a', { platform: 'win32' })
+  t.same(win.ownersOf('src\\x\\y.js').owners, ['@a'])
+  const mm = minimatch.defaults({ nocase: true })
+  t.same(new mm.CodeOwners('*.JS @a').ownersOf('x.js').owners, ['@a'])
+})
@@ -0,0 +1,117 @@
+import t from 'tap'
+import {
+  compileCache,
+  CompileCache,
+  filter,
+  makeRe,
+  match,
+  minimatch,
+  Minimatch,
+  MinimatchOptions,
+} from '../'
+
+t.beforeEach(() => {
+  compileCache.max = 0
+  compileCache.clear()
+})
+
+t.test('disabled by default', async t => {
+  t.equal(compileCache.max, 0)
+  t.equal(minimatch('a.js', '*.js'), true)
+  t.equal(minimatch('a.js', '*.js'), true)
+  t.equal(compileCache.size, 0)
+  t.equal(compileCache.hits, 0)
+  t.equal(compileCache.misses, 0)
+  t.not(makeRe('*.js'), makeRe('*.js'))
+})
+
+t.test('hits and misses', async t => {
+  compileCache.max = 10
+  t.equal(minimatch('a.js', '*.js'), true)
+  t.equal(minimatch('b.js', '*.js'), true)
+  t.equal(minimatch('b.ts', '*.js'), false)
+  t.same([compileCache.size, compileCache.hits, compileCache.misses], [1, 2, 1])
+  // the same compiled object is used by all of the functions
+  t.equal(makeRe('*.js'), makeRe('*.js'))
+  t.same(match(['a.js', 'b.ts'], '*.js'), ['a.js'])
+  t.same(['a.js', 'b.ts'].filter(filter('*.js')), ['a.js'])
+  t.same([compileCache.size, compileCache.hits, compileCache.misses], [1, 7, 1])
+  t.equal(minimatch('#a', '#a'), false)
+  t.same(match(['x'], '*.md', { nonull: true }), ['*.md'])
+  t.equal(compileCache.size, 2)
+  compileCache.clear()
+  t.same([compileCache.size, compileCache.hits, compileCache.misses], [0, 0, 0])
+  t.equal(compileCache.max, 10)
+})
+
+t.test('normalized options', async t => {
+  compileCache.max = 10
+  const get = (o: MinimatchOptions) => compileCache.get('*.js', o)
+  const mm = get({})
+  t.type(mm, Minimatch)
+  t.equal(get({ dot: false }), mm)
+  t.equal(get({ nocase: undefined }), mm)
+  t.equal(get({ dot: true, nocase: true }), get({ nocase: true, dot: true }))
+  t.not(get({ dot: true }), mm)
+  t.not(compileCache.get('*.ts', {}), mm)
+  // false is not the same as unset for these
+  t.not(get({ windowsNoMagicRoot: false }), mm)
+  t.not(get({ allowWindowsEscape: false }), mm)
+})
+
+t.test('mutated options', async t => {
+  compileCache.max = 10
+  const options: MinimatchOptions = {}
+  t.equal(minimatch('.x.js', '*.js', options), false)
+  options.dot = true
+  t.equal(minimatch('.x.js', '*.js', options), true)
+  options.dot = false
+  options.matchBase = true
+  t.equal(minimatch('a/x.js', '*.js', options), true)
+  t.equal(compileCache.misses, 3)
+  // the cached objects have their own copy of the options
+  const mm = compileCache.get('*.js', options)
+  t.not(mm.options, options)
+  options.matchBase = false
+  t.equal(mm.options.matchBase, true)
+  t.equal(minimatch('a/x.js', '*.js', options), false)
+})
+
+t.test('defaults', async t => {
+  compileCache.max = 10
+  const mm = minimatch.defaults({ nocase: true })
+  t.equal(mm.compileCache, compileCache)
+  t.equal(mm('A.JS', '*.js'), true)
+  t.equal(minimatch('A.JS', '*.js'), false)
+  t.equal(mm('A.JS', '*.js', { nocase: false }), false)
+  t.equal(mm.makeRe('*.js'), makeRe('*.js', { nocase: true }))
+  t.equal(compileCache.size, 2)
+})
+
+t.test('least recently used are dropped', async t => {
+  compileCache.max = 2
+  const a = compileCache.get('a')
+  const b = compileCache.get('b')
+  t.equal(compileCache.get('a'), a)
+  compileCache.get('c')
+  t.equal(compileCache.size, 2)
+  t.equal(compileCache.get('a'), a)
+  t.not(compileCache.get('b'), b)
+  compileCache.max = 1
+  t.equal(compileCache.size, 1)
+  compileCache.max = -1
+  t.equal(compileCache.max, 0)
+  t.equal(compileCache.size, 0)
+  compileCache.max = NaN
+  t.equal(compileCache.max, 0)
+  compileCache.max = 2.5
+  t.equal(compileCache.max, 2)
+})
+
+t.test('separate caches', async t => {
+  const cache = new CompileCache()
+  cache.max = 1
+  t.equal(cache.get('a', { dot: true }), cache.get('a', { dot: true }))
+  t.equal(cache.hits, 1)
+  t.equal(compileCache.hits, 0)
+})
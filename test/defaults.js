@@ -83,7 +83,12 @@ t.test('call defaults mm function', t => {
   t.same(['x', '#nc', 'y'].filter(f), ['#nc'])
   t.same(defmm.match(['x', '#nc', 'y'], '#nc'), ['#nc'])
   t.same(defmm.braceExpand('# {a,b}'), ['# a', '# b'])
-  t.same(defmm.makeRe('# {a,b}'), /^(?:\#\ a|\#\ b)$/)
+  // brace sets are alternations, rather than one pattern each
+  t.same(defmm.makeRe('# {a,b}'), /^\#\ (?:a|b)$/)
+  t.same(
+    ['# a', '# b', '# c', '#a'].filter(s => defmm.makeRe('# {a,b}').test(s)),
+    ['# a', '# b']
+  )
   t.end()
 })
 
@@ -0,0 +1,125 @@
+const t = require('tap')
+const { Minimatch, GLOBSTAR } = require('../')
+const patterns = require('./patterns.js')
+
+t.test('explain() agrees with match()', t => {
+  for (const p of patterns) {
+    if (typeof p === 'function') {
+      p()
+      continue
+    }
+    if (typeof p === 'string') continue
+    const [pattern, _, options = {}, f = patterns.files] = p
+    for (const level of [0, 1, 2]) {
+      const mm = new Minimatch(pattern, {
+        ...options,
+        optimizationLevel: level,
+      })
+      for (const file of f) {
+        const ex = mm.explain(file)
+        if (ex.result !== mm.match(file)) {
+          t.fail(`${pattern} ${file}`, { ex, options, level })
+        }
+        const hits = ex.entries.filter(e => e.hit)
+        const short = ex.comment || ex.empty
+        if (!short && (hits.length > 1 || !!hits.length !== ex.matched)) {
+          t.fail(`${pattern} ${file} matched`, { ex, options, level })
+        }
+      }
+    }
+  }
+  t.pass('all agree')
+  t.end()
+})
+
+t.test('steps and failures', async t => {
+  const mm = new Minimatch('{a,b}/**/c/*.js')
+  const ex = mm.explain('b/x/y/c/d.js')
+  t.equal(ex.result, true)
+  t.same(ex.globSet, ['a/**/c/*.js', 'b/**/c/*.js'])
+  t.same(
+    ex.entries.map(e => [e.index, e.glob, e.hit, e.failure]),
+    [
+      [0, 'a/**/c/*.js', false, 'path segment "b" does not match "a"'],
+      [1, 'b/**/c/*.js', true, undefined],
+    ]
+  )
+  t.match(ex.entries[1].steps, [
+    { kind: 'string', file: ['b'], fileIndex: 0, patternIndex: 0, hit: true },
+    { kind: 'globstar', pattern: GLOBSTAR, file: ['x', 'y'], hit: true },
+    { kind: 'string', file: ['c'], fileIndex: 3, hit: true },
+    { kind: 'regexp', pattern: RegExp, file: ['d.js'], hit: true },
+  ])
+
+  t.match(mm.explain('a/.x/c/d.js').entries[0], {
+    hit: false,
+    failure: /could not swallow/,
+    steps: [{}, { kind: 'globstar', file: [], hit: false }],
+  })
+  t.match(new Minimatch('a/**').explain('a/.x').entries[0], {
+    hit: false,
+    failure: /dot files/,
+    steps: [{}, { kind: 'globstar', file: ['.x'], hit: false }],
+  })
+  t.match(new Minimatch('a/*/c').explain('a/b').entries[0], {
+    failure: /ran out of path/,
+  })
+  t.match(new Minimatch('a/*/c').explain('a/b', true).entries[0], {
+    hit: true,
+  })
+  t.match(new Minimatch('a/*').explain('a/b/c').entries[0], {
+    failure: /left over/,
+  })
+  t.match(new Minimatch('a/*').explain('a/b/').entries[0], { hit: true })
+  t.match(new Minimatch('a/**/c', { partial: true }).explain('a/b').entries, [
+    { hit: true },
+  ])
+})
+
+t.test('negation and flipNegate', async t => {
+  const ex = new Minimatch('!*.js').explain('x.js')
+  t.match(ex, { negate: true, matched: true, result: false })
+  const flip = new Minimatch('!*.js', { flipNegate: true }).explain('x.js')
+  t.match(flip, { negate: true, flipNegate: true, matched: true, result: true })
+  const base = new Minimatch('*.js', { matchBase: true }).explain('a/b/x.js')
+  t.match(base.entries, [{ matchBase: true, file: ['x.js'], hit: true }])
+  const trailing = new Minimatch('*.js', { matchBase: true }).explain('a/x.js/')
+  t.match(trailing.entries, [{ file: ['x.js'], hit: true }])
+})
+
+t.test('short circuits', async t => {
+  t.match(new Minimatch('#x').explain('#x'), {
+    comment: true,
+    entries: [],
+    optimizations: [],
+    result: false,
+  })
+  t.match(new Minimatch('').explain(''), {
+    empty: true,
+    matched: true,
+    result: true,
+  })
+  t.match(new Minimatch('x', { partial: true }).explain('/'), {
+    result: true,
+    entries: [],
+  })
+})
+
+t.test('optimizations', async t => {
+  const o = (p, opt) => new Minimatch(p, opt).explain('x').optimizations
+  t.same(o('a/**/**/b'), ['levelOneOptimize'])
+  t.same(o('a/b'), [])
+  t.same(o('a/**/**/b', { optimizationLevel: 0 }), [
+    'adjascentGlobstarOptimize',
+  ])
+  t.same(o('a/**/b', { noglobstar: true }), ['noglobstar'])
+  t.same(o('{a/*,a/b}', { optimizationLevel: 2 }), ['secondPhasePreProcess'])
+  t.same(o('a/./b', { optimizationLevel: 2 }), ['firstPhasePreProcess'])
+})
+
+t.test('windows', async t => {
+  const mm = new Minimatch('//?/c:/*', { platform: 'win32' })
+  const ex = mm.explain('C:\\x')
+  t.equal(ex.result, true)
+  t.match(ex.entries[0].steps, [{ file: ['C:'] }, { file: ['x'] }])
+})
@@ -0,0 +1,70 @@
+import t from 'tap'
+import { filterIterable, minimatch } from '../'
+
+const paths = ['a.js', 'b.ts', '.x.js', 'src/c.js']
+
+t.test('sync iterables', async t => {
+  const it = filterIterable(paths, '*.js')
+  t.equal(typeof it.next, 'function')
+  t.same([...it], ['a.js'])
+  t.same([...filterIterable(new Set(paths), '**/*.js')], ['a.js', 'src/c.js'])
+  t.same([...filterIterable(paths, '*.md')], [])
+  t.same([...filterIterable(paths, '*.md', { nonull: true })], ['*.md'])
+  t.same([...filterIterable(paths, '*.js', { nonull: true })], ['a.js'])
+  t.same(
+    [...filterIterable([new TextEncoder().encode('é.js')], '*.js')],
+    ['é.js']
+  )
+})
+
+t.test('async iterables', async t => {
+  async function* gen() {
+    for (const p of paths) yield p
+  }
+  const found: string[] = []
+  for await (const p of filterIterable(gen(), '*.js', { dot: true })) {
+    found.push(p)
+  }
+  t.same(found, ['a.js', '.x.js'])
+  const none: string[] = []
+  for await (const p of filterIterable(gen(), 'x', { nonull: true })) {
+    none.push(p)
+  }
+  t.same(none, ['x'])
+})
+
+t.test('lines', async t => {
+  t.same(
+    [
+      ...filterIterable(['a.js\nb.', 'ts\r\nc.js\n\nd.js'], '*.js', {
+        lines: true,
+      }),
+    ],
+    ['a.js', 'c.js', 'd.js']
+  )
+  t.same(
+    [...filterIterable(['a.js\0b\n.js\0', 'c.js\0'], '*.js', { nul: true })],
+    ['a.js', 'b\n.js', 'c.js']
+  )
+  t.same([...filterIterable(['a\r\0'], 'a\r', { nul: true })], ['a\r'])
+  // multi-byte characters split across chunks
+  const bytes = new TextEncoder().encode('é.js\nà.ts\n')
+  t.same(
+    [
+      ...filterIterable([bytes.subarray(0, 1), bytes.subarray(1)], '*.js', {
+        lines: true,
+      }),
+    ],
+    ['é.js']
+  )
+  t.same(
+    [...filterIterable(['a.js'], '*.ts', { lines: true, nonull: true })],
+    ['*.ts']
+  )
+})
+
+t.test('defaults', async t => {
+  const mm = minimatch.defaults({ nocase: true })
+  t.same([...mm.filterIterable(['A.JS', 'b.ts'], '*.js')], ['A.JS'])
+  t.same([...mm.filterIterable(['A.JS'], '*.md', { nonull: true })], ['*.md'])
+})
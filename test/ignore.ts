@@ -0,0 +1,136 @@
+import t from 'tap'
+import { GitIgnore, minimatch } from '../'
+
+t.test('parsing', async t => {
+  const ig = new GitIgnore(
+    [
+      '# a comment',
+      '',
+      '\\#hash',
+      '\\!bang',
+      'trailing   ',
+      'escaped\\ ',
+      '!negated',
+      '!!double',
+      'build/',
+      '/anchored',
+      'a/b',
+      '/',
+    ].join('\n')
+  )
+  t.same(
+    ig.rules.map(r => [r.line, r.negate, r.dirOnly, r.anchored]),
+    [
+      [3, false, false, false],
+      [4, false, false, false],
+      [5, false, false, false],
+      [6, false, false, false],
+      [7, true, false, false],
+      [8, true, false, false],
+      [9, false, true, false],
+      [10, false, false, true],
+      [11, false, false, true],
+    ]
+  )
+  t.equal(ig.ignores('#hash'), true)
+  t.equal(ig.ignores('!bang'), true)
+  t.equal(ig.ignores('trailing'), true)
+  t.equal(ig.ignores('trailing '), false)
+  t.equal(ig.ignores('escaped '), true)
+  t.equal(ig.ignores('escaped'), false)
+  t.equal(ig.rules[5].minimatch.negate, true)
+  t.equal(ig.rules[5].minimatch.pattern, '\\!double')
+  t.equal(ig.rules[0].source, '\\#hash')
+  t.equal(new GitIgnore('foo\r\nbar\r\n').rules.length, 2)
+  t.equal(new GitIgnore().ignores('x'), false)
+})
+
+t.test('anchoring', async t => {
+  const ig = new GitIgnore('/root.txt\nany.txt\nsub/x.txt\n')
+  t.equal(ig.ignores('root.txt'), true)
+  t.equal(ig.ignores('a/root.txt'), false)
+  t.equal(ig.ignores('any.txt'), true)
+  t.equal(ig.ignores('a/b/any.txt'), true)
+  t.equal(ig.ignores('sub/x.txt'), true)
+  t.equal(ig.ignores('a/sub/x.txt'), false)
+  t.equal(ig.ignores('./sub/x.txt'), true)
+})
+
+t.test('directory-only rules', async t => {
+  const ig = new GitIgnore('build/\n')
+  t.equal(ig.ignores('build'), false)
+  t.equal(ig.ignores('build', { isDirectory: true }), true)
+  t.equal(ig.ignores('build/'), true)
+  t.equal(ig.ignores('build/out.js'), true)
+  t.equal(ig.ignores('a/build/out.js'), true)
+  t.equal(ig.test('a/build/out.js').rule?.line, 1)
+})
+
+t.test('last matching rule wins', async t => {
+  const ig = new GitIgnore('*.log\n!keep.log\n')
+  t.equal(ig.ignores('x.log'), true)
+  t.equal(ig.ignores('keep.log'), false)
+  t.equal(ig.ignores('a/keep.log'), false)
+  t.equal(ig.test('keep.log').rule?.negate, true)
+  t.same(ig.test('x.js'), { ignored: false })
+  const reversed = new GitIgnore('!keep.log\n*.log\n')
+  t.equal(reversed.ignores('keep.log'), true)
+})
+
+t.test('cannot re-include inside an excluded dir', async t => {
+  const ig = new GitIgnore('logs/\n!logs/keep.log\n')
+  t.equal(ig.ignores('logs/keep.log'), true)
+  t.equal(ig.test('logs/keep.log').rule?.line, 1)
+
+  // but excluding the contents rather than the dir itself is fine
+  const contents = new GitIgnore('logs/*\n!logs/keep.log\n')
+  t.equal(contents.ignores('logs', { isDirectory: true }), false)
+  t.equal(contents.ignores('logs/x.log'), true)
+  t.equal(contents.ignores('logs/keep.log'), false)
+})
+
+t.test('globstars and dots', async t => {
+  const ig = new GitIgnore('a/**/b\nfoo/**\n*.tmp\n')
+  t.equal(ig.ignores('a/b'), true)
+  t.equal(ig.ignores('a/x/y/b'), true)
+  t.equal(ig.ignores('foo', { isDirectory: true }), false)
+  t.equal(ig.ignores('foo/x'), true)
+  t.equal(ig.ignores('.hidden.tmp'), true)
+  t.equal(ig.ignores('x/.cache/y.tmp'), true)
+  t.equal(ig.ignores('{a,b}.tmp'), true)
+})
+
+t.test('options and platforms', async t => {
+  const nocase = new GitIgnore('*.LOG\n', { nocase: true })
+  t.equal(nocase.ignores('x.log'), true)
+  const win = new GitIgnore('out/\n', { platform: 'win32' })
+  t.equal(win.ignores('a\\out\\x.js'), true)
+  t.same(['a.js', 'b.log', 'c/d.log'].filter(new GitIgnore('*.log').filter()), [
+    'a.js',
+  ])
+  const Ignore = minimatch.defaults({ nocase: true }).GitIgnore
+  t.equal(new Ignore('*.LOG').ignores('x.log'), true)
+
+  // options that would change how the rules are read are overridden
+  const forced = new GitIgnore('*.log\n!keep.log\n\\#x\na/b\n', {
+    nonegate: true,
+    nocomment: false,
+    partial: true,
+    flipNegate: false,
+    matchBase: false,
+  })
+  t.equal(forced.ignores('keep.log'), false)
+  t.equal(forced.ignores('x/y.log'), true)
+  t.equal(forced.ignores('#x'), true)
+  t.equal(forced.ignores('a'), false)
+  t.equal(forced.ignores('a/b'), true)
+  t.equal(new GitIgnore('.x\n', { dot: false }).ignores('.x'), true)
+})
+
+t.test('anchored rules within directories', async t => {
+  const ig = new GitIgnore('a/**/c/\n!a/b/c/\nx/y\n')
+  t.equal(ig.ignores('a/b/c/d'), false)
+  t.equal(ig.ignores('a/e/c/d'), true)
+  t.equal(ig.ignores('x/y/z'), true)
+  t.equal(ig.ignores('w/x/y/z'), false)
+})
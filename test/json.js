@@ -0,0 +1,142 @@
+const t = require('tap')
+const { minimatch, Minimatch, MINIMATCH_JSON_VERSION } = require('../')
+const patterns = require('./patterns.js')
+
+t.test('round trip for all test patterns', t => {
+  for (const p of patterns) {
+    if (typeof p === 'function') {
+      p()
+      continue
+    }
+    if (typeof p === 'string') continue
+    const [pattern, _, options = {}, f = patterns.files] = p
+    const mm = new Minimatch(pattern, options)
+    const json = JSON.stringify(mm)
+    const copy = Minimatch.fromJSON(json)
+    if (JSON.stringify(copy) !== json) {
+      t.equal(JSON.stringify(copy), json, pattern)
+    }
+    for (const file of f) {
+      if (copy.match(file) !== mm.match(file)) {
+        t.fail('match differs', { pattern, options, file })
+      }
+    }
+    if (String(copy.makeRe()) !== String(mm.makeRe())) {
+      t.equal(String(copy.makeRe()), String(mm.makeRe()), pattern)
+    }
+  }
+  t.pass('all agree')
+  t.end()
+})
+
+t.test('format', async t => {
+  const mm = new Minimatch('!src/**/*.{js,ts}', { dot: true })
+  const json = mm.toJSON()
+  t.same(json, {
+    version: MINIMATCH_JSON_VERSION,
+    pattern: 'src/**/*.{js,ts}',
+    options: { dot: true, platform: mm.platform },
+    negate: true,
+    comment: false,
+    empty: false,
+    globSet: ['src/**/*.js', 'src/**/*.ts'],
+    globParts: [
+      ['src', '**', '*.js'],
+      ['src', '**', '*.ts'],
+    ],
+    set: [
+      [
+        'src',
+        { globstar: true },
+        {
+          source: mm.set[0][2].source,
+          flags: '',
+          _src: mm.set[0][2]._src,
+          _glob: '*.js',
+        },
+      ],
+      [
+        'src',
+        { globstar: true },
+        {
+          source: mm.set[1][2].source,
+          flags: '',
+          _src: mm.set[1][2]._src,
+          _glob: '*.ts',
+        },
+      ],
+    ],
+  })
+  // plain data, safe to send anywhere
+  t.same(JSON.parse(JSON.stringify(json)), json)
+})
+
+t.test('rehydrated objects', async t => {
+  const copy = Minimatch.fromJSON(
+    new Minimatch('src/**/*.@(js|ts)', { nocase: true }).toJSON()
+  )
+  t.equal(copy.match('SRC/a/B.JS'), true)
+  t.equal(copy.match('src/a/b.md'), false)
+  t.same(copy.capture('src/a/b.ts'), ['a', 'b', 'ts'])
+  t.equal(copy.hasMagic(), true)
+  // fast path tests are restored too
+  const star = Minimatch.fromJSON(new Minimatch('*.js').toJSON())
+  t.ok(Object.prototype.hasOwnProperty.call(star.set[0][0], 'test'))
+  t.same(Minimatch.fromJSON(new Minimatch('a').toJSON()).set, [['a']])
+
+  const win = new Minimatch('//?/c:/x/*', { platform: 'win32' })
+  const winCopy = Minimatch.fromJSON(JSON.stringify(win))
+  t.equal(winCopy.isWindows, true)
+  t.equal(winCopy.match('\\\\?\\C:\\x\\y'), win.match('\\\\?\\C:\\x\\y'))
+
+  for (const p of ['#comment', '']) {
+    const c = Minimatch.fromJSON(new Minimatch(p).toJSON())
+    t.equal(c.comment, p === '#comment')
+    t.equal(c.empty, p === '')
+    t.equal(c.match(''), p === '')
+  }
+})
+
+t.test('no parsing', async t => {
+  const json = new Minimatch('{a,b}/**/*.js').toJSON()
+  const { parse, braceExpand, make } = Minimatch.prototype
+  const fail = () => {
+    throw new Error('should not be called')
+  }
+  Object.assign(Minimatch.prototype, {
+    parse: fail,
+    braceExpand: fail,
+    make: fail,
+  })
+  t.teardown(() =>
+    Object.assign(Minimatch.prototype, { parse, braceExpand, make })
+  )
+  const copy = Minimatch.fromJSON(json)
+  t.equal(copy.match('b/x/y.js'), true)
+})
+
+t.test('debug', async t => {
+  const { error } = console
+  const logs = []
+  console.error = (...args) => logs.push(args)
+  t.teardown(() => (console.error = error))
+  const copy = Minimatch.fromJSON(new Minimatch('*', { debug: true }).toJSON())
+  logs.length = 0
+  copy.match('x')
+  t.not(logs.length, 0)
+})
+
+t.test('versions and defaults', async t => {
+  const json = new Minimatch('*.JS').toJSON()
+  for (const bad of [{ ...json, version: 0 }, JSON.stringify({}), null]) {
+    t.throws(() => Minimatch.fromJSON(bad), TypeError)
+  }
+  t.throws(() => Minimatch.fromJSON({ ...json, version: 2 }), {
+    message: 'unsupported Minimatch JSON version: 2',
+  })
+  // the saved options are used as they are
+  const mm = minimatch.defaults({ nocase: true })
+  const copy = mm.Minimatch.fromJSON(json)
+  t.same(copy.options, json.options)
+  t.equal(copy.match('a.js'), false)
+})
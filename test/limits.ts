@@ -0,0 +1,179 @@
+import t from 'tap'
+import {
+  AST,
+  braceExpand,
+  GlobLimitError,
+  makeRe,
+  minimatch,
+  Minimatch,
+  MinimatchLimits,
+} from '../'
+
+const limits = (l: MinimatchLimits) => ({ limits: l })
+
+const limitError = (limit: keyof MinimatchLimits, max: number) => ({
+  name: 'GlobLimitError',
+  limit,
+  max,
+  message: `pattern exceeds the ${limit} limit of ${max}`,
+})
+
+t.test('brace expansions', async t => {
+  const o = limits({ braceExpansions: 4 })
+  t.same(braceExpand('a{b,c}{d,e}', o), ['abd', 'abe', 'acd', 'ace'])
+  t.same(braceExpand('{1..7..2}', o), ['1', '3', '5', '7'])
+  t.same(braceExpand('{a..g..-2}', o), ['a', 'c', 'e', 'g'])
+  t.same(braceExpand('${a,b,c,d,e}', o), ['${a,b,c,d,e}'])
+  t.same(braceExpand('#{a,b,c,d}', o), ['#a', '#b', '#c', '#d'])
+  const cases = [
+    'a{b,c,d,e,f}',
+    'a{b,c}{d,e}{f,g}',
+    'x/+(a|{b,c}){d,e,f}',
+    '{1..5}',
+    '{1..1000000}{1..1000000}',
+    '{a..z}',
+    '{a,{b,c,{d,e}}}',
+  ]
+  for (const pattern of cases) {
+    t.throws(
+      () => braceExpand(pattern, o),
+      limitError('braceExpansions', 4),
+      pattern
+    )
+    t.throws(
+      () => new Minimatch(pattern, o).set,
+      limitError('braceExpansions', 4)
+    )
+  }
+  // brace-expansion never finishes this one
+  t.throws(() => braceExpand('{1..3..0}', o), limitError('braceExpansions', 4))
+  // what a tree can't say is still counted once it is expanded
+  t.throws(
+    () => braceExpand('*(a|{b),c)}{d,e}', limits({ braceExpansions: 3 })),
+    limitError('braceExpansions', 3)
+  )
+  // sets that match() uses as alternations are counted all the same
+  t.throws(
+    () => minimatch('a/7', 'a/{1..10}', o),
+    limitError('braceExpansions', 4)
+  )
+  t.throws(
+    () =>
+      new Minimatch('x/{1..1000000}', limits({ braceExpansions: 10 })).match(
+        'x/5'
+      ),
+    limitError('braceExpansions', 10)
+  )
+  t.throws(
+    () => minimatch('b', '{a,b,c}', limits({ braceExpansions: 2 })),
+    limitError('braceExpansions', 2)
+  )
+  t.equal(minimatch('a/4', 'a/{1..4}', o), true)
+  // brace-expansion leaves out whole patterns that are empty
+  const one = limits({ braceExpansions: 1 })
+  t.same(braceExpand('{,}', one), [])
+  t.same(braceExpand('{,}{,}', limits({ braceExpansions: 0 })), [])
+  t.same(braceExpand('{,a}', one), ['a'])
+  t.same(braceExpand('{,{,b}}', one), ['b'])
+  t.throws(() => braceExpand('x{,}', one), limitError('braceExpansions', 1))
+})
+
+t.test('extglob depth', async t => {
+  const o = limits({ extglobDepth: 2 })
+  t.doesNotThrow(() => new Minimatch('+(a|*(b))/@(c|!(d))', o))
+  t.doesNotThrow(() => new Minimatch('+(a|*(b))x@(c|!(d))', o))
+  for (const pattern of [
+    '+(a|*(b|@(c)))',
+    'x/*(!(+(a)))',
+    '@(@(@(a',
+    '{a,+(+(+(b)))}',
+  ]) {
+    t.throws(
+      () => new Minimatch(pattern, o),
+      limitError('extglobDepth', 2),
+      pattern
+    )
+    t.throws(() => makeRe(pattern, o), limitError('extglobDepth', 2), pattern)
+  }
+  t.throws(() => AST.fromGlob('*(*(*(a)))', o), limitError('extglobDepth', 2))
+  t.doesNotThrow(() => new Minimatch('*(*(*(a)))', { ...o, noext: true }))
+})
+
+t.test('set entries and globstars', async t => {
+  t.throws(
+    () => new Minimatch('a/{b,c/d,e}', limits({ setEntries: 2 })),
+    limitError('setEntries', 2)
+  )
+  t.equal(new Minimatch('a/{b,c/d}', limits({ setEntries: 2 })).set.length, 2)
+  t.throws(
+    () => new Minimatch('{a,b,c}', limits({ setEntries: 2 })).match('b'),
+    limitError('setEntries', 2)
+  )
+  t.equal(new Minimatch('{a,b}', limits({ setEntries: 2 })).match('b'), true)
+  t.throws(
+    () => new Minimatch('{a,b}/{c,d}', limits({ setEntries: 2 })).set,
+    GlobLimitError
+  )
+  const o = limits({ globstars: 2 })
+  t.equal(new Minimatch('**/a/**/b', o).set.length, 1)
+  t.equal(new Minimatch('**/**/a/**/**/b', o).set.length, 1)
+  t.throws(() => new Minimatch('**/a/**/b/**', o), limitError('globstars', 2))
+  t.throws(
+    () => new Minimatch('{x,**/a}/**/b/**', o),
+    limitError('globstars', 2)
+  )
+  t.doesNotThrow(
+    () => new Minimatch('**/a/**/b/**', { ...o, noglobstar: true })
+  )
+})
+
+t.test('regexp length', async t => {
+  const o = limits({ regexpLength: 20 })
+  t.equal(minimatch('ab', '*(a|b)', o), true)
+  t.doesNotThrow(() => makeRe('a/b/c', o))
+  t.throws(
+    () => new Minimatch('+(a|b|c|d|e|f|g|h|i|j)', o),
+    limitError('regexpLength', 20)
+  )
+  t.throws(() => makeRe('a/b/c/d/*', o), limitError('regexpLength', 20))
+  t.throws(() => makeRe('!a/b/c/d/e/f', o), limitError('regexpLength', 20))
+  t.throws(
+    () => makeRe('*.md', { ...o, regexDialect: 're2' }),
+    limitError('regexpLength', 20)
+  )
+  t.equal(
+    makeRe('a/*', { ...o, regexDialect: 're2' }).toString(),
+    '/^a\\/[^.\\/][^\\/]*$/u'
+  )
+})
+
+t.test('invalid limits', async t => {
+  for (const max of [-1, 1.5, NaN, Infinity]) {
+    t.throws(() => new Minimatch('a', limits({ globstars: max })), {
+      name: 'TypeError',
+      message: `invalid globstars limit: ${max}`,
+    })
+    t.throws(() => braceExpand('{a,b}', limits({ braceExpansions: max })), {
+      message: `invalid braceExpansions limit: ${max}`,
+    })
+  }
+  t.doesNotThrow(() => new Minimatch('a', limits({ globstars: undefined })))
+  t.doesNotThrow(() => new Minimatch('a', limits({ globstars: 0 })))
+})
+
+t.test('the error', async t => {
+  let er: unknown
+  try {
+    new Minimatch('{a,b}{c,d}', limits({ braceExpansions: 3 })).set
+  } catch (e) {
+    er = e
+  }
+  t.ok(er instanceof GlobLimitError)
+  t.ok(er instanceof RangeError)
+  t.match(er, { pattern: '{a,b}{c,d}' })
+  t.equal(minimatch.GlobLimitError, GlobLimitError)
+  const d = minimatch.defaults(limits({ setEntries: 1 }))
+  t.equal(d.GlobLimitError, GlobLimitError)
+  t.throws(() => new d.Minimatch('{a,b/c}'), GlobLimitError)
+  t.doesNotThrow(() => new Minimatch('{a,b/c}'))
+})
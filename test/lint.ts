@@ -0,0 +1,101 @@
+import t from 'tap'
+import { lint, minimatch, MinimatchOptions } from '../'
+
+type Expect = [code: string, start: number, end: number]
+
+const cases: [pattern: string, expect: Expect[], options?: MinimatchOptions][] =
+  [
+    ['src/**/*.js', []],
+    ['a**/b', [['globstar-not-alone', 1, 3]]],
+    ['a/***', [['globstar-not-alone', 2, 5]]],
+    [
+      'a/x**y**',
+      [
+        ['globstar-not-alone', 3, 5],
+        ['globstar-not-alone', 6, 8],
+      ],
+    ],
+    ['a/@(**)', [['globstar-not-alone', 4, 6]]],
+    ['a/**(x)', []],
+    ['a/***(x)', [['globstar-not-alone', 2, 4]]],
+    ['a/***(x)', [['globstar-not-alone', 2, 5]], { noext: true }],
+    ['a**/b', [], { noglobstar: true }],
+    ['src\\lib\\*.js', [['backslash', 3, 4]]],
+    ['src\\lib\\*.js', [], { windowsPathsNoEscape: true }],
+    ['src\\lib\\*.js', [], { allowWindowsEscape: false }],
+    ['a\\*\\[b\\]\\{c\\}', []],
+    ['a\\', [['backslash', 1, 2]]],
+    ['a/[bc', [['unclosed-class', 2, 3]]],
+    ['a/[z-a]x/y', [['empty-class', 2, 8]]],
+    ['a/[a-[:alpha:]]', [['empty-class', 2, 15]]],
+    ['a/+(b|c', [['unclosed-extglob', 2, 4]]],
+    ['a/+(b|@(c)', [['unclosed-extglob', 2, 4]]],
+    ['x/@(a|@(b', [['unclosed-extglob', 2, 4]]],
+    [
+      'a/@([b)',
+      [
+        ['unclosed-extglob', 2, 4],
+        ['unclosed-class', 4, 5],
+      ],
+    ],
+    ['a/+(b|c', [], { noext: true }],
+    ['a/@(b|c)/d)', []],
+    ['./src/*.js', [['leading-dot-slash', 0, 2]]],
+    ['!./src/*.js', [['leading-dot-slash', 1, 3]]],
+    ['!./src/*.js', [], { nonegate: true }],
+    ['*.{js,}', [['empty-brace-alternative', 2, 7]]],
+    [
+      '{,a}/{b,,c}',
+      [
+        ['empty-brace-alternative', 0, 4],
+        ['empty-brace-alternative', 5, 11],
+      ],
+    ],
+    ['{a,{b,}}', [['empty-brace-alternative', 3, 7]]],
+    ['{a,{}}', []],
+    ['x{a}', []],
+    ['${a,}', []],
+    ['{a\\},}', [['empty-brace-alternative', 0, 6]]],
+    ['x{a,', []],
+    ['\\{a,}', []],
+    ['*.{js,}', [], { nobrace: true }],
+    ['#comment/**', [['comment', 0, 11]]],
+    ['#comment', [], { nocomment: true }],
+    [
+      'a**/[b',
+      [
+        ['globstar-not-alone', 1, 3],
+        ['unclosed-class', 4, 5],
+      ],
+    ],
+  ]
+
+t.test('diagnostics', async t => {
+  for (const [pattern, expect, options] of cases) {
+    const found = lint(pattern, options).map(d => [d.code, d.start, d.end])
+    t.same(found, expect, JSON.stringify([pattern, options]))
+  }
+})
+
+t.test('severity and message', async t => {
+  t.same(
+    lint('./a**/[b/+(c/{d,}/#').map(d => d.severity),
+    ['warning', 'warning', 'error', 'error', 'info']
+  )
+  for (const d of lint('\\a')) {
+    t.match(d, {
+      severity: 'warning',
+      code: 'backslash',
+      message: /windowsPathsNoEscape/,
+      start: 0,
+      end: 1,
+    })
+  }
+  t.throws(() => lint(1 as any as string), TypeError)
+})
+
+t.test('defaults', async t => {
+  const mm = minimatch.defaults({ noglobstar: true })
+  t.same(mm.lint('a**/b'), [])
+  t.equal(minimatch.lint, lint)
+})
@@ -0,0 +1,108 @@
+const t = require('tap')
+const { compileMany, minimatch, Minimatch, MinimatchSet } = require('../')
+const patterns = require('./patterns.js')
+
+// every pattern in patterns.js, grouped by the options it uses
+const groups = new Map()
+for (const p of patterns) {
+  if (typeof p === 'function') {
+    p()
+    continue
+  }
+  if (typeof p === 'string') continue
+  const [pattern, _, options = {}, f = patterns.files] = p
+  const key = JSON.stringify(options)
+  const g = groups.get(key) || { options, patterns: [], files: new Set() }
+  groups.set(key, g)
+  g.patterns.push(pattern)
+  for (const file of f) g.files.add(file)
+}
+
+t.test('agrees with Minimatch.match()', t => {
+  for (const { options, patterns, files } of groups.values()) {
+    for (const level of [0, 1, 2]) {
+      for (const partial of [false, true]) {
+        const opt = { ...options, optimizationLevel: level, partial }
+        const set = compileMany(patterns, opt)
+        for (const f of files) {
+          const expect = []
+          patterns.forEach((p, i) => {
+            if (new Minimatch(p, opt).match(f)) expect.push(i)
+          })
+          const actual = set.match(f)
+          if (actual.join() !== expect.join()) {
+            t.same(actual, expect, f, { opt, patterns })
+          }
+        }
+      }
+    }
+  }
+  t.pass('all agree')
+  t.end()
+})
+
+t.test('match', async t => {
+  const set = new MinimatchSet([
+    'src/**/*.ts',
+    'src/**',
+    '**/*.js',
+    '!**/*.test.ts',
+    '*.md',
+    '# comment',
+    '',
+    'src/*/index.@(js|ts)',
+    'src/[ab]/*',
+    'src/**/b/*.ts',
+  ])
+  t.same(set.match('src/a/b/c.ts'), [0, 1, 3, 9])
+  t.same(set.match('src/a/index.ts'), [0, 1, 3, 7, 8])
+  t.same(set.match('src/x.test.ts'), [0, 1])
+  t.same(set.match('README.md'), [3, 4])
+  t.same(set.match('lib/.x/y.js'), [3])
+  t.same(set.match(''), [3, 6])
+  t.same(set.match('src/a/'), [1, 3])
+  t.same(set.match('src', true), [0, 1, 2, 7, 8, 9])
+  t.same(set.match('/', true), [0, 1, 2, 3, 4, 7, 8, 9])
+})
+
+t.test('options', async t => {
+  t.same(
+    compileMany(['*.js', 'a/*.js'], { matchBase: true }).match('a/x.js'),
+    [0, 1]
+  )
+  t.same(compileMany(['!*.js'], { flipNegate: true }).match('x.js'), [0])
+  t.same(compileMany(['a/**'], { dot: true }).match('a/.x/y'), [0])
+  t.same(compileMany(['a/**', 'a/**/y']).match('a/.x/y'), [])
+  t.same(compileMany(['**/a/**/b']).match('a/a/a/b'), [0])
+  t.same(compileMany(['*.JS', '*.js'], { nocase: true }).match('X.Js'), [0, 1])
+})
+
+t.test('windows', async t => {
+  const opt = { platform: 'win32' }
+  const set = compileMany(
+    ['c:/*', '//?/c:/*', 'C:', 'x/*', '//host/share/*'],
+    opt
+  )
+  for (const f of [
+    'c:\\x',
+    'C:\\x',
+    '//?/C:/x',
+    'x\\y',
+    '\\\\host\\share\\z',
+  ]) {
+    const expect = []
+    set.patterns.forEach((p, i) => {
+      if (minimatch(f, p, opt)) expect.push(i)
+    })
+    t.same(set.match(f), expect, f)
+  }
+  t.same(compileMany(['c:'], { ...opt, matchBase: true }).match('x\\c:'), [0])
+  t.same(compileMany(['{c:,*}'], opt).match('c:'), [0])
+})
+
+t.test('defaults', async t => {
+  const mm = minimatch.defaults({ nocase: true })
+  t.same(mm.compileMany(['A']).match('a'), [0])
+  t.same(new mm.MinimatchSet(['A']).match('a'), [0])
+  t.equal(new mm.MinimatchSet(['A']).options.nocase, true)
+})
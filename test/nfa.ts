@@ -0,0 +1,185 @@
+import t from 'tap'
+import { AST, minimatch, Minimatch, MinimatchOptions } from '../'
+import { LazyDFA } from '../dist/cjs/derivatives.js'
+const patterns = require('./patterns.js')
+
+const nfa = (options: MinimatchOptions = {}): MinimatchOptions => ({
+  ...options,
+  engine: 'nfa',
+})
+
+// the paths where the dot rules and the trailing / make a difference
+const extra = [
+  '',
+  '/',
+  '.',
+  '..',
+  'a/',
+  'a//',
+  'a/.b',
+  './a',
+  'a/../b',
+  '.a/b',
+  'a/b/',
+  'a/b/c/',
+  'x.js',
+  '.x.js',
+  'a/.js',
+]
+
+t.test('matches the same paths as the regexp engine', async t => {
+  for (const c of patterns) {
+    if (typeof c === 'function') c()
+    if (!Array.isArray(c)) continue
+    const [pattern, , options = {}, files = patterns.files] = c
+    const all = [...files, ...extra]
+    const msg = JSON.stringify([pattern, options])
+    t.same(
+      minimatch.match(all, pattern, nfa(options)),
+      minimatch.match(all, pattern, options),
+      msg
+    )
+    const mm = new Minimatch(pattern, options)
+    const mmNFA = new Minimatch(pattern, nfa(options))
+    const revived = Minimatch.fromJSON(mmNFA.toJSON())
+    for (const f of all) {
+      t.equal(mmNFA.match(f, true), mm.match(f, true), msg + ' partial ' + f)
+      t.equal(revived.match(f), mm.match(f), msg + ' revived ' + f)
+    }
+  }
+})
+
+t.test('globstars and partial matches', async t => {
+  const cases: [string, string, boolean, MinimatchOptions?][] = [
+    ['a/**', 'a', false],
+    ['a/**', 'a/', true],
+    ['a/**', 'a/b/c', true],
+    ['a/**', 'a/.b/c', false],
+    ['a/**', 'a/.b/c', true, { dot: true }],
+    ['a/**', 'a/../c', false, { dot: true }],
+    ['a/**/b', 'a/b', true],
+    ['a/**/b', 'a/x/./b', false],
+    ['a/**/**/b', 'a/x/y/b', true],
+    ['a/*', 'a/b/', true],
+    ['a/b/*', 'a/b/', false],
+    ['**/*.js', 'x/y.js', true],
+    ['*.js', 'x/y.js', true, { matchBase: true }],
+    ['//?/c:/*', 'c:/x', true, { platform: 'win32' }],
+  ]
+  for (const [pattern, f, expect, options] of cases) {
+    const msg = JSON.stringify([pattern, f, options])
+    t.equal(minimatch(f, pattern, nfa(options)), expect, msg)
+    t.equal(minimatch(f, pattern, options), expect, msg)
+  }
+  const partial: [string, string, boolean][] = [
+    ['a/**/b/c', 'a/x/y', true],
+    ['a/**/b/c', 'a/.x', false],
+    ['a/*/c', 'a/b', true],
+    ['a/*/c', 'x/b', false],
+    ['a/**', 'a', true],
+  ]
+  for (const [pattern, f, expect] of partial) {
+    const msg = JSON.stringify([pattern, f])
+    t.equal(new Minimatch(pattern, nfa()).match(f, true), expect, msg)
+    t.equal(new Minimatch(pattern).match(f, true), expect, msg)
+  }
+})
+
+t.test('case folding', async t => {
+  const mm = new Minimatch('stra\u00df+(e)', nfa({ nocase: 'fold' }))
+  t.equal(mm.match('STRASSE'), true)
+  t.equal(mm.match('STRASSEE'), true)
+  t.equal(mm.match('STRASE'), false)
+  t.equal(minimatch('A/*.JS', 'a/*.js', nfa({ nocase: true })), true)
+})
+
+t.test('patterns that backtrack take linear time', async t => {
+  const long = 'a'.repeat(5000) + 'c'
+  t.equal(minimatch(long, '*(*(a))b', nfa()), false)
+  t.equal(minimatch('x/' + long, 'x/!(*(*(a))c)', nfa()), false)
+  t.equal(minimatch('x/' + long + 'c', 'x/!(*(*(a))c)', nfa()), true)
+  t.equal(minimatch(long + 'b', '+(a|aa)cb', nfa()), true)
+  const deep = Array(2000).fill('a').join('/')
+  t.equal(minimatch(deep, '**/a/**/a/**/a/**/b', nfa()), false)
+  t.equal(minimatch(deep + '/b', '**/a/**/a/**/a/**/b', nfa()), true)
+})
+
+t.test('a DFA with more states than it keeps', async t => {
+  // the 12th character from the end is an a
+  const re = new RegExp('^(?!\\.)[^/]*?a[^/]{11}$')
+  const dfa = new LazyDFA(re.source, re.flags)
+  let s = ''
+  for (let i = 0, x = 7; i < 8000; i++) {
+    x = (x * 1103515245 + 12345) % 2147483648
+    s += x & 1024 ? 'a' : 'b'
+  }
+  for (const n of [8000, 7999, 7998, 4000]) {
+    const sub = s.substring(0, n)
+    t.equal(dfa.test(sub), re.test(sub), String(n))
+  }
+})
+
+t.test('the DFA is built from the AST', async t => {
+  const cases: [string, MinimatchOptions?][] = [
+    ['*.js'],
+    ['.*'],
+    ['\\.\\.*', { dot: true }],
+    ['!(*.js)x'],
+    ['x!()'],
+    ['+(a|b)*(c)?(d|)'],
+    ['@(a|.b)'],
+    ['!(|)'],
+    ['[[:alpha:]]\\*\u{1f600}?'],
+    ['\u{1f600}*\\'],
+    ['?\\\u{1f600}'],
+    ['A+(b)', { nocase: true }],
+    // an escaped | separates alternatives in the regexp
+    ['*a\\|b|c\\|d'],
+    ['@(x\\|y)z'],
+  ]
+  const paths = [
+    ...['', 'a', 'b', 'x', 'xx', 'xa', 'ab', 'da', 'abccd', 'xdd', 'xzz'],
+    ...['x.js', '.js', '..', '.a', 'yz', 'x\u{1f600}'],
+    ...['a|b', 'b|c', 'zb|cz', 'x|yz'],
+  ]
+  for (const [pattern, options = {}] of cases) {
+    const ast = AST.fromGlob(pattern, options)
+    const re = ast.toMMPattern() as RegExp
+    const dfa = new LazyDFA(ast.toRNode(), re.flags)
+    const all = [...paths, pattern, ast.toString(), '.' + pattern]
+    for (const f of all) {
+      t.equal(dfa.test(f), re.test(f), JSON.stringify([pattern, f]))
+    }
+  }
+})
+
+t.test('the same results as the regexp engine', async t => {
+  const cases: [string, string][] = [
+    // a portion of only stars has to match something
+    ['a/***', 'a/'],
+    ['a/***', 'a/b'],
+    ['***', ''],
+    // an escaped | separates alternatives in the regexp
+    ['\\|[ab]', 'ab'],
+    ['\\|[ab]', '|a'],
+    ['x/a\\|b*', 'x/bc'],
+  ]
+  for (const [pattern, f] of cases) {
+    const expect = new Minimatch(pattern).match(f)
+    const mm = new Minimatch(pattern, nfa())
+    const revived = Minimatch.fromJSON(mm.toJSON())
+    const msg = JSON.stringify([pattern, f])
+    t.equal(mm.match(f), expect, msg)
+    t.equal(revived.match(f), expect, msg + ' revived')
+  }
+  // JSON without the globs can only be matched from the source
+  const { set, ...json } = new Minimatch('a/!(*.js)', nfa()).toJSON()
+  const bare = set.map(p =>
+    p.map(r =>
+      typeof r === 'object' && 'source' in r ? { ...r, _glob: undefined } : r
+    )
+  )
+  const mm = Minimatch.fromJSON({ ...json, set: bare })
+  t.equal(mm.match('a/b.ts'), true)
+  t.equal(mm.match('a/b.js'), false)
+})
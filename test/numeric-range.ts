@@ -0,0 +1,124 @@
+import t from 'tap'
+import { braceExpand, makeRe, minimatch, Minimatch } from '../'
+import { numericRange } from '../dist/cjs/numeric-range.js'
+
+// the regexp source for the portion of the set that match() uses
+const matchSource = (pattern: string) => {
+  const mm = new Minimatch(pattern)
+  let set: any[][] = []
+  mm.debug = (...args: any[]) => {
+    if (args[1] === 'set') set = args[2]
+  }
+  mm.match('x')
+  return set.map(s => s.map(p => (p instanceof RegExp ? p.source : p)))
+}
+
+// numbers as plain and zero-padded strings
+const candidates = new Set<string>(['', '-', '-0', 'a', '1a', '01a'])
+for (let v = -130; v <= 130; v++) {
+  const c = String(v)
+  for (let w = 1; w <= 5; w++) {
+    const zeros = '0'.repeat(Math.max(0, w - c.length))
+    candidates.add(v < 0 ? '-' + zeros + c.substring(1) : zeros + c)
+  }
+}
+
+t.test('matches the same numbers as brace expansion', async t => {
+  const ranges = [
+    '1..3',
+    '3..1',
+    '0..9',
+    '1..100',
+    '7..123',
+    '19..21',
+    '15..35',
+    '00..99',
+    '01..10',
+    '001..120',
+    '10..1',
+    '-5..5',
+    '-12..7',
+    '-100..-12',
+    '-05..05',
+    '-5..005',
+    '-0..3',
+    '0..100..5',
+    '100..0..5',
+    '1..100..7',
+    '-20..20..3',
+    '00..99..10',
+    '1..10..-2',
+    '5..5',
+    '1..10..1',
+  ]
+  for (const r of ranges) {
+    const pattern = `x{${r}}y`
+    const expected = new Set(braceExpand(pattern))
+    const mm = new Minimatch(pattern)
+    const wrong = [...candidates]
+      .map(c => `x${c}y`)
+      .filter(f => mm.match(f) !== expected.has(f))
+    t.same(wrong, [], pattern)
+    t.not(matchSource(pattern), new Minimatch(pattern).set, pattern)
+  }
+})
+
+t.test('ranges are not expanded', async t => {
+  t.same(matchSource('logs/{1..5000}.txt'), [
+    [
+      'logs',
+      '^(?:(?!\\.)[1-9]|(?!\\.)[1-9][0-9]|(?!\\.)[1-9][0-9][0-9]|' +
+        '(?!\\.)[1-4][0-9][0-9][0-9]|5000)\\.txt$',
+    ],
+  ])
+  t.same(matchSource('v{00..99}'), [['^v(?:0[0-9]|[1-9][0-9])$']])
+
+  const huge = new Minimatch('x/{1..100000000000}/{0..99999..2}')
+  t.equal(huge.match('x/99999999999/12346'), true)
+  t.equal(huge.match('x/100000000001/12346'), false)
+  t.equal(huge.match('x/5/12345'), false)
+  t.equal(huge.match('x/05/12'), false)
+})
+
+t.test('steps are tested arithmetically', async t => {
+  const mm = new Minimatch('x/{0..3000000..3}')
+  t.equal(mm.match('x/2999997'), true)
+  t.equal(mm.match('x/3000000'), true)
+  t.equal(mm.match('x/2999998'), false)
+  t.equal(mm.match('x/3000003'), false)
+  t.equal(mm.match('x/03'), false)
+  t.equal(mm.hasMagic(), false)
+  // the step does not land on y
+  t.equal(minimatch('x/99', 'x/{0..100..3}', { engine: 'nfa' }), true)
+  t.equal(minimatch('x/100', 'x/{0..100..3}', { engine: 'nfa' }), false)
+
+  // numbers that could be in more than one place in the portion
+  const cases: [string, string[]][] = [
+    ['*x{0..30..3}.*', ['x1.x3.a', 'x1.x2.a', 'x13.a', 'xx30.x']],
+    ['{1..20..4}{0..9..3}', ['13', '96', '176', '1713', '55', '16']],
+    ['*{-9..9..3}?', ['--33', '-3a', 'a-6-', '7-0', '-7', '1']],
+    ['x{10..-10..5}', ['x5', 'x-5', 'x0', 'x-10', 'x3', 'x15']],
+    ['[0-9]{00..20..5}', ['105', '0015', '115', '1005', '0']],
+  ]
+  for (const [pattern, files] of cases) {
+    const expanded = braceExpand(pattern)
+    for (const f of files) {
+      const want = expanded.some(p => minimatch(f, p))
+      t.equal(minimatch(f, pattern), want, `${pattern} ${f}`)
+      t.equal(minimatch(f, pattern, { engine: 'nfa' }), want, `nfa ${f}`)
+      const re = makeRe(pattern) as RegExp
+      t.equal(re.test(f), want, `makeRe ${pattern} ${f}`)
+    }
+  }
+})
+
+t.test('ranges that are left to brace expansion', async t => {
+  // brace-expansion never stops for a step of 0, or for numbers too
+  // large to count up by 1, so only check that those are not compiled
+  t.equal(numericRange('1..3..0'), undefined)
+  t.equal(numericRange('1..3..-0'), undefined)
+  t.equal(numericRange('1..9007199254740993'), undefined)
+  const alpha = new Minimatch('x{a..c}')
+  t.equal(alpha.match('xb'), true)
+  t.equal(alpha.match('xd'), false)
+})
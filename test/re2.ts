@@ -0,0 +1,118 @@
+import t from 'tap'
+import { minimatch, MinimatchOptions, RegExpDialectError } from '../'
+import { toRE2 } from '../dist/cjs/re2.js'
+const patterns = require('./patterns.js')
+
+const re2 = (pattern: string, options: MinimatchOptions = {}) =>
+  minimatch.makeRe(pattern, { ...options, regexDialect: 're2' })
+
+// the paths where the dot rules and the regexp anchors make a difference
+const extra = [
+  '',
+  '.',
+  '..',
+  'a/.b',
+  './a',
+  'a/../b',
+  '.a/b',
+  'a\nb',
+  'a/b\n',
+  '\n/x',
+  'x.js',
+  '.x.js',
+  'a/.js',
+  'é/ü.js',
+  '//a',
+  'a//',
+]
+
+t.test('matches the same paths as the JavaScript regexp', async t => {
+  for (const c of patterns) {
+    if (typeof c === 'function') c()
+    if (!Array.isArray(c)) continue
+    const [pattern, , options = {}, files = patterns.files] = c
+    const js = minimatch.makeRe(pattern, options)
+    const re = re2(pattern, options)
+    const msg = JSON.stringify([pattern, options])
+    if (!js || !re) {
+      t.equal(re, js, msg)
+      continue
+    }
+    t.notMatch(re.source, /\(\?[^:]/, msg)
+    t.equal(re.flags, 'u', msg)
+    for (const f of [...files, ...extra]) {
+      t.equal(re.test(f), js.test(f), JSON.stringify([pattern, options, f]))
+    }
+  }
+})
+
+t.test('regexps', async t => {
+  const cases: [string, string, MinimatchOptions?][] = [
+    ['a/b', '^a\\/b$'],
+    ['*', '^[^.\\/][^\\/]*$'],
+    ['*', '^(?:[^.\\/]|\\.(?:[^.\\/]|\\.[^\\/]))[^\\/]*$', { dot: true }],
+    ['+(a|b)c', '^[ab]+c$'],
+    ['a/!(b|c)/d', '^a\\/(?:\\/|(?:[^.\\/bc]|[bc][^\\/])[^\\/]*\\/)d$'],
+    ['a\tb\u0007\u0085é', '^a\\tb\\x07\\x85é$'],
+    ['[z-a]', '^[^\\s\\S]$'],
+    ['@(!(*))', '^$'],
+  ]
+  for (const [pattern, expect, options] of cases) {
+    t.equal((re2(pattern, options) as RegExp).source, expect, pattern)
+  }
+  t.same(minimatch.makeRe('*', { regexDialect: 'js' }), minimatch.makeRe('*'))
+  const d = minimatch.defaults({ regexDialect: 're2' })
+  t.equal((d.makeRe('*.md') as RegExp).flags, 'u')
+})
+
+t.test('regexps from other sources', async t => {
+  const strings = ['', 'a', 'b', 'ab', 'ba', 'bb', 'aab', '\ud83d\ude00']
+  const cases: [string, string, string?][] = [
+    // the lookahead is only true at the end or before ab
+    ['(?!(?!ab).)[ab]*', '(?:ab[ab]*)?'],
+    ['(?:a?)*b', 'a*b'],
+    ['[^]', '[\\s\\S]', 'u'],
+    // only code points that can be in a valid string are kept
+    ['[\\ud800-\\udfff]', '[^\\s\\S]', 'u'],
+  ]
+  for (const [src, expect, flags = ''] of cases) {
+    const re = toRE2(src, flags)
+    t.equal(re.source, `^${expect}$`)
+    const js = new RegExp(`^(?:${src})$`, flags)
+    for (const s of strings) t.equal(re.test(s), js.test(s), src + ' ' + s)
+  }
+})
+
+t.test('patterns that cannot be written without lookarounds', async t => {
+  t.throws(() => re2('*', { capture: true }), TypeError)
+  t.throws(() => re2('*', { nocase: 'fold' }), TypeError)
+  t.throws(() => re2('*a?????????????'), {
+    name: 'RegExpDialectError',
+    reason: 'too many states',
+    message: /without lookarounds: too many states$/,
+  })
+  t.throws(() => re2('*a????????'), {
+    message: /without lookarounds: too many states$/,
+  })
+  t.throws(() => re2('*a?????'), {
+    message: /without lookarounds: the result is too long$/,
+  })
+  let er: unknown
+  try {
+    re2('*a?????')
+  } catch (e) {
+    er = e
+  }
+  t.ok(er instanceof RegExpDialectError)
+  t.match(er, { source: String })
+  t.equal(minimatch.RegExpDialectError, RegExpDialectError)
+  t.equal(minimatch.defaults({}).RegExpDialectError, RegExpDialectError)
+})
+
+t.test('characters outside the BMP', async t => {
+  // RE2 reads code points, where JavaScript reads UTF-16 code units
+  const emoji = '\ud83d\ude00'
+  t.equal((re2('?') as RegExp).test(emoji), true)
+  t.equal(minimatch(emoji, '?'), false)
+  t.equal(minimatch(emoji, '??'), true)
+})
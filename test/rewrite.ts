@@ -0,0 +1,65 @@
+import t from 'tap'
+import { minimatch, Minimatch, rewrite } from '../'
+
+t.test('numbered placeholders', async t => {
+  t.equal(
+    rewrite('src/a/b/c.ts', 'src/**/*.ts', 'dist/$1/$2.js'),
+    'dist/a/b/c.js'
+  )
+  t.equal(rewrite('src/c.ts', 'src/**/*.ts', 'dist/${2}.js'), 'dist/c.js')
+  t.equal(rewrite('src/c.js', 'src/**/*.ts', 'dist/$2.js'), undefined)
+  t.equal(rewrite('x.js', '*.js', '$3$0[$1]'), '[x]')
+  t.equal(rewrite('a-b', '*-*', '$2-$1 ($&) $$1'), 'b-a (a-b) $1')
+})
+
+t.test('named placeholders', async t => {
+  const names = ['dir', 'name']
+  t.equal(
+    rewrite('src/x/y.ts', 'src/**/*.ts', 'lib/${dir}/${name}.d.ts', {}, names),
+    'lib/x/y.d.ts'
+  )
+  t.equal(
+    rewrite('src/y.ts', '*/*.ts', '${extra}', {}, ['a', 'b', 'extra']),
+    ''
+  )
+  t.throws(() => rewrite('src/y.ts', 'src/**/*.ts', '${nope}', {}, names), {
+    message: 'unknown placeholder in template: ${nope}',
+  })
+})
+
+t.test('options', async t => {
+  t.equal(rewrite('X.TS', '*.ts', '$1.js', { nocase: true }), 'X.js')
+  // folding the case is only for comparing, not for what is captured
+  for (const nocase of [true, 'fold'] as const) {
+    t.equal(
+      rewrite('SRC/FooBar.TS', 'src/*.ts', 'dist/$1.js', { nocase }),
+      'dist/FooBar.js',
+      String(nocase)
+    )
+  }
+  t.equal(
+    rewrite('STRASSE/X.TS', 'stra\u00dfe/*.ts', '$&:$1', { nocase: 'fold' }),
+    'STRASSE/X.TS:X'
+  )
+  t.equal(rewrite('.x.ts', '*.ts', '$1.js'), undefined)
+  t.equal(rewrite('.x.ts', '*.ts', '$1.js', { dot: true }), '.x.js')
+  t.equal(rewrite('b/x.md', '{a,b}/*.md', 'docs/$1.html'), 'docs/x.html')
+  t.equal(
+    rewrite('src\\a\\b.ts', 'src/**/*.ts', 'dist/$1/$2.js', {
+      platform: 'win32',
+    }),
+    'dist\\a\\b.js'
+  )
+  t.equal(
+    rewrite('src/a/b.ts', 'src/**/*.ts', 'dist/$1/$2.js', {
+      platform: 'win32',
+    }),
+    'dist/a/b.js'
+  )
+  const mm = new Minimatch('@(foo|bar)/*.txt')
+  t.equal(mm.replace('bar/x.txt', '$2.$1'), 'x.bar')
+  t.equal(
+    minimatch.defaults({ nocase: true }).rewrite('A.TXT', '*.txt', '$1'),
+    'A'
+  )
+})
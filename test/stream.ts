@@ -0,0 +1,66 @@
+import { Readable } from 'stream'
+import t from 'tap'
+import { filterStream } from '../dist/cjs/stream.js'
+
+const collect = (s: NodeJS.ReadableStream) =>
+  new Promise<any[]>((res, rej) => {
+    const chunks: any[] = []
+    s.on('data', c => chunks.push(c))
+    s.on('end', () => res(chunks))
+    s.on('error', rej)
+  })
+
+const text = async (input: string[], s: NodeJS.ReadWriteStream) =>
+  Buffer.concat(await collect(Readable.from(input).pipe(s))).toString()
+
+t.test('line mode', async t => {
+  t.equal(
+    await text(['a.js\nb.', 'ts\r\n.x.js\nc.js'], filterStream('*.js')),
+    'a.js\nc.js\n'
+  )
+  t.equal(
+    await text(
+      ['a.js\0b.ts\0.x.js\0'],
+      filterStream('*.js', { nul: true, dot: true })
+    ),
+    'a.js\0.x.js\0'
+  )
+  t.equal(await text(['a.js\n'], filterStream('*.md')), '')
+  t.equal(
+    await text(['a.js\n'], filterStream('*.md', { nonull: true })),
+    '*.md\n'
+  )
+  const bytes = Buffer.from('é.js\nà.ts\n')
+  t.equal(
+    await text(
+      [bytes.subarray(0, 1), bytes.subarray(1)] as any,
+      filterStream('*.js')
+    ),
+    'é.js\n'
+  )
+})
+
+t.test('object mode', async t => {
+  const s = filterStream('**/*.js', { objectMode: true })
+  t.same(await collect(Readable.from(['a.js', 'b.ts', 'src/c.js']).pipe(s)), [
+    'a.js',
+    'src/c.js',
+  ])
+  t.same(
+    await collect(
+      Readable.from(['a.js']).pipe(
+        filterStream('*.md', { objectMode: true, nonull: true })
+      )
+    ),
+    ['*.md']
+  )
+  // split the writes, but read one path at a time
+  t.same(
+    await collect(
+      Readable.from(['a.js\nb.', 'js\n']).pipe(
+        filterStream('*.js', { objectMode: true, lines: true })
+      )
+    ),
+    ['a.js', 'b.js']
+  )
+})
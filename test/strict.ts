@@ -0,0 +1,87 @@
+import t from 'tap'
+import {
+  AST,
+  braceExpand,
+  GlobSyntaxError,
+  makeRe,
+  minimatch,
+  Minimatch,
+} from '../'
+
+const strict = { strict: true }
+
+t.test('malformed patterns throw', async t => {
+  const cases: [pattern: string, offset: number, code: string][] = [
+    ['a/[bc', 2, 'unclosed-class'],
+    ['a/+(b|c', 2, 'unclosed-extglob'],
+    ['x/@(a|[b)', 2, 'unclosed-extglob'],
+    ['[z-a]', 0, 'empty-class'],
+    ['!a/[a-[:alpha:]]', 3, 'empty-class'],
+  ]
+  for (const [pattern, offset, code] of cases) {
+    const expect = {
+      name: 'GlobSyntaxError',
+      pattern,
+      offset,
+      code,
+      reason: String,
+      message: `invalid pattern at offset ${offset}: `,
+    }
+    t.throws(() => new Minimatch(pattern, strict), expect, pattern)
+    t.throws(() => makeRe(pattern, strict), expect, pattern)
+    t.throws(() => minimatch('a', pattern, strict), expect, pattern)
+    t.throws(() => braceExpand(pattern, strict), expect, pattern)
+    t.throws(() => AST.fromGlob(pattern, strict), expect, pattern)
+    // quietly matched some other way without it
+    t.doesNotThrow(() => new Minimatch(pattern))
+  }
+
+  let er: unknown
+  try {
+    new Minimatch('a/[bc', strict)
+  } catch (e) {
+    er = e
+  }
+  t.ok(er instanceof GlobSyntaxError)
+  t.ok(er instanceof SyntaxError)
+  t.equal(minimatch.GlobSyntaxError, GlobSyntaxError)
+})
+
+t.test('patterns that are fine', async t => {
+  for (const pattern of [
+    'src/**/*.{js,ts}',
+    '[!a-z]/+(a|b)/[[:alpha:]]',
+    'a\\[b',
+    '#[comment',
+    '!(a|b',
+    'a/+(b|c',
+  ]) {
+    const options = pattern === 'a/+(b|c' ? { ...strict, noext: true } : strict
+    t.doesNotThrow(() => new Minimatch(pattern, options), pattern)
+  }
+  // warnings are not errors
+  t.doesNotThrow(() => new Minimatch('./a**/b\\c', strict))
+})
+
+t.test('malformed after brace expansion', async t => {
+  t.throws(() => new Minimatch('{[a,b]}', strict), {
+    name: 'GlobSyntaxError',
+    pattern: '[a',
+    offset: 0,
+    code: 'unclosed-class',
+  })
+  t.throws(() => new Minimatch('x/{[a,b]}', strict), {
+    pattern: 'x/[a',
+    offset: 2,
+    code: 'unclosed-class',
+  })
+  t.doesNotThrow(() => new Minimatch('[{a,b}]', strict))
+})
+
+t.test('defaults', async t => {
+  const mm = minimatch.defaults(strict)
+  t.throws(() => mm.makeRe('a/[b'), GlobSyntaxError)
+  t.throws(() => new mm.Minimatch('a/[b'), GlobSyntaxError)
+  t.throws(() => mm.AST.fromGlob('[b'), GlobSyntaxError)
+  t.equal(mm.GlobSyntaxError, GlobSyntaxError)
+})
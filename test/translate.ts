@@ -0,0 +1,209 @@
+import t from 'tap'
+import {
+  minimatch,
+  Minimatch,
+  MinimatchOptions,
+  translate,
+  TranslateDialect,
+  Translation,
+} from '../'
+const patterns = require('./patterns.js')
+
+const dialects: TranslateDialect[] = [
+  'sql-like',
+  'sqlite-glob',
+  'find',
+  'powershell',
+]
+
+const reEscape = (s: string) => s.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, '\\$&')
+
+// how each target reads its patterns, as a regexp.  Only PowerShell
+// -like compares letters without regard to case.
+const toRegExp = (dialect: TranslateDialect, p: string) => {
+  let re = ''
+  for (let i = 0; i < p.length; i++) {
+    const c = p.charAt(i)
+    if (dialect === 'sql-like') {
+      if (c === '%') re += '[^]*'
+      else if (c === '_') re += '[^]'
+      else if (c === '\\') re += reEscape(p.charAt(++i))
+      else re += reEscape(c)
+      continue
+    }
+    const esc = dialect === 'find' ? '\\' : dialect === 'powershell' ? '`' : ''
+    if (esc && c === esc) re += reEscape(p.charAt(++i))
+    else if (c === '*') re += '[^]*'
+    else if (c === '?') re += '[^]'
+    else if (c === '[') {
+      const end = p.indexOf(']', i + 2)
+      const body = p.substring(i + 1, end)
+      re += /^[!^]/.test(body) ? `[^${body.substring(1)}]` : `[${body}]`
+      i = end
+    } else re += reEscape(c)
+  }
+  return new RegExp(`^${re}$`, dialect === 'powershell' ? 'i' : '')
+}
+
+const matches = (tr: Translation, f: string) =>
+  tr.patterns.some(p => toRegExp(tr.dialect, p).test(f)) !== tr.negate
+
+t.test('translations match all that the pattern does', async t => {
+  // an escaped | in an unclosed extglob is matched as a regexp |
+  const skip = '+(a|*\\|c\\\\|d\\\\\\|e\\\\\\\\|f\\\\\\\\\\|g'
+  for (const c of patterns) {
+    if (typeof c === 'function') c()
+    if (!Array.isArray(c) || c[0] === skip) continue
+    const [pattern, , options = {}, allFiles = patterns.files] = c
+    // paths are translated without a trailing / or repeated / characters
+    const files = allFiles.filter((f: string) => !/\/$|\/\//.test(f))
+    const o: MinimatchOptions = { ...options, nonull: false }
+    const expect = minimatch.match(files, pattern, o)
+    for (const dialect of dialects) {
+      const tr = translate(pattern, dialect, o)
+      const found = files.filter((f: string) => matches(tr, f))
+      const msg = JSON.stringify([pattern, dialect, tr.patterns, options])
+      if (tr.exact) {
+        t.same(found, expect, msg)
+        t.equal(tr.residual, undefined, msg)
+      } else {
+        t.same(
+          expect.filter((f: string) => !found.includes(f)),
+          [],
+          msg
+        )
+        t.same(
+          found.filter((f: string) => tr.residual!.match(f)),
+          expect,
+          msg
+        )
+      }
+    }
+  }
+})
+
+t.test('translations', async t => {
+  const cases: [
+    pattern: string,
+    dialect: TranslateDialect,
+    expect: Partial<Translation>,
+    options?: MinimatchOptions
+  ][] = [
+    [
+      'src/a_b%c.txt',
+      'sql-like',
+      {
+        patterns: ['src/a\\_b\\%c.txt'],
+        exact: true,
+        escape: '\\',
+      },
+    ],
+    [
+      'src/**/*.{js,ts}',
+      'sql-like',
+      {
+        patterns: ['src/%.js', 'src/%.ts'],
+        exact: false,
+      },
+    ],
+    ['**/x', 'sql-like', { patterns: ['%x'], exact: false }],
+    ['a/**', 'sqlite-glob', { patterns: ['a/*'], exact: false }],
+    ['a/*/**/*', 'sqlite-glob', { patterns: ['a/*'], exact: false }],
+    ['/a/b', 'sqlite-glob', { patterns: ['/a/b'], exact: true }],
+    ['a*b/[x-z]', 'sqlite-glob', { patterns: ['a*b/[x-z]'], exact: false }],
+    ['a\\*b/[x-z]', 'sqlite-glob', { patterns: ['a[*]b/[x-z]'], exact: true }],
+    ['[[]?/[!a]', 'sqlite-glob', { patterns: ['??/[^a]'], exact: false }],
+    ['[^a]', 'find', { patterns: ['[!a]'], exact: false }],
+    ['a\\*\\\\b/[ab]', 'find', { patterns: ['a\\*\\\\b/[ab]'], exact: true }],
+    ['+(a|b)/c', 'find', { patterns: ['*/c'], exact: false }],
+    ['a`[b]*', 'powershell', { patterns: ['a``[b]*'], exact: false }],
+    [
+      'a\\[b\\]/[ab]',
+      'powershell',
+      {
+        patterns: ['a`[b`]/[ab]'],
+        exact: false,
+      },
+    ],
+    [
+      '1\\[2\\]/[0-9]',
+      'powershell',
+      { patterns: ['1`[2`]/[0-9]'], exact: true },
+    ],
+    ['[!a]', 'powershell', { patterns: ['?'], exact: false }],
+    // classes that mean something different in the targets
+    ['[z-a]x', 'sqlite-glob', { patterns: ['?x'], exact: false }],
+    ['[[:alpha:]]', 'sqlite-glob', { patterns: ['?'], exact: false }],
+    ['[a\\]]', 'find', { patterns: ['?'], exact: false }],
+    // ranges that minimatch does not match a / or a leading . with
+    ['a[+-0]b', 'find', { patterns: ['a?b'], exact: false }],
+    ['[--.]x', 'sqlite-glob', { patterns: ['?x'], exact: false }],
+    // targets that compare case differently than the pattern
+    [
+      'a.ts',
+      'sqlite-glob',
+      { patterns: ['[aA].[tT][sS]'], exact: true },
+      { nocase: true },
+    ],
+    [
+      '[a].ts',
+      'find',
+      { patterns: ['?.[tT][sS]'], exact: false },
+      { nocase: true },
+    ],
+    [
+      'a.ts',
+      'sql-like',
+      { patterns: ['_.__'], exact: false },
+      { nocase: true },
+    ],
+    ['\u00e9', 'find', { patterns: ['?'], exact: false }, { nocase: true }],
+    [
+      'A.ts',
+      'powershell',
+      { patterns: ['A.ts'], exact: true },
+      { nocase: true },
+    ],
+    [
+      'x/stra\u00dfe/a?',
+      'powershell',
+      { patterns: ['*/*/*'], exact: false },
+      { nocase: 'fold' },
+    ],
+    [
+      '[a-c]1',
+      'powershell',
+      { patterns: ['*1'], exact: false },
+      { nocase: 'fold' },
+    ],
+    ['[0-9]', 'find', { patterns: ['[0-9]'], exact: true }, { nocase: 'fold' }],
+    ['!a/b', 'sql-like', { patterns: ['a/b'], negate: true, exact: true }],
+    ['!a/*', 'sql-like', { patterns: ['%'], negate: false, exact: false }],
+    ['#comment', 'sql-like', { patterns: [], exact: true }],
+    ['', 'sql-like', { patterns: [''], exact: true }],
+    ['x', 'sql-like', { patterns: ['%x'], exact: false }, { matchBase: true }],
+    [
+      'a{b,c}',
+      'sql-like',
+      { patterns: ['a{b,c}'], exact: true },
+      { nobrace: true },
+    ],
+  ]
+  for (const [pattern, dialect, expect, options] of cases) {
+    const tr = translate(pattern, dialect, options)
+    t.match(tr, expect, JSON.stringify([pattern, dialect]))
+    t.equal(!!tr.residual, !expect.exact)
+    if (dialect !== 'sql-like') t.equal(tr.escape, undefined)
+  }
+})
+
+t.test('a Minimatch, and defaults', async t => {
+  const mm = new Minimatch('a/?', { dot: true })
+  const tr = translate(mm, 'find')
+  t.equal(tr.residual, mm)
+  t.same(tr.patterns, ['a/?'])
+  const d = minimatch.defaults({ nobrace: true })
+  t.same(d.translate('{a,b}', 'sqlite-glob').patterns, ['{a,b}'])
+  t.equal(minimatch.translate, translate)
+  t.throws(() => translate('a', 'regex' as TranslateDialect), TypeError)
+})
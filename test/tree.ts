@@ -0,0 +1,298 @@
+import t from 'tap'
+import {
+  GlobNode,
+  minimatch,
+  MinimatchOptions,
+  parseTree,
+  tree,
+  treeToString,
+  walkTree,
+} from '../'
+const patterns = require('./patterns.js')
+
+const roundTrip = (pattern: string, options: MinimatchOptions = {}) =>
+  treeToString(parseTree(pattern, options), options)
+
+t.test('parsed trees match the same paths as their patterns', async t => {
+  // a brace set that overlaps an extglob cannot be a node of either,
+  // and an escaped | in an unclosed extglob is matched as a regexp |
+  const skip = new Set([
+    '*(a|{b),c)}',
+    '+(a|*\\|c\\\\|d\\\\\\|e\\\\\\\\|f\\\\\\\\\\|g',
+  ])
+  for (const c of patterns) {
+    if (typeof c === 'function') c()
+    if (!Array.isArray(c) || skip.has(c[0])) continue
+    const [pattern, , options, files = patterns.files] = c
+    // nonull would return the pattern text itself
+    const o = { ...options, nonull: false }
+    const printed = roundTrip(pattern, o)
+    t.same(
+      minimatch.match(files, printed, o),
+      minimatch.match(files, pattern, o),
+      JSON.stringify([pattern, printed, options])
+    )
+  }
+})
+
+t.test('round trip text', async t => {
+  const same: [string, MinimatchOptions?][] = [
+    ['src/**/*.{js,ts}'],
+    ['!!a/b'],
+    ['!a/b', { nonegate: true }],
+    ['#comment/**'],
+    ['\\#a'],
+    ['#a', { nocomment: true }],
+    ['a/+(b|c)/@(d|!(e))'],
+    ['a/{b,c{d,e}}/{,x}'],
+    ['{1..10}/{a..e..2}/{00..99..5}'],
+    ['[a-z]/[!0-9]/[[:alpha:]]'],
+    ['a\\*b\\?c\\[d\\]\\(e\\)\\{f\\}'],
+    ['x{a\\,b,c}'],
+    ['@(a\\|b|c)'],
+    ['a/[z-a]x/y'],
+    ['{**,a}/b'],
+    ['a/**(x)/b**(y)'],
+    ['a/{b,c}', { nobrace: true }],
+    ['a\\\\\\\\{b,c}'],
+  ]
+  for (const [pattern, options] of same) {
+    t.equal(roundTrip(pattern, options), pattern, JSON.stringify(pattern))
+  }
+
+  // what the same thing is written as, when there is more than one way
+  const normalized: [string, string, MinimatchOptions?][] = [
+    ['a/[^b]', 'a/[!b]'],
+    ['*/**/a**b/***', '*/**/a*b/*'],
+    ['a/**', 'a/*', { noglobstar: true }],
+    ['${a,b}', '$\\{a,b\\}'],
+    ['x{a}', 'x\\{a\\}'],
+    ['x{a,', 'x\\{a,'],
+    ['a[bc', 'a\\[bc'],
+    ['a/+(b|c', 'a/+\\(b|c'],
+    ['a/+(b|c)', 'a/+\\(b|c\\)', { noext: true }],
+    ['a\\', 'a\\\\'],
+    ['a\\b\\*', 'a/b/*', { windowsPathsNoEscape: true }],
+    ['+(a\\b)', '+[(]a/b[)]', { windowsPathsNoEscape: true }],
+    ['\\!a', '\\!a'],
+    ['!\\#a', '!#a'],
+    // brace-expansion turns \\ into \
+    ['a\\\\{b,c}', 'a{b,c}'],
+    ['a\\\\\\{{b,c}', 'a\\{{b,c}'],
+    ['a\\\\\\*{b,c}', 'a\\\\\\\\*{b,c}'],
+    ['{b,c}\\\\', '{b,c}\\\\\\\\'],
+  ]
+  for (const [pattern, expect, options] of normalized) {
+    const printed = roundTrip(pattern, options)
+    t.equal(printed, expect, JSON.stringify(pattern))
+    const files = ['a/b', 'a/b/c', 'a/!b', '!a', '#a', 'a\\b', 'a\\*b', 'ab']
+    t.same(
+      minimatch.match(files, printed, options),
+      minimatch.match(files, pattern, options),
+      JSON.stringify([pattern, printed])
+    )
+  }
+})
+
+t.test('node kinds and offsets', async t => {
+  const pattern = '!a/**/b*?[!c]/+(d|{e,f{1..3}})'
+  const root = parseTree(pattern)
+  t.match(root, {
+    kind: 'pattern',
+    negate: 1,
+    comment: false,
+    start: 0,
+    end: pattern.length,
+  })
+  const found: [string, string][] = []
+  walkTree(root, node => {
+    found.push([node.kind, pattern.substring(node.start!, node.end)])
+  })
+  t.same(found, [
+    ['pattern', pattern],
+    ['literal', 'a'],
+    ['separator', '/'],
+    ['globstar', '**'],
+    ['separator', '/'],
+    ['literal', 'b'],
+    ['star', '*'],
+    ['qmark', '?'],
+    ['class', '[!c]'],
+    ['separator', '/'],
+    ['extglob', '+(d|{e,f{1..3}})'],
+    ['alternative', 'd'],
+    ['literal', 'd'],
+    ['alternative', '{e,f{1..3}}'],
+    ['brace', '{e,f{1..3}}'],
+    ['alternative', 'e'],
+    ['literal', 'e'],
+    ['alternative', 'f{1..3}'],
+    ['literal', 'f'],
+    ['range', '{1..3}'],
+  ])
+  t.match(parseTree('x{1..9..2}').children[1], {
+    kind: 'range',
+    from: '1',
+    to: '9',
+    step: '2',
+  })
+  t.match(parseTree('[^a-c]').children[0], {
+    kind: 'class',
+    negated: true,
+    body: 'a-c',
+  })
+  t.same(parseTree('a\\*b').children, [
+    { kind: 'literal', value: 'a*b', start: 0, end: 4 },
+  ])
+  t.match(parseTree('#x/y'), {
+    comment: true,
+    children: [{ kind: 'literal', value: 'x/y', start: 1, end: 4 }],
+  })
+  t.same(parseTree('#').children, [])
+  t.match(parseTree('a\\b', { windowsPathsNoEscape: true }).children, [
+    { kind: 'literal' },
+    { kind: 'separator', start: 1, end: 2 },
+    { kind: 'literal' },
+  ])
+  t.throws(() => parseTree('a/[b', { strict: true }), minimatch.GlobSyntaxError)
+})
+
+t.test('walking', async t => {
+  const root = parseTree('a/+(b|c)/{d,e}')
+  const entered: string[] = []
+  const left: string[] = []
+  walkTree(root, {
+    enter: node => {
+      entered.push(node.kind)
+      if (node.kind === 'extglob') return false
+    },
+    leave: (node, parent) => {
+      left.push(`${node.kind}<${parent?.kind}`)
+    },
+  })
+  t.same(entered, [
+    'pattern',
+    'literal',
+    'separator',
+    'extglob',
+    'separator',
+    'brace',
+    'alternative',
+    'literal',
+    'alternative',
+    'literal',
+  ])
+  t.same(left, [
+    'literal<pattern',
+    'separator<pattern',
+    'extglob<pattern',
+    'separator<pattern',
+    'literal<alternative',
+    'alternative<brace',
+    'literal<alternative',
+    'alternative<brace',
+    'brace<pattern',
+    'pattern<undefined',
+  ])
+
+  // a codemod: rename a directory, and replace each ? with a *
+  const codemod = parseTree('lib/?.{js,mjs}')
+  walkTree(codemod, (node, parent) => {
+    if (node.kind === 'literal' && node.value === 'lib')
+      node.value = 'dist/(lib)'
+    if (node.kind === 'qmark' && parent) {
+      const i = parent.children.indexOf(node as any)
+      parent.children.splice(i, 1, tree.star() as any)
+    }
+  })
+  t.equal(treeToString(codemod), 'dist/\\(lib\\)/*.{js,mjs}')
+  t.equal(treeToString(codemod.children[2]), '*')
+})
+
+t.test('building', async t => {
+  const built = tree.pattern([
+    'src',
+    tree.separator(),
+    tree.globstar(),
+    tree.separator(),
+    tree.star(),
+    tree.literal('.'),
+    tree.brace('js', ['m', tree.class('jt')], tree.alternative('cjs')),
+    tree.extglob('!', ['.', tree.range(1, 3)]),
+  ])
+  t.equal(treeToString(built), 'src/**/*.{js,m[jt],cjs}!(.{1..3})')
+  t.equal(
+    treeToString(tree.pattern(['a'], { negate: 2 })),
+    '!!a',
+    'negated pattern'
+  )
+  t.equal(
+    treeToString(
+      tree.pattern([
+        tree.extglob('@', 'x', ''),
+        tree.qmark(),
+        tree.class('a', true),
+      ])
+    ),
+    '@(x|)?[!a]'
+  )
+  t.equal(treeToString(tree.range('a', 'e', 2)), '{a..e..2}')
+  t.equal(treeToString(tree.alternative('a', tree.star())), 'a*')
+  t.equal(
+    treeToString(tree.pattern(['x', tree.globstar()], { comment: true })),
+    '#x**'
+  )
+
+  // literals are escaped, wherever they would be read as something else
+  const cases: [node: GlobNode, expect: string, options?: MinimatchOptions][] =
+    [
+      [tree.pattern(['!a']), '\\!a'],
+      [tree.pattern(['!a'], { negate: 1 }), '!\\!a'],
+      [tree.pattern(['!a']), '!a', { nonegate: true }],
+      [tree.pattern(['#a']), '\\#a'],
+      [tree.pattern(['#a'], { negate: 1 }), '!#a'],
+      [tree.pattern(['#a']), '#a', { nocomment: true }],
+      [tree.pattern(['#a']), '[#]a', { windowsPathsNoEscape: true }],
+      [tree.pattern(['!a']), '!a', { windowsPathsNoEscape: true }],
+      [tree.pattern([tree.extglob('!', 'a')]), '@(!(a))'],
+      [tree.pattern([tree.extglob('!', 'a')]), '!(a)', { nonegate: true }],
+      [tree.pattern(['x', tree.extglob('!', 'a')]), 'x!(a)'],
+      [tree.pattern(['a*b?[c]']), 'a\\*b\\?\\[c\\]'],
+      [
+        tree.pattern(['a*b?[c]']),
+        'a[*]b[?][[]c[]]',
+        { windowsPathsNoEscape: true },
+      ],
+      [tree.pattern(['{a,b}']), '\\{a,b\\}'],
+      [tree.pattern(['{a,b}']), '{a,b}', { nobrace: true }],
+      [tree.brace('a,b', 'c|d'), '{a\\,b,c|d}'],
+      [tree.extglob('+', 'a,b', 'c|d'), '+(a,b|c\\|d)'],
+      [tree.extglob('+', 'c|d'), '+(c[|]d)', { windowsPathsNoEscape: true }],
+      [tree.pattern(['a$', tree.brace('b', 'c')]), 'a[$]{b,c}'],
+      [tree.pattern(['a$', tree.range(1, 2)]), 'a[$]{1..2}'],
+      [tree.pattern(['a$', tree.brace('b')]), 'a$b'],
+      [tree.pattern([tree.brace()]), ''],
+      [tree.pattern([tree.star(), tree.star()]), '*'],
+      [tree.pattern([tree.star(), 'x', tree.star()]), '*x*'],
+    ]
+  for (const [node, expect, options] of cases) {
+    t.equal(treeToString(node, options), expect, expect)
+  }
+  // an escaped literal matches itself and nothing else
+  const weird = '!#a*b?[c](d)|e{f,g}\\h'
+  const p = treeToString(tree.pattern([weird]))
+  t.equal(minimatch(weird, p), true, p)
+  t.equal(minimatch('!#a', p), false, p)
+})
+
+t.test('defaults', async t => {
+  const mm = minimatch.defaults({ nobrace: true })
+  t.same(mm.parseTree('{a,b}').children, [
+    { kind: 'literal', value: '{a,b}', start: 0, end: 5 },
+  ])
+  t.equal(mm.treeToString(tree.pattern(['{a}'])), '{a}')
+  t.equal(mm.walkTree, walkTree)
+  t.equal(mm.tree, tree)
+  t.equal(minimatch.parseTree, parseTree)
+  t.equal(minimatch.treeToString, treeToString)
+})
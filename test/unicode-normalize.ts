@@ -0,0 +1,138 @@
+import t from 'tap'
+import { minimatch, Minimatch, MinimatchOptions, MinimatchSet } from '../'
+
+const nfc = 'caf\u00e9'
+const nfd = 'cafe\u0301'
+const forms = ['NFC', 'NFD', 'NFKC', 'NFKD'] as const
+
+t.test('no normalization by default', async t => {
+  t.equal(minimatch(`${nfd}/a.md`, `${nfc}/*.md`), false)
+  t.equal(minimatch(`${nfc}/a.md`, `${nfd}/*.md`), false)
+  t.equal(minimatch(`${nfd}/a.md`, `caf[\u00e9]/*.md`), false)
+})
+
+t.test('literals', async t => {
+  for (const unicodeNormalize of forms) {
+    const o = { unicodeNormalize }
+    for (const p of [nfc, nfd]) {
+      for (const f of [nfc, nfd]) {
+        t.equal(minimatch(`${f}/a.md`, `${p}/*.md`, o), true, unicodeNormalize)
+        t.equal(minimatch(`x/${f}`, `x/${p}`, o), true)
+        t.equal(minimatch(`x/${f}.md`, `**/${p}.md`, o), true)
+        t.equal(minimatch(`x/${f}.md`, `*/*${p.slice(-2)}.md`, o), true)
+        t.equal(minimatch(`${f}.md`, `{x,${p}}.md`, o), true)
+        t.equal(minimatch(`${f}.md`, `@(x|${p}).md`, o), true)
+        t.equal(minimatch(`x${f}`, `x!(${p})`, o), false)
+      }
+    }
+    t.equal(new Minimatch(nfd, o).pattern, nfd.normalize(unicodeNormalize))
+  }
+  // compatibility forms
+  const o: MinimatchOptions = { unicodeNormalize: 'NFKC' }
+  t.equal(minimatch('\ufb01le.txt', 'fi*', o), true)
+  t.equal(minimatch('\ufb01le.txt', 'fi*', { unicodeNormalize: 'NFC' }), false)
+})
+
+t.test('fast paths', async t => {
+  for (const unicodeNormalize of forms) {
+    const o = { unicodeNormalize }
+    t.equal(minimatch(`a.${nfd}`, `*.${nfc}`, o), true)
+    t.equal(minimatch(`a.${nfc}`, `*.${nfd}`, o), true)
+    t.equal(minimatch(nfd, '????', o), unicodeNormalize.endsWith('C'))
+  }
+})
+
+t.test('character classes', async t => {
+  for (const unicodeNormalize of forms) {
+    const o = { unicodeNormalize }
+    for (const c of [`[\u00e9]`, `[e\u0301]`]) {
+      for (const f of [nfc, nfd]) {
+        t.equal(minimatch(f, `caf${c}`, o), true, `${unicodeNormalize} ${c}`)
+      }
+      t.equal(minimatch('cafe', `caf${c}`, o), false)
+      t.equal(minimatch(nfd, `caf${c.replace('[', '[!')}`, o), false)
+      t.equal(minimatch('cafe', `caf${c.replace('[', '[!')}`, o), true)
+    }
+    for (const f of [nfc, nfd]) {
+      t.equal(minimatch(f, 'caf[x\u00e9]', o), true)
+      t.equal(minimatch(f, 'caf[a-c\u00e9]', o), true)
+      t.equal(minimatch(f, 'caf[[:digit:]\u00e9]', o), true)
+      t.equal(minimatch(f, 'caf[!x\u00e9]', o), false)
+      t.equal(minimatch(f, 'caf[\u00e9-]', o), true)
+      t.equal(minimatch(f, 'caf[\u00e9-\u00e9]', o), true)
+    }
+    t.equal(minimatch('cafb', 'caf[a-c\u00e9]', o), true)
+    t.equal(minimatch(nfd, 'caf[\u00e8\u00e9]', o), true)
+    t.equal(minimatch('cafe', 'caf[\u00e8\u00e9]', o), false)
+    t.equal(minimatch('caf-', 'caf[\u00e9-]', o), true)
+    t.equal(minimatch('cafx', 'caf[!x\u00e9]', o), false)
+    t.equal(minimatch('cafy', 'caf[!x\u00e9]', o), true)
+    t.equal(minimatch('caf1', 'caf[[:digit:]\u00e9]', o), true)
+    t.equal(minimatch('cafy', 'caf[[:digit:]\u00e9]', o), false)
+    t.equal(minimatch('caf\u00e9', 'caf[!e\u0301]', o), false)
+  }
+
+  // a range between characters with combining marks is between their
+  // composed forms, in every form
+  for (const unicodeNormalize of forms) {
+    const o: MinimatchOptions = { unicodeNormalize }
+    for (const f of [nfc, nfd]) {
+      t.equal(minimatch(f, 'caf[\u00e0-\u00ea]', o), true, unicodeNormalize)
+      t.equal(minimatch(f, 'caf[a-\u00ea]', o), true, unicodeNormalize)
+      t.equal(minimatch(f, 'caf[\u00e0-\u00e8]', o), false, unicodeNormalize)
+    }
+    t.equal(minimatch('caf\u00eb', 'caf[\u00e0-\u00ea]', o), false)
+    t.equal(minimatch('cafe', 'caf[\u00e0-\u00ea]', o), false)
+    t.equal(minimatch('cafb', 'caf[a-\u00ea]', o), true)
+  }
+
+  // other ranges are between single characters, so these depend on the
+  // form
+  const o: MinimatchOptions = { unicodeNormalize: 'NFC' }
+  t.equal(minimatch(nfd, 'caf[a-z]', o), false)
+  t.equal(
+    minimatch(nfd, 'caf[a-z]', { unicodeNormalize: 'NFD' }),
+    false,
+    'a range matches the e, and not the accent'
+  )
+  t.equal(minimatch(nfd, 'caf[a-z]?', { unicodeNormalize: 'NFD' }), true)
+})
+
+t.test('classes do not match dots at the start', async t => {
+  for (const unicodeNormalize of forms) {
+    const o = { unicodeNormalize }
+    t.equal(minimatch('.x', '[.\u00e9]x', o), false)
+    t.equal(minimatch('.x', '[!\u00e9]x', o), false)
+    t.equal(minimatch('.x', '[.\u00e9]x', { ...o, dot: true }), true)
+    t.equal(minimatch('.x', '[!\u00e9]x', { ...o, dot: true }), true)
+    t.equal(minimatch('..', '[.\u00e9][.\u00e9]', { ...o, dot: true }), false)
+    t.equal(minimatch('..', '\\.[!\u00e9]', { ...o, dot: true }), false)
+    t.equal(minimatch('...', '\\.\\.[!\u00e9]', { ...o, dot: true }), true)
+  }
+})
+
+t.test('capture and explain', async t => {
+  const mm = new Minimatch(`${nfc}/*`, { unicodeNormalize: 'NFC' })
+  t.same(mm.capture(`${nfd}/${nfd}`), [nfc])
+  t.equal(mm.explain(`${nfd}/x`).path, `${nfc}/x`)
+  t.equal(mm.explain(`${nfd}/x`).matched, true)
+})
+
+t.test('MinimatchSet', async t => {
+  const o: MinimatchOptions = { unicodeNormalize: 'NFC' }
+  const set = new MinimatchSet([`${nfc}/*.md`, `${nfd}/a.md`, '*/b.md'], o)
+  t.same(set.match(`${nfd}/a.md`), [0, 1])
+  t.same(set.match(`${nfc}/a.md`), [0, 1])
+  t.same(set.match(`${nfd}/b.md`), [0, 2])
+  t.same(new MinimatchSet([`${nfc}/*.md`]).match(`${nfd}/a.md`), [])
+})
+
+t.test('fingerprint', async t => {
+  const fp = (p: string, o: MinimatchOptions = {}) =>
+    new Minimatch(p, o).fingerprint()
+  const o: MinimatchOptions = { unicodeNormalize: 'NFC' }
+  t.equal(fp(nfc, o), fp(nfd, o))
+  t.not(fp(nfc), fp(nfd))
+  t.not(fp(nfc), fp(nfc, o))
+  t.equal(fp(nfc), fp(nfc, { unicodeNormalize: undefined }))
+})